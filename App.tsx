@@ -1,17 +1,26 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import GameCanvas from './components/GameCanvas';
 import HomeStickman from './components/HomeStickman';
-import { GameState, LeaderboardEntry, CosmeticItem, PlayerCosmetics, GameMode, ChallengeLevel, LevelProgress } from './types';
+import LevelEditor from './components/LevelEditor';
+import { GameState, LeaderboardEntry, CosmeticItem, PlayerCosmetics, GameMode, ChallengeLevel, LevelFailure, LevelProgress, Replay, KeyBindings, InputAction, PowerUp, PowerUpUpgrades } from './types';
 import { getGameOverRoast } from './services/geminiService';
 import { getLeaderboard, submitScore, isHighScore } from './services/leaderboardService';
 import { getOrCreatePlayerName, generateShortUniqueName } from './services/nameGenerator';
-import { CHALLENGE_LEVELS, initializeLevelObjectives } from './services/challengeLevels';
+import { CHALLENGE_LEVELS, getLevelById, getObjectiveHudText, initializeLevelObjectives } from './services/challengeLevels';
+import { ChallengeProgress, formatLevelTime, isLevelUnlocked, loadChallengeProgress, recordLevelRun, saveChallengeProgress } from './services/progressionService';
+import { generateSeed } from './services/random';
+import { ENDLESS_LIVES_HP, getMaxHp } from './services/glideSimulation';
+import { exportReplay, getGhostKey, importReplay, loadGhostReplay, saveGhostReplay } from './services/replayService';
+import { DEFAULT_KEY_BINDINGS, INPUT_ACTION_LABELS, formatKeyCode, loadKeyBindings, saveKeyBindings } from './services/inputController';
+import { createBlankLevel, parseLevel, serializeLevel } from './services/levelLoader';
+import { MAX_UPGRADE_LEVEL, POWER_UP_DEFINITIONS, POWER_UP_TYPES, getUpgradeCost, getUpgradeLevel, loadPowerUpUpgrades, savePowerUpUpgrades } from './services/powerUps';
 import {
   initCrazyGames,
   getCrazyGamesUser,
   crazyGamesLogin,
   reportGameplayStart,
   reportGameplayStop,
+  requestRewardedAd,
   triggerHappyTime,
   getCrazyGamesSDKStatus,
   CrazyGamesUser
@@ -31,11 +40,17 @@ const createNoiseBuffer = (ctx: AudioContext, duration: number = 2) => {
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.START);
   const [isPaused, setIsPaused] = useState(false);
+  const [resumeCountdown, setResumeCountdown] = useState<number | null>(null); // 3-2-1 before play continues (still paused)
   const [score, setScore] = useState(0);
+  const [stylePoints, setStylePoints] = useState(0); // Style score of the last finished run
   const [highScore, setHighScore] = useState(0);
   const [roast, setRoast] = useState<string>('');
   const [loadingRoast, setLoadingRoast] = useState(false);
   const [crashSnapshot, setCrashSnapshot] = useState<string | null>(null);
+  const [reviveOffer, setReviveOffer] = useState(false); // "Continue?" prompt on the game over screen
+  const [isAdPlaying, setIsAdPlaying] = useState(false);
+  const [reviveCount, setReviveCount] = useState(0); // Bumped to continue the crashed run
+  const pendingGameOverRef = useRef<{ score: number; cause: string } | null>(null); // Crash held back while the continue is on offer
   const [scorePulse, setScorePulse] = useState(false);
 
   // Coins & Shop State
@@ -44,6 +59,7 @@ const App: React.FC = () => {
     return stored ? parseInt(stored) : 0;
   });
   const [showShop, setShowShop] = useState(false);
+  const [powerUpUpgrades, setPowerUpUpgrades] = useState<PowerUpUpgrades>(() => loadPowerUpUpgrades());
 
   // Cosmetics State
   const [unlockedItems, setUnlockedItems] = useState<string[]>(() => {
@@ -103,6 +119,7 @@ const App: React.FC = () => {
   // CrazyGames State
   const [crazyUser, setCrazyUser] = useState<CrazyGamesUser | null>(null);
   const [showDebugPanel, setShowDebugPanel] = useState(false);
+  const [showHitboxes, setShowHitboxes] = useState(false);
 
   // Difficulty Mode State
   const [difficultyMode, setDifficultyMode] = useState<'EASY' | 'MEDIUM' | 'HARD'>(() => {
@@ -121,9 +138,37 @@ const App: React.FC = () => {
     const stored = localStorage.getItem('gameMode');
     return (stored as GameMode) || 'ENDLESS';
   });
+  // Lives Mode (ENDLESS only): a few hearts instead of one-hit death
+  const [livesMode, setLivesMode] = useState(() => {
+    const stored = localStorage.getItem('livesMode');
+    return stored === 'true';
+  });
+  const [health, setHealth] = useState<{ hp: number; maxHp: number } | null>(null);
   const [selectedChallengeLevel, setSelectedChallengeLevel] = useState<number | null>(null);
   const [showChallengeLevels, setShowChallengeLevels] = useState(false);
   const [levelProgress, setLevelProgress] = useState<LevelProgress | null>(null);
+  const levelProgressRef = useRef<LevelProgress | null>(null); // Readable from handleGameOver in the same tick
+  const [challengeProgress, setChallengeProgress] = useState<ChallengeProgress>(() => loadChallengeProgress());
+  const [lastLevelResult, setLastLevelResult] = useState<{ stars: number; cleared: boolean; time: number; newBestTime: boolean; failure: LevelFailure | null } | null>(null);
+  const [runSeed, setRunSeed] = useState(() => generateSeed());
+
+  // Level Editor
+  const [showLevelEditor, setShowLevelEditor] = useState(false);
+  const [editorLevel, setEditorLevel] = useState<ChallengeLevel>(() => {
+    const stored = localStorage.getItem('levelEditorDraft');
+    const result = stored ? parseLevel(stored) : null;
+    return result && result.success && result.level ? result.level : createBlankLevel();
+  });
+  const [testLevel, setTestLevel] = useState<ChallengeLevel | null>(null); // Editor level being test-played
+
+  // Replays
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null); // Recording of the latest live run
+  const [activeReplay, setActiveReplay] = useState<Replay | null>(null); // Replay currently being watched
+  const replayFileInputRef = useRef<HTMLInputElement>(null);
+  const lastReplayRef = useRef<Replay | null>(null); // Readable from handleGameOver in the same tick
+
+  // Ghost racer: input trace of the best run in the selected mode / level / difficulty
+  const [ghostReplay, setGhostReplay] = useState<Replay | null>(null);
 
   // Audio State
   const [masterVolume, setMasterVolume] = useState(() => {
@@ -145,6 +190,10 @@ const App: React.FC = () => {
     return stored || 'Stickman Glide.mp3';
   });
 
+  // Controls
+  const [keyBindings, setKeyBindings] = useState<KeyBindings>(() => loadKeyBindings());
+  const [rebindingSlot, setRebindingSlot] = useState<{ action: InputAction; index: number } | null>(null);
+
   // Refs
   const audioCtxRef = useRef<AudioContext | null>(null);
   const windGainRef = useRef<GainNode | null>(null);
@@ -364,18 +413,30 @@ const App: React.FC = () => {
         }
     };
 
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (!e.repeat && keyBindings.UMBRELLA.includes(e.code)) startWind();
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+        if (keyBindings.UMBRELLA.includes(e.code)) stopWind();
+    };
+
     window.addEventListener('mousedown', startWind);
     window.addEventListener('mouseup', stopWind);
     window.addEventListener('touchstart', startWind);
     window.addEventListener('touchend', stopWind);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
 
     return () => {
         window.removeEventListener('mousedown', startWind);
         window.removeEventListener('mouseup', stopWind);
         window.removeEventListener('touchstart', startWind);
         window.removeEventListener('touchend', stopWind);
+        window.removeEventListener('keydown', handleKeyDown);
+        window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [gameState]);
+  }, [gameState, keyBindings]);
 
   // Audio Logic: Depth Ambience (Drone)
   useEffect(() => {
@@ -512,6 +573,11 @@ const App: React.FC = () => {
     localStorage.setItem('coins', coins.toString());
   }, [coins]);
 
+  // Save power-up upgrades to localStorage
+  useEffect(() => {
+    savePowerUpUpgrades(powerUpUpgrades);
+  }, [powerUpUpgrades]);
+
   // Save unlocked items to localStorage
   useEffect(() => {
     localStorage.setItem('unlockedItems', JSON.stringify(unlockedItems));
@@ -527,6 +593,14 @@ const App: React.FC = () => {
     localStorage.setItem('difficultyMode', difficultyMode);
   }, [difficultyMode]);
 
+  // Load the ghost of the selected mode / level / difficulty / loadout
+  const ghostLevelId = gameMode === 'CHALLENGE' ? selectedChallengeLevel : null;
+  const ghostMaxHp = getMaxHp(gameMode, ghostLevelId !== null ? getLevelById(ghostLevelId) ?? null : null, livesMode);
+  const ghostKey = getGhostKey(gameMode, ghostLevelId, difficultyMode, ghostMaxHp, powerUpUpgrades);
+  useEffect(() => {
+    setGhostReplay(loadGhostReplay(ghostKey));
+  }, [ghostKey]);
+
   // Save dark mode to localStorage
   useEffect(() => {
     localStorage.setItem('darkMode', isDarkMode.toString());
@@ -537,6 +611,52 @@ const App: React.FC = () => {
     localStorage.setItem('gameMode', gameMode);
   }, [gameMode]);
 
+  // Save lives mode to localStorage
+  useEffect(() => {
+    localStorage.setItem('livesMode', livesMode.toString());
+  }, [livesMode]);
+
+  // Save key bindings to localStorage
+  useEffect(() => {
+    saveKeyBindings(keyBindings);
+  }, [keyBindings]);
+
+  // Save challenge progression to localStorage
+  useEffect(() => {
+    saveChallengeProgress(challengeProgress);
+  }, [challengeProgress]);
+
+  // Save level editor draft to localStorage
+  useEffect(() => {
+    localStorage.setItem('levelEditorDraft', serializeLevel(editorLevel));
+  }, [editorLevel]);
+
+  // Capture the next key press while rebinding (Escape cancels)
+  useEffect(() => {
+    if (!rebindingSlot) return;
+
+    const handleRebindKey = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+
+      if (e.code !== 'Escape') {
+        setKeyBindings(prev => {
+          const next: KeyBindings = { LEFT: [...prev.LEFT], RIGHT: [...prev.RIGHT], UMBRELLA: [...prev.UMBRELLA], DASH: [...prev.DASH] };
+          // A key can only drive one slot
+          (Object.keys(next) as InputAction[]).forEach(action => {
+            next[action] = next[action].map(code => code === e.code ? '' : code);
+          });
+          next[rebindingSlot.action][rebindingSlot.index] = e.code;
+          return next;
+        });
+      }
+      setRebindingSlot(null);
+    };
+
+    window.addEventListener('keydown', handleRebindKey, true);
+    return () => window.removeEventListener('keydown', handleRebindKey, true);
+  }, [rebindingSlot]);
+
   const handleCoinCollect = useCallback((amount: number) => {
     setCoins(prev => prev + amount);
   }, []);
@@ -563,6 +683,15 @@ const App: React.FC = () => {
     }
   };
 
+  const handleUpgradePowerUp = (type: PowerUp['type']) => {
+    const level = getUpgradeLevel(powerUpUpgrades, type);
+    const cost = getUpgradeCost(level);
+    if (cost === null || coins < cost) return;
+
+    setCoins(prev => prev - cost);
+    setPowerUpUpgrades(prev => ({ ...prev, [type]: level + 1 }));
+  };
+
   const handleEquipItem = (item: CosmeticItem) => {
     if (!item.unlocked) return;
 
@@ -581,9 +710,12 @@ const App: React.FC = () => {
     setSelectedCosmetics(prev => ({ ...prev, [type]: null }));
   };
 
-  const handleStart = () => {
+  const handleStart = () => startRun(testLevel);
+
+  // Starts a fresh run - `levelUnderTest` is the editor level when test-playing
+  const startRun = (levelUnderTest: ChallengeLevel | null) => {
     // For Challenge mode, require level selection
-    if (gameMode === 'CHALLENGE' && selectedChallengeLevel === null) {
+    if (!levelUnderTest && gameMode === 'CHALLENGE' && selectedChallengeLevel === null) {
       setShowChallengeLevels(true);
       return;
     }
@@ -594,22 +726,35 @@ const App: React.FC = () => {
     }
 
     // Initialize level progress for Challenge mode
-    if (gameMode === 'CHALLENGE' && selectedChallengeLevel !== null) {
+    if (levelUnderTest) {
+      setLevelProgress({
+        objectives: levelUnderTest.objectives.map(obj => ({ ...obj })),
+        timeElapsed: 0
+      });
+    } else if (gameMode === 'CHALLENGE' && selectedChallengeLevel !== null) {
       const objectives = initializeLevelObjectives(selectedChallengeLevel);
       setLevelProgress({
         objectives,
-        startTime: Date.now(),
         timeElapsed: 0
       });
     } else {
       setLevelProgress(null);
     }
 
+    levelProgressRef.current = null;
+    setLastLevelResult(null);
+
     // CrazyGames
     reportGameplayStart();
 
+    // Fresh seed per run (same seed = same obstacles, wind zones, coins & power-ups)
+    setRunSeed(generateSeed());
+    setActiveReplay(null);
     setGameState(GameState.PLAYING);
     setIsPaused(false);
+    setResumeCountdown(null);
+    setReviveOffer(false);
+    pendingGameOverRef.current = null;
     setScore(0);
     prevScoreRef.current = 0;
     setScorePulse(false);
@@ -618,6 +763,79 @@ const App: React.FC = () => {
     // Don't clear roast/snapshot here to allow smooth fade out of Game Over screen
   };
 
+  // Memoized to prevent GameCanvas loop restart jitter
+  const handleHealthUpdate = useCallback((hp: number, maxHp: number) => {
+    setHealth({ hp, maxHp });
+  }, []);
+
+  // Memoized to prevent GameCanvas loop restart jitter
+  const handleLevelProgressUpdate = useCallback((progress: LevelProgress | null) => {
+    levelProgressRef.current = progress;
+    setLevelProgress(progress);
+  }, []);
+
+  // Memoized to prevent GameCanvas loop restart jitter
+  const handleReplayRecorded = useCallback((replay: Replay) => {
+    lastReplayRef.current = replay;
+    setLastReplay(replay);
+  }, []);
+
+  const handleWatchReplay = (replay: Replay) => {
+    initAudio();
+    if (audioCtxRef.current?.state === 'suspended') {
+        audioCtxRef.current.resume();
+    }
+
+    setLevelProgress(null);
+    setLastLevelResult(null);
+    setRunSeed(replay.config.seed);
+    setActiveReplay(replay);
+    setGameState(GameState.PLAYING);
+    setIsPaused(false);
+    setResumeCountdown(null);
+    setReviveOffer(false);
+    pendingGameOverRef.current = null;
+    setScore(0);
+    prevScoreRef.current = 0;
+    setScorePulse(false);
+    setShowNameInput(false);
+    setScoreSubmitted(false);
+  };
+
+  const handleExportReplay = (replay: Replay) => {
+    const blob = new Blob([exportReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `stickman-glide-replay-${replay.finalDepth}m.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    const result = importReplay(await file.text());
+    if (result.success && result.replay) {
+      handleWatchReplay(result.replay);
+    } else {
+      alert(`Could not load replay: ${result.error}`);
+    }
+  };
+
+  const handleTestLevel = (level: ChallengeLevel) => {
+    setTestLevel(level);
+    setShowLevelEditor(false);
+    startRun(level);
+  };
+
+  const handleBackToEditor = () => {
+    handleGoHome();
+    setShowLevelEditor(true);
+  };
+
   const handleSelectGameMode = (mode: GameMode) => {
     setGameMode(mode);
     if (mode !== 'CHALLENGE') {
@@ -627,22 +845,105 @@ const App: React.FC = () => {
   };
 
   const handleSelectChallengeLevel = (levelId: number) => {
+    if (!isLevelUnlocked(challengeProgress, levelId)) return;
     setSelectedChallengeLevel(levelId);
     setShowChallengeLevels(false);
   };
 
   const handlePause = () => {
+    // Cancels a running countdown too
+    setResumeCountdown(null);
+    if (isPaused) return;
     setIsPaused(true);
+    reportGameplayStop();
   };
 
   const handleResume = () => {
-    setIsPaused(false);
+    if (resumeCountdown !== null) return;
+    setResumeCountdown(3);
     // Resume audio context if suspended
     if (audioCtxRef.current?.state === 'suspended') {
       audioCtxRef.current.resume();
     }
   };
 
+  // Resume countdown - the simulation stays frozen until it hits zero
+  useEffect(() => {
+    if (resumeCountdown === null) return;
+
+    if (resumeCountdown === 0) {
+      setResumeCountdown(null);
+      setIsPaused(false);
+      reportGameplayStart();
+      return;
+    }
+
+    const timer = setTimeout(() => setResumeCountdown(resumeCountdown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resumeCountdown]);
+
+  // Auto-pause when the tab is hidden or the window loses focus
+  useEffect(() => {
+    if (gameState !== GameState.PLAYING) return;
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) handlePause();
+    };
+
+    window.addEventListener('blur', handlePause);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.removeEventListener('blur', handlePause);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [gameState, isPaused]);
+
+  // Pause hotkeys: Escape / P toggle pause (resume goes through the countdown)
+  useEffect(() => {
+    if (gameState !== GameState.PLAYING) return;
+
+    const handlePauseKey = (e: KeyboardEvent) => {
+      if (e.repeat || (e.code !== 'Escape' && e.code !== 'KeyP')) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+      if (isPaused && resumeCountdown === null) {
+        handleResume();
+      } else {
+        handlePause();
+      }
+    };
+
+    window.addEventListener('keydown', handlePauseKey);
+    return () => window.removeEventListener('keydown', handlePauseKey);
+  }, [gameState, isPaused, resumeCountdown]);
+
+  // Debug panel hotkey: backquote (`) shows or hides it
+  useEffect(() => {
+    const handleDebugKey = (e: KeyboardEvent) => {
+      if (e.repeat || e.code !== 'Backquote') return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      setShowDebugPanel(prev => !prev);
+    };
+
+    window.addEventListener('keydown', handleDebugKey);
+    return () => window.removeEventListener('keydown', handleDebugKey);
+  }, []);
+
+  // Retry hotkey: R on the game over screen starts the same mode/level again
+  useEffect(() => {
+    if (gameState !== GameState.GAME_OVER || activeReplay || reviveOffer) return;
+
+    const handleRetryKey = (e: KeyboardEvent) => {
+      if (e.repeat || e.code !== 'KeyR') return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      handleStart();
+    };
+
+    window.addEventListener('keydown', handleRetryKey);
+    return () => window.removeEventListener('keydown', handleRetryKey);
+  }, [gameState, activeReplay, testLevel, reviveOffer]);
+
   // Memoized to prevent GameCanvas loop restart jitter
   const handleScoreUpdate = useCallback((newScore: number) => {
     // Dynamic Pulse on milestones (every 50m)
@@ -655,29 +956,116 @@ const App: React.FC = () => {
     setScore(newScore);
   }, []);
 
-  const handleGameOver = async (finalScore: number, cause: string, snapshot: string) => {
+  const handleGameOver = (finalScore: number, cause: string, snapshot: string, finalStylePoints: number, canContinue: boolean) => {
     setGameState(GameState.GAME_OVER);
     setCrashSnapshot(snapshot);
+    setStylePoints(finalStylePoints);
+
+    // Watching a replay doesn't count as a run
+    if (activeReplay) {
+        setShowNameInput(false);
+        setRoast(`Replay finished: ${cause}`);
+        return;
+    }
+
+    // Neither does test-playing a level from the editor
+    if (testLevel) {
+        reportGameplayStop();
+        setShowNameInput(false);
+        setRoast(`Test run: ${cause}`);
+        return;
+    }
 
     // CrazyGames
     reportGameplayStop();
-    if (finalScore > highScore) {
+
+    // Hold the result back while the player can still continue the run
+    if (canContinue) {
+        pendingGameOverRef.current = { score: finalScore, cause };
+        setShowNameInput(false);
+        setReviveOffer(true);
+        return;
+    }
+
+    finishRun(finalScore, cause);
+  };
+
+  // Rewarded ad, then the same run carries on from just before the crash
+  const handleContinue = async () => {
+    if (isAdPlaying || !pendingGameOverRef.current) return;
+
+    setIsAdPlaying(true);
+    let rewarded = false;
+    try {
+        await audioCtxRef.current?.suspend();
+        rewarded = await requestRewardedAd();
+    } catch (e) {
+        console.error('Rewarded ad failed:', e);
+    } finally {
+        setIsAdPlaying(false);
+        audioCtxRef.current?.resume().catch(e => console.error('Could not resume audio:', e));
+    }
+
+    if (!rewarded) {
+        handleDeclineContinue();
+        return;
+    }
+
+    pendingGameOverRef.current = null;
+    setReviveOffer(false);
+    setReviveCount(prev => prev + 1);
+    setGameState(GameState.PLAYING);
+    setIsPaused(true);
+    setResumeCountdown(3);
+  };
+
+  const handleDeclineContinue = () => {
+    const pending = pendingGameOverRef.current;
+    if (!pending) return;
+
+    pendingGameOverRef.current = null;
+    setReviveOffer(false);
+    finishRun(pending.score, pending.cause);
+  };
+
+  // Records a finished live run: challenge progress, personal best, leaderboard and the roast
+  const finishRun = async (finalScore: number, cause: string) => {
+    // Challenge progression: objectives met, stars and unlocks
+    const finishedLevel = gameMode === 'CHALLENGE' && selectedChallengeLevel !== null ? getLevelById(selectedChallengeLevel) : undefined;
+    if (finishedLevel && levelProgressRef.current) {
+      const run = levelProgressRef.current;
+      const result = recordLevelRun(challengeProgress, finishedLevel, run);
+      setChallengeProgress(result.progress);
+      setLastLevelResult({ stars: result.stars, cleared: result.cleared, time: run.timeElapsed, newBestTime: result.newBestTime, failure: run.failure || null });
+    }
+
+    // Lives runs are practice - no personal best or leaderboard entry
+    const isPracticeRun = gameMode === 'ENDLESS' && livesMode;
+
+    // CrazyGames
+    if (!isPracticeRun && finalScore > highScore) {
         triggerHappyTime();
     }
 
     // Personal Best Update
-    if (finalScore > highScore) {
+    if (!isPracticeRun && finalScore > highScore) {
       setHighScore(finalScore);
       localStorage.setItem('stickman_glide_highscore', finalScore.toString());
     }
 
+    // Keep the run as the ghost if it beat the one for this mode / level / difficulty
+    const replay = lastReplayRef.current;
+    if (!isPracticeRun && replay && replay.finalDepth === finalScore && saveGhostReplay(replay)) {
+      setGhostReplay(replay);
+    }
+
     // Auto-submit Global High Score
-    if (isHighScore(finalScore, leaderboard)) {
+    if (!isPracticeRun && isHighScore(finalScore, leaderboard)) {
         // If user has a name set, auto-submit
         if (playerName && playerName.trim()) {
             setSubmittingScore(true);
             const userId = getUserId();
-            const result = await submitScore(playerName, finalScore, userId);
+            const result = await submitScore(playerName, finalScore, lastReplayRef.current, userId);
             setSubmittingScore(false);
 
             if (result.success) {
@@ -710,7 +1098,7 @@ const App: React.FC = () => {
 
       setSubmittingScore(true);
       const userId = getUserId();
-      const result = await submitScore(nameToSubmit, score, userId);
+      const result = await submitScore(nameToSubmit, score, lastReplayRef.current, userId);
       setSubmittingScore(false);
 
       if (result.success) {
@@ -763,6 +1151,8 @@ const App: React.FC = () => {
 
   const handleGoHome = () => {
     setGameState(GameState.START);
+    setActiveReplay(null);
+    setTestLevel(null);
     setRoast('');
     setCrashSnapshot(null);
     setShowNameInput(false);
@@ -787,8 +1177,18 @@ const App: React.FC = () => {
         isDarkMode={isDarkMode}
         gameMode={gameMode}
         selectedChallengeLevel={selectedChallengeLevel}
-        levelProgress={levelProgress}
-        onLevelProgressUpdate={setLevelProgress}
+        customLevel={testLevel}
+        onLevelProgressUpdate={handleLevelProgressUpdate}
+        livesMode={livesMode}
+        powerUpUpgrades={powerUpUpgrades}
+        reviveCount={reviveCount}
+        onHealthUpdate={handleHealthUpdate}
+        showHitboxes={showHitboxes}
+        seed={runSeed}
+        replay={activeReplay}
+        onReplayRecorded={handleReplayRecorded}
+        ghostReplay={!testLevel && (gameMode === 'ENDLESS' || gameMode === 'CHALLENGE') ? ghostReplay : null}
+        keyBindings={keyBindings}
         playCrashSound={playCrashSound}
         playOpenSound={playOpenSound}
         playCloseSound={playCloseSound}
@@ -797,6 +1197,9 @@ const App: React.FC = () => {
       {/* HUD */}
       <div className={`absolute top-0 left-0 w-full p-3 sm:p-6 flex justify-between items-start pointer-events-none z-20 transition-opacity duration-500 ${gameState === GameState.PLAYING && !isPaused ? 'opacity-100' : 'opacity-0'}`}>
           <div className="flex flex-col gap-2 sm:gap-4">
+             {activeReplay && (
+               <div className="text-xs sm:text-sm font-black text-purple-300 tracking-widest drop-shadow-md animate-pulse">▶ REPLAY</div>
+             )}
              <div>
                <span className="text-gray-400 text-xs sm:text-sm font-bold tracking-wider shadow-black drop-shadow-sm">DEPTH</span>
                <div className={`text-2xl sm:text-4xl font-black text-white drop-shadow-md tabular-nums transition-all duration-150 ${scorePulse ? 'scale-125 text-blue-300' : 'scale-100'}`}>
@@ -809,6 +1212,22 @@ const App: React.FC = () => {
                   <span className="text-2xl sm:text-3xl">💰</span> {coins}
                </div>
              </div>
+             {health && health.maxHp > 1 && (
+               <div className="flex gap-0.5 text-xl sm:text-2xl drop-shadow-md" title={`${health.hp}/${health.maxHp} HP`}>
+                 {Array.from({ length: health.maxHp }, (_, index) => (
+                   <span key={index} className={index < health.hp ? '' : 'opacity-30 grayscale'}>❤️</span>
+                 ))}
+               </div>
+             )}
+             {levelProgress && (
+               <div className="flex flex-col gap-0.5 bg-black/40 backdrop-blur-sm rounded-lg px-2 py-1.5 border border-white/10">
+                 {levelProgress.objectives.map((obj, index) => (
+                   <div key={index} className={`text-xs sm:text-sm font-bold tabular-nums drop-shadow-md ${obj.completed ? 'text-green-400' : 'text-white'}`}>
+                     {getObjectiveHudText(obj)}
+                   </div>
+                 ))}
+               </div>
+             )}
           </div>
           <div className="flex flex-col items-end gap-2 sm:gap-3">
              <div className="flex gap-1 sm:gap-2">
@@ -865,7 +1284,8 @@ const App: React.FC = () => {
                   <span className="block text-blue-300 font-bold text-sm sm:text-base mb-1">🎮 HOW TO PLAY:</span>
                   Hold to <span className="text-blue-400 font-bold">Open Umbrella</span> (Slow)<br/>
                   Release to <span className="text-red-400 font-bold">Dive Fast</span><br/>
-                  Drag to <span className="text-purple-400 font-bold">Move Left/Right</span>
+                  Drag to <span className="text-purple-400 font-bold">Move Left/Right</span><br/>
+                  <span className="text-gray-400 text-[10px] sm:text-xs">⌨️ {formatKeyCode(keyBindings.LEFT[0])}/{formatKeyCode(keyBindings.RIGHT[0])} to steer · {formatKeyCode(keyBindings.UMBRELLA[0])} for umbrella · {formatKeyCode(keyBindings.DASH[0])} to dash · 🎮 Gamepad supported</span>
                 </p>
 
                 <div className="flex flex-col sm:flex-row gap-2 mb-2 sm:mb-4">
@@ -887,6 +1307,21 @@ const App: React.FC = () => {
                   </button>
                 </div>
 
+                {/* Load Replay */}
+                <button
+                  onClick={() => replayFileInputRef.current?.click()}
+                  className="w-full mb-2 sm:mb-3 text-xs font-bold text-purple-300 hover:text-white bg-purple-500/10 hover:bg-purple-500/20 px-3 py-2 rounded-lg border border-purple-500/30 touch-manipulation transition-all pointer-events-auto"
+                >
+                  🎬 Load Replay File
+                </button>
+                <input
+                  ref={replayFileInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={handleImportReplay}
+                  className="hidden"
+                />
+
                 {/* Stats and Player Info */}
                 <div className="bg-black/40 backdrop-blur-md rounded-xl p-2 sm:p-3 border border-white/20 mb-2 sm:mb-3">
                   <div className="flex items-center justify-between mb-2">
@@ -1038,6 +1473,19 @@ const App: React.FC = () => {
                                 😈 HARD
                             </button>
                         </div>
+                        {gameMode === 'ENDLESS' && (
+                            <button
+                                onClick={() => setLivesMode(!livesMode)}
+                                className={`w-full mt-1.5 sm:mt-2 py-1.5 px-2 sm:px-3 rounded-lg text-xs font-bold transition-all touch-manipulation ${
+                                    livesMode
+                                        ? 'bg-pink-500 text-white'
+                                        : 'bg-black/40 text-gray-400 hover:bg-black/60 border border-white/20'
+                                }`}
+                            >
+                                ❤️ Lives Mode: {livesMode ? 'ON' : 'OFF'}
+                                <span className="font-normal opacity-80"> · {ENDLESS_LIVES_HP} hearts, no leaderboard</span>
+                            </button>
+                        )}
                   </div>
                 )}
               </div>
@@ -1086,7 +1534,7 @@ const App: React.FC = () => {
           <div className="flex justify-between items-center mb-4 sm:mb-6 pb-3 sm:pb-4 border-b border-white/10">
             <div>
               <h2 className="text-2xl sm:text-3xl font-black text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-orange-500">SHOP</h2>
-              <p className="text-xs sm:text-sm text-gray-400 mt-1">Customize your stickman!</p>
+              <p className="text-xs sm:text-sm text-gray-400 mt-1">Customize your stickman and upgrade your power-ups!</p>
             </div>
             <div className="flex items-center gap-2 sm:gap-4">
               <div className="bg-black/40 px-2 sm:px-4 py-1.5 sm:py-2 rounded-full border border-yellow-400/30">
@@ -1300,6 +1748,48 @@ const App: React.FC = () => {
                 })}
               </div>
             </div>
+
+            {/* Power-Up Upgrades */}
+            <div>
+              <h3 className="text-base sm:text-xl font-bold text-emerald-300 mb-2 sm:mb-3 flex items-center gap-2">
+                <span>⚡</span> Power-Up Upgrades
+              </h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 sm:gap-3">
+                {POWER_UP_TYPES.map(type => {
+                  const definition = POWER_UP_DEFINITIONS[type];
+                  const level = getUpgradeLevel(powerUpUpgrades, type);
+                  const cost = getUpgradeCost(level);
+                  return (
+                    <div
+                      key={type}
+                      className={`bg-black/40 border-2 ${level === MAX_UPGRADE_LEVEL ? 'border-green-400' : 'border-white/20'} rounded-xl p-3 transition-all hover:scale-105`}
+                    >
+                      <div className="text-center mb-2">
+                        <span className="text-3xl">{definition.icon}</span>
+                      </div>
+                      <p className="text-sm font-bold text-white mb-1 text-center">{definition.name}</p>
+                      <p className="text-[10px] text-gray-400 mb-2 text-center">{definition.upgrade.label}</p>
+                      <div className="flex justify-center gap-1 mb-2">
+                        {Array.from({ length: MAX_UPGRADE_LEVEL }, (_, i) => (
+                          <div key={i} className="w-3 h-1.5 rounded-full" style={{ backgroundColor: i < level ? definition.color : 'rgba(255, 255, 255, 0.15)' }}></div>
+                        ))}
+                      </div>
+                      {cost === null ? (
+                        <div className="w-full py-1 text-xs text-center bg-green-500 text-white rounded font-bold">MAX</div>
+                      ) : (
+                        <button
+                          onClick={() => handleUpgradePowerUp(type)}
+                          disabled={coins < cost}
+                          className={`w-full py-1 text-xs rounded font-bold ${coins >= cost ? 'bg-yellow-500 hover:bg-yellow-400 text-black' : 'bg-gray-600 text-gray-400 cursor-not-allowed'}`}
+                        >
+                          {cost} 💰
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
           </div>
         </div>
       </div>
@@ -1323,18 +1813,25 @@ const App: React.FC = () => {
 
           {/* Levels Grid */}
           <div className="flex-1 overflow-y-auto space-y-3 pr-2">
-            {CHALLENGE_LEVELS.map(level => (
+            {CHALLENGE_LEVELS.map(level => {
+              const record = challengeProgress[level.id];
+              const isUnlocked = isLevelUnlocked(challengeProgress, level.id);
+              return (
               <button
                 key={level.id}
                 onClick={() => handleSelectChallengeLevel(level.id)}
+                disabled={!isUnlocked}
                 className={`w-full p-4 rounded-xl text-left transition-all ${
-                  selectedChallengeLevel === level.id
+                  !isUnlocked
+                    ? 'bg-black/40 border border-white/10 text-gray-500 opacity-60 cursor-not-allowed'
+                    : selectedChallengeLevel === level.id
                     ? 'bg-gradient-to-r from-yellow-500 to-orange-500 text-black scale-105 shadow-lg shadow-yellow-500/50'
                     : 'bg-black/40 hover:bg-black/60 border border-white/20 text-white hover:border-yellow-400/50'
                 }`}
               >
                 <div className="flex items-start gap-3">
                   <div className="text-3xl">{
+                    !isUnlocked ? '🔒' :
                     level.theme === 'GENTLE' ? '🌤️' :
                     level.theme === 'NIGHT' ? '🌙' :
                     level.theme === 'THUNDER' ? '⚡' :
@@ -1349,10 +1846,28 @@ const App: React.FC = () => {
                         LEVEL {level.id}
                       </span>
                       <h3 className="font-bold text-lg">{level.name}</h3>
+                      {level.duration !== undefined && (
+                        <span className={`text-xs font-bold ${selectedChallengeLevel === level.id ? 'text-black/70' : 'text-red-300'}`}>
+                          ⏰ {level.duration}s
+                        </span>
+                      )}
                     </div>
-                    <p className={`text-sm mb-3 ${selectedChallengeLevel === level.id ? 'text-black/80' : 'text-gray-400'}`}>
-                      {level.description}
+                    <p className={`text-sm mb-2 ${selectedChallengeLevel === level.id ? 'text-black/80' : 'text-gray-400'}`}>
+                      {isUnlocked ? level.description : `Clear level ${level.id - 1} to unlock`}
                     </p>
+                    <div className="flex items-center gap-3 mb-3 text-sm">
+                      <span className="tracking-widest">
+                        {[1, 2, 3].map(star => (
+                          <span key={star} className={record && star <= record.stars ? (selectedChallengeLevel === level.id ? 'text-black' : 'text-yellow-400') : 'opacity-30'}>★</span>
+                        ))}
+                      </span>
+                      <span className={`text-xs font-bold ${selectedChallengeLevel === level.id ? 'text-black/70' : 'text-gray-400'}`}>
+                        {record?.bestTime != null ? `Best ${formatLevelTime(record.bestTime)}` : 'Not cleared'} · Par {formatLevelTime(level.parTime)}
+                      </span>
+                      {level.maxHp && level.maxHp > 1 && (
+                        <span className="text-xs font-bold">❤️×{level.maxHp}</span>
+                      )}
+                    </div>
                     <div className="space-y-1">
                       <div className={`text-xs font-bold uppercase tracking-wider mb-1 ${
                         selectedChallengeLevel === level.id ? 'text-black/70' : 'text-gray-500'
@@ -1363,7 +1878,7 @@ const App: React.FC = () => {
                         <div key={idx} className={`text-xs flex items-start gap-2 ${
                           selectedChallengeLevel === level.id ? 'text-black/90' : 'text-gray-300'
                         }`}>
-                          <span>•</span>
+                          <span>{record?.completedObjectives.includes(idx) ? '✓' : '•'}</span>
                           <span>{obj.description}</span>
                         </div>
                       ))}
@@ -1374,14 +1889,26 @@ const App: React.FC = () => {
                   )}
                 </div>
               </button>
-            ))}
+              );
+            })}
           </div>
 
           {/* Footer */}
           <div className="mt-4 pt-4 border-t border-white/10 flex justify-between items-center">
-            <p className="text-xs text-gray-400">
-              {selectedChallengeLevel ? 'Level selected! Click START to begin' : 'Select a level to continue'}
-            </p>
+            <div className="flex items-center gap-3">
+              <p className="text-xs text-gray-400">
+                {selectedChallengeLevel ? 'Level selected! Click START to begin' : 'Select a level to continue'}
+              </p>
+              <button
+                onClick={() => {
+                  setShowChallengeLevels(false);
+                  setShowLevelEditor(true);
+                }}
+                className="px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 text-xs font-bold"
+              >
+                ✏️ Level Editor
+              </button>
+            </div>
             <button
               onClick={() => {
                 setShowChallengeLevels(false);
@@ -1402,14 +1929,77 @@ const App: React.FC = () => {
         </div>
       </div>
 
+      {/* Level Editor */}
+      {showLevelEditor && gameState === GameState.START && (
+        <LevelEditor
+          level={editorLevel}
+          onChange={setEditorLevel}
+          onTestPlay={handleTestLevel}
+          onClose={() => setShowLevelEditor(false)}
+        />
+      )}
+
       {/* Game Over Screen */}
       <div className={`absolute inset-0 flex items-center justify-center bg-red-900/90 backdrop-blur-md z-40 transition-all duration-700 ${gameState === GameState.GAME_OVER ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}>
           <div className="bg-black/50 p-4 sm:p-6 rounded-2xl sm:rounded-3xl border border-white/10 shadow-2xl max-w-sm w-full mx-3 sm:mx-4 text-center relative overflow-hidden max-h-[95vh] overflow-y-auto scrollbar-hide">
 
-            <h2 className="text-3xl sm:text-4xl font-black text-white mb-1 uppercase tracking-widest">Wasted</h2>
+            <h2 className="text-3xl sm:text-4xl font-black text-white mb-1 uppercase tracking-widest">{activeReplay ? 'Replay' : lastLevelResult?.cleared ? 'Cleared' : lastLevelResult?.failure ? 'Failed' : 'Wasted'}</h2>
             <div className="text-4xl sm:text-5xl font-black text-yellow-400 mb-3 sm:mb-4 tracking-tighter drop-shadow-lg">
               {score}m
             </div>
+            {stylePoints > 0 && (
+                <div className="-mt-2 mb-3 sm:mb-4 text-sm sm:text-base font-bold text-fuchsia-300 tracking-wide">
+                    ✨ {stylePoints} style points
+                </div>
+            )}
+
+            {/* Continue Offer */}
+            {reviveOffer && (
+                <div className="mb-4 bg-yellow-500/15 p-4 rounded-xl border border-yellow-400/40">
+                    <p className="text-yellow-300 text-sm font-black uppercase tracking-widest mb-1">Continue?</p>
+                    <p className="text-gray-300 text-xs mb-3">Pick up right where you crashed - once per run</p>
+                    <button
+                       onClick={handleContinue}
+                       disabled={isAdPlaying}
+                       className="w-full py-3 mb-2 bg-yellow-400 hover:bg-yellow-300 disabled:opacity-60 disabled:cursor-wait text-black rounded-xl font-bold text-sm transition-colors"
+                    >
+                        {isAdPlaying ? 'Ad playing…' : '📺 Watch ad to continue'}
+                    </button>
+                    <button
+                       onClick={handleDeclineContinue}
+                       disabled={isAdPlaying}
+                       className="w-full py-2 text-gray-400 hover:text-white disabled:opacity-50 text-xs font-bold transition-colors"
+                    >
+                        No thanks
+                    </button>
+                </div>
+            )}
+
+            {/* Challenge Result */}
+            {lastLevelResult && (
+                <div className="mb-4 bg-white/5 rounded-xl p-3 border border-white/10">
+                    <div className="text-3xl tracking-widest">
+                        {[1, 2, 3].map(star => (
+                            <span key={star} className={star <= lastLevelResult.stars ? 'text-yellow-400' : 'text-gray-600'}>★</span>
+                        ))}
+                    </div>
+                    <div className="text-xs text-gray-300 mt-1">
+                        {lastLevelResult.cleared ? `Time ${formatLevelTime(lastLevelResult.time)}` : 'Level not cleared'}
+                        {lastLevelResult.newBestTime && <span className="ml-2 text-green-400 font-bold">NEW BEST!</span>}
+                    </div>
+                    {lastLevelResult.failure && (
+                        <div className="text-sm text-red-300 font-bold mt-2">{lastLevelResult.failure.cause}</div>
+                    )}
+                    {!lastLevelResult.cleared && (
+                        <button
+                           onClick={handleStart}
+                           className="w-full mt-3 py-2.5 bg-white text-black rounded-xl font-bold text-sm hover:bg-gray-200 transition-colors"
+                        >
+                            🔄 Retry Level <span className="text-gray-500 text-xs">(R)</span>
+                        </button>
+                    )}
+                </div>
+            )}
 
             {/* High Score Input */}
             {showNameInput && !scoreSubmitted && (
@@ -1460,80 +2050,113 @@ const App: React.FC = () => {
                 </div>
             )}
             
-            {/* Roast Box */}
-            <div className="bg-white/10 rounded-xl p-3 mb-4 min-h-[60px] flex items-center justify-center border border-white/5">
-              {loadingRoast ? (
-                 <div className="animate-pulse flex space-x-1">
-                    <div className="h-1.5 w-1.5 bg-blue-300 rounded-full"></div>
-                    <div className="h-1.5 w-1.5 bg-blue-300 rounded-full"></div>
-                    <div className="h-1.5 w-1.5 bg-blue-300 rounded-full"></div>
-                 </div>
-              ) : (
-                <p className="text-blue-200 italic text-sm font-medium leading-snug">
-                  "{roast}"
-                </p>
-              )}
-            </div>
+            {/* Run summary - held back while the continue is on offer */}
+            {!reviveOffer && (
+              <>
+                {/* Roast Box */}
+                <div className="bg-white/10 rounded-xl p-3 mb-4 min-h-[60px] flex items-center justify-center border border-white/5">
+                  {loadingRoast ? (
+                     <div className="animate-pulse flex space-x-1">
+                        <div className="h-1.5 w-1.5 bg-blue-300 rounded-full"></div>
+                        <div className="h-1.5 w-1.5 bg-blue-300 rounded-full"></div>
+                        <div className="h-1.5 w-1.5 bg-blue-300 rounded-full"></div>
+                     </div>
+                  ) : (
+                    <p className="text-blue-200 italic text-sm font-medium leading-snug">
+                      "{roast}"
+                    </p>
+                  )}
+                </div>
 
-            {/* Player Name Display - Game Over Screen */}
-            <div className="mb-4 bg-white/5 rounded-xl p-3 border border-white/10">
-              <div className="flex flex-col items-center gap-2">
-                <div className="text-center">
-                  <div className="text-xs text-gray-400 mb-1">Your Unique Name</div>
-                  <div className="text-sm font-bold text-blue-300 bg-black/40 px-3 py-1.5 rounded border border-blue-400/30">
-                    {playerName}
+                {/* Player Name Display - Game Over Screen */}
+                <div className="mb-4 bg-white/5 rounded-xl p-3 border border-white/10">
+                  <div className="flex flex-col items-center gap-2">
+                    <div className="text-center">
+                      <div className="text-xs text-gray-400 mb-1">Your Unique Name</div>
+                      <div className="text-sm font-bold text-blue-300 bg-black/40 px-3 py-1.5 rounded border border-blue-400/30">
+                        {playerName}
+                      </div>
+                    </div>
+                    <button
+                      onClick={handleRegenerateName}
+                      className="text-xs font-bold text-yellow-300 hover:text-yellow-100 underline decoration-yellow-500/50 underline-offset-4 flex items-center gap-1"
+                    >
+                      <span>🎲</span>
+                      <span>Generate New Name</span>
+                    </button>
                   </div>
                 </div>
-                <button
-                  onClick={handleRegenerateName}
-                  className="text-xs font-bold text-yellow-300 hover:text-yellow-100 underline decoration-yellow-500/50 underline-offset-4 flex items-center gap-1"
-                >
-                  <span>🎲</span>
-                  <span>Generate New Name</span>
-                </button>
-              </div>
-            </div>
 
-            {/* Action Buttons */}
-            <div className="grid grid-cols-2 gap-3 mb-4">
-                <a 
-                   href={twitterUrl}
-                   target="_blank"
-                   rel="noopener noreferrer"
-                   className="flex items-center justify-center py-3 bg-[#1DA1F2] hover:bg-[#1a91da] rounded-xl font-bold text-sm transition-colors"
-                >
-                    Share on X
-                </a>
-                <button 
-                   onClick={handleShare}
-                   className="flex items-center justify-center py-3 bg-gray-700 hover:bg-gray-600 rounded-xl font-bold text-sm transition-colors"
-                >
-                    Share / Copy
-                </button>
-            </div>
+                {/* Action Buttons */}
+                <div className="grid grid-cols-2 gap-3 mb-4">
+                    <a 
+                       href={twitterUrl}
+                       target="_blank"
+                       rel="noopener noreferrer"
+                       className="flex items-center justify-center py-3 bg-[#1DA1F2] hover:bg-[#1a91da] rounded-xl font-bold text-sm transition-colors"
+                    >
+                        Share on X
+                    </a>
+                    <button 
+                       onClick={handleShare}
+                       className="flex items-center justify-center py-3 bg-gray-700 hover:bg-gray-600 rounded-xl font-bold text-sm transition-colors"
+                    >
+                        Share / Copy
+                    </button>
+                </div>
 
-            <div className="grid grid-cols-2 gap-3">
-              <button
-                onClick={handleGoHome}
-                className="py-4 bg-gray-700 hover:bg-gray-600 text-white font-bold text-lg rounded-xl hover:scale-[1.02] transition-all"
-              >
-                Go Home
-              </button>
-              <button
-                onClick={handleStart}
-                className="py-4 bg-white text-black font-bold text-lg rounded-xl hover:bg-gray-200 hover:scale-[1.02] transition-all shadow-lg shadow-white/10"
-              >
-                Restart
-              </button>
-            </div>
+                {/* Replay Buttons */}
+                {(activeReplay || lastReplay) && (
+                    <div className="grid grid-cols-2 gap-3 mb-4">
+                        <button
+                           onClick={() => handleWatchReplay((activeReplay || lastReplay)!)}
+                           className="flex items-center justify-center py-3 bg-purple-600 hover:bg-purple-500 rounded-xl font-bold text-sm transition-colors"
+                        >
+                            🎬 Watch Replay
+                        </button>
+                        <button
+                           onClick={() => handleExportReplay((activeReplay || lastReplay)!)}
+                           className="flex items-center justify-center py-3 bg-gray-700 hover:bg-gray-600 rounded-xl font-bold text-sm transition-colors"
+                        >
+                            💾 Export Replay
+                        </button>
+                    </div>
+                )}
+
+                {testLevel && (
+                    <button
+                       onClick={handleBackToEditor}
+                       className="w-full mb-3 py-3 bg-yellow-500 hover:bg-yellow-400 text-black rounded-xl font-bold text-sm transition-colors"
+                    >
+                        ✏️ Back to Editor
+                    </button>
+                )}
+
+                <div className="grid grid-cols-2 gap-3">
+                  <button
+                    onClick={handleGoHome}
+                    className="py-4 bg-gray-700 hover:bg-gray-600 text-white font-bold text-lg rounded-xl hover:scale-[1.02] transition-all"
+                  >
+                    Go Home
+                  </button>
+                  <button
+                    onClick={handleStart}
+                    className="py-4 bg-white text-black font-bold text-lg rounded-xl hover:bg-gray-200 hover:scale-[1.02] transition-all shadow-lg shadow-white/10"
+                  >
+                    Restart
+                  </button>
+                </div>
+              </>
+            )}
           </div>
       </div>
 
       {/* Pause Screen */}
-      <div className={`absolute inset-0 flex items-center justify-center bg-black/70 backdrop-blur-md z-40 transition-all duration-300 ${gameState === GameState.PLAYING && isPaused ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}>
+      <div className={`absolute inset-0 flex items-center justify-center bg-black/70 backdrop-blur-md z-40 transition-all duration-300 ${gameState === GameState.PLAYING && isPaused && resumeCountdown === null ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}>
           <div className="bg-gradient-to-br from-gray-900 to-gray-800 p-4 sm:p-8 rounded-2xl sm:rounded-3xl border-2 border-blue-400/30 shadow-2xl max-w-md w-full mx-3 sm:mx-4 text-center">
             <h2 className="text-3xl sm:text-5xl font-black text-white mb-2 uppercase tracking-widest">Paused</h2>
-            <div className="text-5xl sm:text-6xl mb-4 sm:mb-6">⏸️</div>
+            <div className="text-5xl sm:text-6xl mb-2">⏸️</div>
+            <p className="text-gray-400 text-[10px] sm:text-xs mb-4 sm:mb-6">Press Esc or P to resume</p>
 
             <div className="bg-white/5 rounded-xl p-3 sm:p-4 mb-4 sm:mb-6 border border-white/10">
               <div className="flex justify-between items-center mb-2">
@@ -1568,6 +2191,15 @@ const App: React.FC = () => {
                 🔄 Restart
               </button>
 
+              {testLevel && (
+                <button
+                  onClick={handleBackToEditor}
+                  className="w-full py-2.5 sm:py-3 bg-yellow-500 hover:bg-yellow-400 text-black font-bold text-sm sm:text-base rounded-xl hover:scale-[1.02] transition-all touch-manipulation"
+                >
+                  ✏️ Back to Editor
+                </button>
+              )}
+
               <button
                 onClick={handleGoHome}
                 className="w-full py-2.5 sm:py-3 bg-gray-800 hover:bg-gray-700 text-white font-bold text-sm sm:text-base rounded-xl hover:scale-[1.02] transition-all border border-white/10 touch-manipulation"
@@ -1578,6 +2210,15 @@ const App: React.FC = () => {
           </div>
       </div>
 
+      {/* Resume Countdown */}
+      {gameState === GameState.PLAYING && resumeCountdown !== null && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/30 z-40 pointer-events-none">
+          <div key={resumeCountdown} className="text-8xl sm:text-9xl font-black text-white drop-shadow-2xl animate-pulse">
+            {resumeCountdown}
+          </div>
+        </div>
+      )}
+
       {/* Tutorial / Controls Hint */}
       <div className={`absolute bottom-10 left-0 w-full text-center pointer-events-none z-20 transition-opacity duration-500 ${gameState === GameState.PLAYING && !isPaused && score < 50 ? 'opacity-100' : 'opacity-0'}`}>
          <div className="animate-bounce px-4">
@@ -1673,13 +2314,46 @@ const App: React.FC = () => {
                 <span className="text-[10px] opacity-75">Click to Switch</span>
               </button>
             </div>
+
+            {/* Key Bindings */}
+            <div className="border-t border-white/10 pt-3 mt-3">
+              <div className="font-bold mb-2 flex items-center justify-between">
+                <span>🎮 Controls</span>
+                <button
+                  onClick={() => setKeyBindings(DEFAULT_KEY_BINDINGS)}
+                  className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-[10px]"
+                >
+                  Reset
+                </button>
+              </div>
+              {(Object.keys(INPUT_ACTION_LABELS) as InputAction[]).map(action => (
+                <div key={action} className="flex items-center justify-between mb-1.5">
+                  <span>{INPUT_ACTION_LABELS[action]}</span>
+                  <div className="flex gap-1">
+                    {[0, 1].map(index => {
+                      const isListening = rebindingSlot?.action === action && rebindingSlot.index === index;
+                      return (
+                        <button
+                          key={index}
+                          onClick={() => setRebindingSlot({ action, index })}
+                          className={`min-w-[48px] px-2 py-1 rounded font-mono text-[10px] border ${isListening ? 'bg-yellow-500 text-black border-yellow-300 animate-pulse' : 'bg-black/40 border-white/20 hover:border-blue-400'}`}
+                        >
+                          {isListening ? 'Press…' : formatKeyCode(keyBindings[action][index] || '')}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+              <p className="text-[10px] text-gray-400 mt-2">Gamepad: left stick steers, either trigger opens the umbrella, A dashes.</p>
+            </div>
           </div>
         )}
         <button
           onClick={() => setShowVolumeControls(!showVolumeControls)}
           className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-2 rounded-lg text-xs flex items-center gap-2"
         >
-          {showVolumeControls ? '🔽' : '🎵'} {showVolumeControls ? 'Hide' : 'Volume'}
+          {showVolumeControls ? '🔽' : '⚙️'} {showVolumeControls ? 'Hide' : 'Settings'}
         </button>
       </div>
 
@@ -1704,6 +2378,12 @@ const App: React.FC = () => {
             >
               Test SDK
             </button>
+            <button
+              onClick={() => setShowHitboxes(!showHitboxes)}
+              className={`mt-2 px-2 py-1 rounded text-xs w-full ${showHitboxes ? 'bg-pink-500 hover:bg-pink-600' : 'bg-gray-600 hover:bg-gray-500'}`}
+            >
+              Hitboxes: {showHitboxes ? 'ON' : 'OFF'}
+            </button>
           </div>
         )}
       
@@ -1,20 +1,38 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { GameState, Obstacle, Particle, BackgroundElement, WindZone, PowerUp, ActivePowerUp, Coin, PlayerCosmetics, GameMode, LevelProgress } from '../types';
-import { CHALLENGE_LEVELS } from '../services/challengeLevels';
+import React, { useRef, useEffect, useCallback } from 'react';
+import { GameState, Particle, BackgroundElement, PlayerCosmetics, GameMode, LevelProgress, DifficultyMode, SimulationConfig, SimulationInput, WorldState, PlayerState, Replay, KeyBindings, LevelTheme, ChallengeLevel, LevelFailReason, PowerUpUpgrades } from '../types';
+import { createSeededRandom } from '../services/random';
+import { GlideSimulation, createPlayerState, getMaxHp, getWindZonePhase, LIGHTNING_AFTERGLOW_TICKS, LIGHTNING_WARNING_TICKS, TICKS_PER_SECOND, WORLD_SCROLL_FACTOR } from '../services/glideSimulation';
+import { applyInputSources, isBoundKey, RawInputState } from '../services/inputController';
+import { applyRecordedRevive, createReplayRecorder, createReplayPlayer, createReplaySimulation, quantizeInput, ReplayRecorder, ReplayPlayer } from '../services/replayService';
+import { getLevelById } from '../services/challengeLevels';
+import { DEFAULT_OBSTACLE_SPRITES, THEME_DEFINITIONS } from '../services/levelThemes';
+import { BodyPartName, CollisionShape, getObstacleShapes, getPlayerShapes } from '../services/collision';
+import { getPowerUpModifiers, POWER_UP_DEFINITIONS } from '../services/powerUps';
+import { STYLE_TRICKS } from '../services/styleScoring';
 
 interface GameCanvasProps {
   gameState: GameState;
   isPaused: boolean;
   onScoreUpdate: (score: number) => void;
-  onGameOver: (score: number, cause: string, snapshot: string) => void;
+  onGameOver: (score: number, cause: string, snapshot: string, stylePoints: number, canContinue: boolean) => void;
   onCoinCollect?: (amount: number) => void;
   playerCosmetics: PlayerCosmetics;
-  difficultyMode: 'EASY' | 'MEDIUM' | 'HARD';
+  difficultyMode: DifficultyMode;
   isDarkMode: boolean;
   gameMode: GameMode;
   selectedChallengeLevel: number | null;
-  levelProgress: LevelProgress | null;
+  customLevel?: ChallengeLevel | null; // Level under test from the editor (overrides game mode and level selection)
   onLevelProgressUpdate: (progress: LevelProgress | null) => void;
+  livesMode?: boolean; // ENDLESS only: a few hearts instead of one-hit death
+  powerUpUpgrades?: PowerUpUpgrades; // Shop levels for new runs
+  reviveCount?: number; // Bumped to continue the crashed run instead of starting a new one
+  onHealthUpdate?: (hp: number, maxHp: number) => void; // Fired when a run starts and when a hit costs a heart
+  showHitboxes?: boolean; // Debug overlay: outline the collision shapes
+  seed: number; // Seeds every spawner so the same seed replays the same world
+  replay?: Replay | null; // When set, the run plays back this recording instead of listening to input
+  onReplayRecorded?: (replay: Replay) => void;
+  ghostReplay?: Replay | null; // Personal-best run raced as a translucent ghost
+  keyBindings: KeyBindings;
   playCrashSound?: () => void;
   playOpenSound?: () => void;
   playCloseSound?: () => void;
@@ -24,12 +42,58 @@ interface GameCanvasProps {
 const REFERENCE_WIDTH = 1920;
 const REFERENCE_HEIGHT = 1080;
 
-// MASSIVELY REDUCED for 3x slower gameplay - scaled to screen size
-const BASE_GRAVITY = 0.18; // Was 0.5, now ~3x slower
-const BASE_GLIDE_GRAVITY = 0.06; // Was 0.15, now ~3x slower
-const BASE_TERMINAL_VELOCITY = 6; // Was 15, now ~3x slower
-const BASE_GLIDE_TERMINAL_VELOCITY = 1.5; // Was 3, now 2x slower
-const WORLD_SPEED_MULTIPLIER_MAX = 2.0; // At max difficulty, world is 2x faster
+// Fixed timestep - simulation always advances in 60Hz ticks regardless of monitor refresh rate
+const FIXED_STEP_MS = 1000 / TICKS_PER_SECOND;
+
+// Banner stamped onto the game over snapshot when a challenge is lost
+// Debug overlay colours per stickman part
+const BODY_PART_COLORS: Record<BodyPartName, string> = { HEAD: '#22d3ee', TORSO: '#4ade80', CANOPY: '#e879f9' };
+
+// Outline a collision shape (debug overlay)
+const strokeCollisionShape = (ctx: CanvasRenderingContext2D, shape: CollisionShape) => {
+  ctx.beginPath();
+  if (shape.kind === 'CIRCLE') {
+    ctx.arc(shape.x, shape.y, shape.radius, 0, Math.PI * 2);
+  } else if (shape.kind === 'CAPSULE') {
+    const angle = Math.atan2(shape.b.y - shape.a.y, shape.b.x - shape.a.x);
+    ctx.arc(shape.b.x, shape.b.y, shape.radius, angle - Math.PI / 2, angle + Math.PI / 2);
+    ctx.arc(shape.a.x, shape.a.y, shape.radius, angle + Math.PI / 2, angle + Math.PI * 1.5);
+    ctx.closePath();
+  } else {
+    shape.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.closePath();
+  }
+  ctx.stroke();
+};
+
+const FAILURE_SNAPSHOT_LABELS: Record<LevelFailReason, { text: string; color: string }> = {
+  TIME_EXPIRED: { text: "⏰ TIME'S UP", color: 'rgba(234, 88, 12, 0.85)' },
+  DAMAGE_TAKEN: { text: '💥 NO-DAMAGE BROKEN', color: 'rgba(220, 38, 38, 0.85)' },
+  COINS_UNREACHABLE: { text: '💰 GOAL OUT OF REACH', color: 'rgba(202, 138, 4, 0.85)' }
+};
+
+// Copy of the current frame with a failure banner across the middle
+const captureFailureSnapshot = (canvas: HTMLCanvasElement, reason: LevelFailReason): string => {
+  const snapshot = document.createElement('canvas');
+  snapshot.width = canvas.width;
+  snapshot.height = canvas.height;
+  const ctx = snapshot.getContext('2d');
+  if (!ctx) return canvas.toDataURL('image/jpeg', 0.5);
+
+  const label = FAILURE_SNAPSHOT_LABELS[reason];
+  const bannerHeight = snapshot.height * 0.18;
+  ctx.drawImage(canvas, 0, 0);
+  ctx.fillStyle = label.color;
+  ctx.fillRect(0, (snapshot.height - bannerHeight) / 2, snapshot.width, bannerHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `900 ${Math.round(bannerHeight * 0.45)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label.text, snapshot.width / 2, snapshot.height / 2);
+  return snapshot.toDataURL('image/jpeg', 0.5);
+};
+
+const MAX_FRAME_MS = 250; // Clamp long frames (tab switch, debugger) to avoid a catch-up spiral
 
 const GameCanvas: React.FC<GameCanvasProps> = ({
   gameState,
@@ -42,67 +106,114 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
   isDarkMode,
   gameMode,
   selectedChallengeLevel,
-  levelProgress,
+  customLevel,
   onLevelProgressUpdate,
+  livesMode = false,
+  powerUpUpgrades = {},
+  reviveCount = 0,
+  onHealthUpdate,
+  showHitboxes = false,
+  seed,
+  replay,
+  onReplayRecorded,
+  ghostReplay,
+  keyBindings,
   playCrashSound,
   playOpenSound,
   playCloseSound
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
-  const scoreRef = useRef<number>(0);
   const shakeRef = useRef<number>(0); // Screen shake magnitude
   const lightningRef = useRef<number>(0); // Lightning flash intensity (0-1)
+  const levelMessageRef = useRef<{ text: string; framesLeft: number } | null>(null); // Scripted level banner
+  const stylePopupsRef = useRef<{ text: string; x: number; y: number; framesLeft: number }[]>([]); // Floating style trick scores
   const prevGameStateRef = useRef<GameState>(gameState);
-  
-  // Game State Refs (for performance in loop)
-  const playerRef = useRef({
-    x: 0,
-    y: 0,
-    vx: 0,
-    vy: 0,
-    isUmbrellaOpen: false,
-    umbrellaAnim: 0, // 0 = closed, 1 = open
-    angle: 0,
-    targetX: 0,
-    // Animation states
-    isDancing: false,
-    danceTimer: 0,
-    isSpinning: false,
-    spinRotation: 0,
-    umbrellaIsBroken: false,
-    brokenTimer: 0,
-    // Umbrella bounce effect
-    umbrellaBounce: 1.0,
-    bounceTimer: 0
-  });
-  
-  const windGustRef = useRef({
-    active: false,
-    vx: 0,
-    vy: 0,
-    timeLeft: 0
-  });
-
-  const activeWindRef = useRef({ x: 0, y: 0 }); // Tracks current net wind force for UI
-
-  const obstaclesRef = useRef<Obstacle[]>([]);
+  const prevSeedRef = useRef<number>(seed);
+  const prevReviveCountRef = useRef<number>(reviveCount);
+  const prevGhostReplayRef = useRef<Replay | null>(ghostReplay);
+
+  // Game rules live in the headless simulation - this component only feeds input and renders
+  const simRef = useRef<GlideSimulation | null>(null);
+  const inputRef = useRef<SimulationInput>({ isUmbrellaOpen: false, targetX: 0 });
+  const rawInputRef = useRef<RawInputState>({ pointerDown: false, keysDown: new Set(), dashHeld: false }); // Held buttons/keys from the listeners
+  const menuPlayerRef = useRef(createPlayerState(0, 0)); // Hovering stickman on the start screen
+  const recorderRef = useRef<ReplayRecorder | null>(null); // Records live runs
+  const replayPlayerRef = useRef<ReplayPlayer | null>(null); // Feeds input during replay playback
+  const ghostSimRef = useRef<GlideSimulation | null>(null); // Personal-best run, stepped in lockstep
+  const ghostPlayerRef = useRef<ReplayPlayer | null>(null);
+  const prevGhostPosRef = useRef({ x: 0, y: 0 });
+
+  // Render-only state (does not affect gameplay)
   const particlesRef = useRef<Particle[]>([]);
   const bgElementsRef = useRef<BackgroundElement[]>([]);
-  const windZonesRef = useRef<WindZone[]>([]);
-  const powerUpsRef = useRef<PowerUp[]>([]);
-  const activePowerUpsRef = useRef<ActivePowerUp[]>([]);
-  const coinsRef = useRef<Coin[]>([]);
-  const frameCountRef = useRef(0);
-  const lastUmbrellaState = useRef(false);
+  const sceneryRngRef = useRef(createSeededRandom(seed)); // Background is seeded separately from the world
+  const frameCountRef = useRef(0); // Counts simulation ticks, not rendered frames
+
+  // Fixed timestep bookkeeping
+  const lastFrameTimeRef = useRef<number | null>(null);
+  const accumulatorRef = useRef(0);
+  const prevPlayerPosRef = useRef({ x: 0, y: 0 }); // Player position before the latest tick (for interpolation)
+
+  // Maps the simulation world onto the canvas (identity unless the window was resized mid-run)
+  const getWorldFit = (canvas: HTMLCanvasElement) => {
+    const sim = simRef.current;
+    if (!sim) return { scale: 1, offsetX: 0, offsetY: 0 };
+    const scale = Math.min(canvas.width / sim.config.width, canvas.height / sim.config.height);
+    return {
+      scale,
+      offsetX: (canvas.width - sim.config.width * scale) / 2,
+      offsetY: (canvas.height - sim.config.height * scale) / 2
+    };
+  };
+
+  // Race a stored run, caught up to `tick` when it shows up after the run started
+  const startGhost = (ghost: Replay, tick: number) => {
+    const ghostSim = createReplaySimulation(ghost);
+    const ghostPlayer = createReplayPlayer(ghost);
+    while ((!ghostSim.getState().isOver || applyRecordedRevive(ghostSim, ghost)) && ghostSim.getState().tick < tick) {
+      ghostSim.step(ghostPlayer.inputAt(ghostSim.getState().tick));
+    }
+    ghostSimRef.current = ghostSim;
+    ghostPlayerRef.current = ghostPlayer;
+    const { x, y } = ghostSim.getState().player;
+    prevGhostPosRef.current = { x, y };
+  };
+
+  // World scroll so far, between the last two ticks
+  const getScrollAt = (state: WorldState, alpha: number) =>
+    state.totalScroll - state.distanceTraveled * WORLD_SCROLL_FACTOR * (1 - alpha);
+
+  // Places the ghost relative to the player: its own x, offset vertically by how much further it has fallen
+  const getGhostScreenPos = (ghostSim: GlideSimulation, world: WorldState, alpha: number) => {
+    const sim = simRef.current;
+    const ghost = ghostSim.getState();
+    const prev = prevGhostPosRef.current;
+    const scaleX = sim ? sim.config.width / ghostSim.config.width : 1;
+    const scaleY = sim ? sim.config.height / ghostSim.config.height : 1;
+    const worldHeight = sim ? sim.config.height : ghostSim.config.height;
+
+    const x = (prev.x + (ghost.player.x - prev.x) * alpha) * scaleX;
+    const y = (prev.y + (ghost.player.y - prev.y) * alpha + getScrollAt(ghost, alpha)) * scaleY - getScrollAt(world, alpha);
+    // Keep it peeking in from the edge when it's far ahead/behind
+    return { x, y: Math.min(Math.max(y, 60), worldHeight - 20) };
+  };
+
+  // Theme of the challenge level being played (null outside Challenge Mode)
+  const getLevelTheme = (): LevelTheme | null => {
+    const level = simRef.current ? simRef.current.config.level : null;
+    return level ? level.theme : null;
+  };
 
   // Helper to spawn background elements (Parallax)
   const spawnBgElement = (y: number, canvasWidth: number) => {
-    const depth = scoreRef.current / 10;
+    const rng = sceneryRngRef.current;
+    const depth = (simRef.current ? simRef.current.getState().score : 0) / 10;
+    const theme = getLevelTheme();
     let type: 'STAR' | 'CLOUD_BG' = 'CLOUD_BG';
 
-    // Dark mode: spawn more stars for starry night effect
-    if (isDarkMode) {
+    // Dark mode and starfield themes: spawn more stars for starry night effect
+    if (isDarkMode || (theme && THEME_DEFINITIONS[theme].starfield)) {
       type = 'STAR'; // Always stars in dark mode
     } else {
       // Day mode: Probabilities based on depth
@@ -110,150 +221,36 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         type = 'STAR';
       } else if (depth > 1000) {
         // Transition zone
-        type = Math.random() > 0.5 ? 'STAR' : 'CLOUD_BG';
+        type = rng.next() > 0.5 ? 'STAR' : 'CLOUD_BG';
       }
       // Deep space override
       if (depth > 4000) type = 'STAR';
     }
 
-    const id = Math.random().toString(36).substr(2, 9);
-    const x = Math.random() * canvasWidth;
+    const id = rng.id();
+    const x = rng.next() * canvasWidth;
     
     if (type === 'STAR') {
         bgElementsRef.current.push({
             id, x, y,
-            size: Math.random() * 2 + 1,
-            speedFactor: 0.05 + Math.random() * 0.1, // Very slow parallax for distant stars
+            size: rng.next() * 2 + 1,
+            speedFactor: 0.05 + rng.next() * 0.1, // Very slow parallax for distant stars
             type,
-            opacity: Math.random() * 0.7 + 0.3,
+            opacity: rng.next() * 0.7 + 0.3,
             driftX: 0
         });
     } else {
         bgElementsRef.current.push({
             id, x, y,
-            size: 20 + Math.random() * 60,
-            speedFactor: 0.2 + Math.random() * 0.3, // Slower than foreground, faster than stars
+            size: 20 + rng.next() * 60,
+            speedFactor: 0.2 + rng.next() * 0.3, // Slower than foreground, faster than stars
             type,
-            opacity: 0.05 + Math.random() * 0.15, // Very subtle background clouds
-            driftX: (Math.random() - 0.5) * 0.5
+            opacity: 0.05 + rng.next() * 0.15, // Very subtle background clouds
+            driftX: (rng.next() - 0.5) * 0.5
         });
     }
   };
 
-  // Helper to spawn Wind Zones
-  const spawnWindZone = (canvasWidth: number, canvasHeight: number, difficulty: number) => {
-      const id = Math.random().toString(36).substr(2, 9);
-      // Wind zones are large areas
-      const width = 200 + Math.random() * 300;
-      const height = 300 + Math.random() * 400;
-      const x = Math.random() * (canvasWidth - width);
-      const y = canvasHeight + 100;
-
-      // Determine type of wind
-      const typeRoll = Math.random();
-      let vx = 0, vy = 0;
-
-      // Scale wind force with difficulty - NERFED: 1.3x max instead of 2.5x
-      const forceMult = 1 + (difficulty * 0.3); // Up to 1.3x stronger at max difficulty
-
-      if (typeRoll < 0.4) {
-          // Horizontal Crosswind (Left or Right) - REDUCED base force
-          vx = (Math.random() > 0.5 ? 1 : -1) * (1.5 + Math.random() * 2) * forceMult;
-      } else if (typeRoll < 0.7) {
-          // Updraft (Slows fall / Lifts up) - REDUCED strength
-          // Negative VY pushes player up
-          vy = - (0.3 + Math.random() * 0.5) * forceMult;
-      } else {
-          // Downdraft (Speeds fall) - REDUCED strength
-          // Positive VY pushes player down
-          vy = (0.3 + Math.random() * 0.4) * forceMult;
-      }
-
-      windZonesRef.current.push({ id, x, y, width, height, vx, vy });
-  };
-
-  // Helper to spawn obstacles - SCALED TO SCREEN SIZE
-  const spawnObstacle = (canvasWidth: number, canvasHeight: number, difficulty: number, scale: number) => {
-    const typeRoll = Math.random();
-    let type: Obstacle['type'] = 'CLOUD';
-    // Base sizes at reference resolution (1920x1080), then scale to actual screen
-    let width = 350 * scale; // GIANT - scales with screen size
-    let height = 200 * scale; // GIANT - scales with screen size
-    let y = canvasHeight + 100 * scale;
-    let x = Math.random() * (canvasWidth - width);
-    let speedX = 0;
-
-    // Difficulty increases speed and likelihood of harder obstacles
-    const speedMult = 1 + difficulty;
-
-    if (typeRoll < 0.4) {
-      type = 'BIRD';
-      width = 120 * scale; // GIANT - scales with screen
-      height = 70 * scale; // GIANT - scales with screen
-      speedX = (Math.random() - 0.5) * 4 * speedMult * scale; // Speed also scales
-    } else if (typeRoll < 0.6) {
-      type = 'BALLOON';
-      width = 100 * scale; // GIANT - scales with screen
-      height = 150 * scale; // GIANT - scales with screen
-      speedX = 0;
-    } else if (typeRoll < 0.8 && scoreRef.current > 500) {
-      type = 'BUILDING';
-      width = (300 + Math.random() * 200) * scale; // GIANT - scales with screen
-      height = 700 * scale; // GIANT - scales with screen
-      x = Math.random() > 0.5 ? 0 : canvasWidth - width; // Snap to sides
-      y = canvasHeight + height;
-    }
-
-    obstaclesRef.current.push({
-      id: Math.random().toString(36).substr(2, 9),
-      x,
-      y,
-      width,
-      height,
-      type,
-      speedX
-    });
-  };
-
-  // Helper to spawn power-ups
-  const spawnPowerUp = (canvasWidth: number, canvasHeight: number) => {
-    const types: PowerUp['type'][] = ['SLOW_MOTION', 'SHIELD', 'WIND_BREAKER', 'SUPER_GLIDE'];
-    const type = types[Math.floor(Math.random() * types.length)];
-
-    const width = 40;
-    const height = 40;
-    const x = Math.random() * (canvasWidth - width);
-    const y = canvasHeight + 100;
-
-    powerUpsRef.current.push({
-      id: Math.random().toString(36).substr(2, 9),
-      x,
-      y,
-      width,
-      height,
-      type,
-      collected: false
-    });
-  };
-
-  // Helper to spawn coins
-  const spawnCoin = (canvasWidth: number, canvasHeight: number) => {
-    const width = 30;
-    const height = 30;
-    const x = Math.random() * (canvasWidth - width);
-    const y = canvasHeight + 100;
-
-    coinsRef.current.push({
-      id: Math.random().toString(36).substr(2, 9),
-      x,
-      y,
-      width,
-      height,
-      collected: false,
-      spin: 0
-    });
-  };
-
   const createExplosion = (x: number, y: number) => {
     // Trigger Screen Shake
     shakeRef.current = 15;
@@ -303,389 +300,274 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     }
   };
 
-  const update = useCallback((canvas: HTMLCanvasElement) => {
-    if (gameState !== GameState.PLAYING || isPaused) return;
-
-    // --- SCREEN SCALE CALCULATION ---
-    // Scale everything based on current canvas size vs reference resolution
-    const scaleX = canvas.width / REFERENCE_WIDTH;
-    const scaleY = canvas.height / REFERENCE_HEIGHT;
-    const scale = Math.min(scaleX, scaleY); // Use smaller scale to maintain aspect ratio
-
-    // --- DIFFICULTY CALCULATION ---
-    // Scales from 0 to 1 over 8000 score units - REBALANCED for more gradual progression
-    const currentScore = scoreRef.current;
-    const difficulty = Math.min(Math.max(0, currentScore - 200) / 8000, 1);
-
-    // Difficulty mode multiplier
-    let modeMultiplier = 1;
-    if (difficultyMode === 'EASY') modeMultiplier = 0.35; // Very easy - slow progression
-    else if (difficultyMode === 'MEDIUM') modeMultiplier = 1.0;
-    else if (difficultyMode === 'HARD') modeMultiplier = 1.5;
-
-    // Storm Mode: 2x obstacles, more wind, constant rain/lightning
-    let stormModeMultiplier = 1;
-    let isStormMode = gameMode === 'STORM';
-    if (isStormMode) {
-      stormModeMultiplier = 2.0; // 2x obstacles
-    }
-
-    // Dynamic Spawn Rates - NERFED for less spam
-    const obstacleSpawnRate = Math.floor(Math.max(35, 80 - (difficulty * 30 * modeMultiplier * stormModeMultiplier))); // 80 -> 35 frames (was 60 -> 25)
-    const windZoneSpawnRate = Math.floor(Math.max(120, 300 - (difficulty * 140 * modeMultiplier * stormModeMultiplier))); // 300 -> 120 frames (was 240 -> 80)
-    const gustProbability = 0.0005 + (difficulty * 0.004 * modeMultiplier) + (isStormMode ? 0.005 : 0); // HALVED gust frequency
-
-    // Check active power-ups
-    const hasSlowMotion = activePowerUpsRef.current.some(p => p.type === 'SLOW_MOTION');
-    const hasWindBreaker = activePowerUpsRef.current.some(p => p.type === 'WIND_BREAKER');
-    const hasSuperGlide = activePowerUpsRef.current.some(p => p.type === 'SUPER_GLIDE');
-
-    // World Speed Scaling (1.0x -> 2.0x) - UNCHANGED, but with slower difficulty ramp it's more manageable
-    let worldSpeedMultiplier = 1.0 + (difficulty * (WORLD_SPEED_MULTIPLIER_MAX - 1.0) * modeMultiplier);
-
-    // Apply Slow Motion power-up (50% speed)
-    if (hasSlowMotion) {
-      worldSpeedMultiplier *= 0.5;
-    }
-
-    // Gravity Scaling - NERFED from 1.8x to 1.4x max
-    const gravityMultiplier = 1.0 + (difficulty * 0.4 * modeMultiplier); // Up to 1.4x gravity (was 1.8x)
-
-    // Score Multiplier (rewards increase with difficulty)
-    let scoreMultiplier = 1.0 + (difficulty * 1.5); // Up to 2.5x scoring
-
-    // Storm Mode: 3x score multiplier
-    if (isStormMode) {
-      scoreMultiplier *= 3.0;
-    }
-
-    const player = playerRef.current;
-    
-    // Decay Shake
-    if (shakeRef.current > 0) {
-        shakeRef.current *= 0.9;
-        if (shakeRef.current < 0.5) shakeRef.current = 0;
-    }
-
-    // Decay Lightning
-    if (lightningRef.current > 0) {
-        lightningRef.current -= 0.05;
-        if (lightningRef.current < 0) lightningRef.current = 0;
-    }
+  // Spawns particles & plays sounds for everything the simulation reported this tick
+  const handleSimulationEvents = (world: WorldState, canvas: HTMLCanvasElement) => {
+    for (const event of world.events) {
+      switch (event.type) {
+        case 'UMBRELLA_OPENED':
+        case 'UMBRELLA_CLOSED': {
+          const isOpening = event.type === 'UMBRELLA_OPENED';
+
+          // Audio Cues
+          if (isOpening) {
+              if (playOpenSound) playOpenSound();
+          } else {
+              if (playCloseSound) playCloseSound();
+          }
 
-    // Trigger Lightning (Storms or Storm Mode)
-    const lightningChance = isStormMode ? 0.01 : (difficulty > 0.4 ? 0.002 * difficulty : 0);
-    if (lightningChance > 0 && Math.random() < lightningChance) {
-        lightningRef.current = 0.8 + Math.random() * 0.2;
-        shakeRef.current = 5; // Thunder shake
-    }
+          // Spawn puffs
+          const count = isOpening ? 8 : 4;
+          for (let i = 0; i < count; i++) {
+              particlesRef.current.push({
+                  id: 'puff-' + Math.random(),
+                  x: event.x + (Math.random() - 0.5) * 30,
+                  y: event.y + (Math.random() - 0.5) * 30,
+                  vx: (Math.random() - 0.5) * (isOpening ? 4 : 2),
+                  vy: (Math.random() - 0.5) * (isOpening ? 4 : 2),
+                  life: 0.4,
+                  color: isOpening ? 'rgba(255, 255, 255, 0.5)' : 'rgba(200, 200, 200, 0.3)',
+                  type: 'DEBRIS',
+                  size: Math.random() * 3 + 2
+              });
+          }
 
-    // Detect Umbrella Toggle (Particle Effects & Sound)
-    if (player.isUmbrellaOpen !== lastUmbrellaState.current) {
-        const isOpening = player.isUmbrellaOpen;
-        const effectY = player.y - 50; // Approximate center of umbrella
-        
-        // Audio Cues
-        if (isOpening) {
-            if (playOpenSound) playOpenSound();
-            // Trigger umbrella bounce effect
-            player.umbrellaBounce = 1.3; // Bounce to 130%
-            player.bounceTimer = 10; // Bounce for 10 frames
-        } else {
-            if (playCloseSound) playCloseSound();
+          // Shockwave for opening (catching air)
+          if (isOpening) {
+               particlesRef.current.push({
+                  id: 'sw-' + Math.random(),
+                  x: event.x,
+                  y: event.y,
+                  vx: 0,
+                  vy: 0,
+                  life: 0.2,
+                  color: 'rgba(255, 255, 255, 0.3)',
+                  type: 'SHOCKWAVE',
+                  size: 5
+               });
+          }
+          break;
         }
-
-        // Spawn puffs
-        const count = isOpening ? 8 : 4;
-        for (let i = 0; i < count; i++) {
+        case 'LIGHTNING':
+          lightningRef.current = 0.8 + Math.random() * 0.2;
+          shakeRef.current = 5; // Thunder shake
+          if (event.x !== null) shakeRef.current = 12; // A bolt hit the ground nearby
+          break;
+        case 'PLAYER_HIT':
+          // Lost a heart - smaller crash, the run goes on
+          shakeRef.current = 10;
+          if (playCrashSound) playCrashSound();
+          for (let j = 0; j < 14; j++) {
             particlesRef.current.push({
-                id: 'puff-' + Math.random(),
-                x: player.x + (Math.random() - 0.5) * 30,
-                y: effectY + (Math.random() - 0.5) * 30,
-                vx: (Math.random() - 0.5) * (isOpening ? 4 : 2),
-                vy: (Math.random() - 0.5) * (isOpening ? 4 : 2),
-                life: 0.4,
-                color: isOpening ? 'rgba(255, 255, 255, 0.5)' : 'rgba(200, 200, 200, 0.3)',
-                type: 'DEBRIS',
-                size: Math.random() * 3 + 2
+              id: 'hit-' + Math.random(),
+              x: event.x,
+              y: event.y,
+              vx: (Math.random() - 0.5) * 10,
+              vy: (Math.random() - 0.5) * 10,
+              life: 0.6,
+              color: '#ef4444',
+              type: 'DEBRIS',
+              size: Math.random() * 4 + 2
             });
+          }
+          if (onHealthUpdate) onHealthUpdate(event.hp, world.health.maxHp);
+          break;
+        case 'SHIELD_BLOCKED':
+          // Visual feedback - smaller explosion
+          for (let j = 0; j < 10; j++) {
+            particlesRef.current.push({
+              id: 'shield-' + Math.random(),
+              x: event.x,
+              y: event.y,
+              vx: (Math.random() - 0.5) * 8,
+              vy: (Math.random() - 0.5) * 8,
+              life: 0.5,
+              color: '#fbbf24',
+              type: 'DEBRIS',
+              size: Math.random() * 4 + 2
+            });
+          }
+          break;
+        case 'POWERUP_COLLECTED': {
+          // Visual feedback - collection particles
+          const color = POWER_UP_DEFINITIONS[event.powerUpType].color;
+          for (let j = 0; j < 15; j++) {
+            particlesRef.current.push({
+              id: 'collect-' + Math.random(),
+              x: event.x,
+              y: event.y,
+              vx: (Math.random() - 0.5) * 6,
+              vy: (Math.random() - 0.5) * 6,
+              life: 0.8,
+              color: color,
+              type: 'DEBRIS',
+              size: Math.random() * 4 + 2
+            });
+          }
+          break;
         }
-        
-        // Shockwave for opening (catching air)
-        if (isOpening) {
-             particlesRef.current.push({
-                id: 'sw-' + Math.random(),
-                x: player.x,
-                y: effectY,
-                vx: 0,
-                vy: 0,
-                life: 0.2,
-                color: 'rgba(255, 255, 255, 0.3)',
-                type: 'SHOCKWAVE',
-                size: 5
-             });
-        }
-
-        lastUmbrellaState.current = isOpening;
-    }
-
-    // --- PHYSICS ENGINE ---
-
-    // 1. Umbrella State Animation
-    const targetAnim = player.isUmbrellaOpen ? 1 : 0;
-    player.umbrellaAnim += (targetAnim - player.umbrellaAnim) * 0.2;
+        case 'DASHED':
+          // Streaks left behind the burst
+          for (let j = 0; j < 10; j++) {
+            particlesRef.current.push({
+              id: 'dash-' + Math.random(),
+              x: event.x,
+              y: event.y + (Math.random() - 0.5) * 60,
+              vx: -event.direction * (6 + Math.random() * 6),
+              vy: 0,
+              life: 0.4,
+              color: POWER_UP_DEFINITIONS.DASH.color,
+              type: 'DEBRIS',
+              size: Math.random() * 3 + 2
+            });
+          }
+          break;
+        case 'BALLOON_POPPED':
+          particlesRef.current.push({
+            id: 'pop-' + Math.random(),
+            x: event.x,
+            y: event.y,
+            vx: 0,
+            vy: 0,
+            life: 0.3,
+            color: 'rgba(255, 255, 255, 0.6)',
+            type: 'SHOCKWAVE',
+            size: 8
+          });
+          for (let j = 0; j < 10; j++) {
+            particlesRef.current.push({
+              id: 'pop-' + Math.random(),
+              x: event.x,
+              y: event.y,
+              vx: (Math.random() - 0.5) * 9,
+              vy: (Math.random() - 0.5) * 9,
+              life: 0.5,
+              color: '#f472b6',
+              type: 'DEBRIS',
+              size: Math.random() * 3 + 2
+            });
+          }
+          break;
 
-    // Reset accumulated wind force for UI
-    let currentWindX = 0;
-    let currentWindY = 0;
+        case 'COIN_COLLECTED':
+          // Notify parent component (replays don't pay out coins)
+          if (onCoinCollect && !replay) {
+            onCoinCollect(event.value);
+          }
 
-    // 2. Wind Gust Logic (Global)
-    if (windGustRef.current.active) {
-        windGustRef.current.timeLeft--;
-        if (windGustRef.current.timeLeft <= 0) {
-            windGustRef.current.active = false;
-        } else {
-             // Visual Particles for Gust
-             if (frameCountRef.current % 4 === 0) {
-                 const isRight = windGustRef.current.vx > 0;
-                 particlesRef.current.push({
-                     id: 'gust-' + Math.random(),
-                     x: isRight ? -50 : canvas.width + 50,
-                     y: Math.random() * canvas.height,
-                     vx: windGustRef.current.vx * (1.5 + Math.random()), // Fast gust lines
-                     vy: (Math.random() - 0.5) * 2,
-                     life: 0.8,
-                     color: 'rgba(255, 255, 255, 0.15)',
-                     type: 'GUST',
-                     size: 50 + Math.random() * 100
-                 });
-             }
-             // Accumulate global wind
-             currentWindX += windGustRef.current.vx;
-             currentWindY += windGustRef.current.vy;
+          // Visual feedback - sparkle particles
+          for (let j = 0; j < 12; j++) {
+            particlesRef.current.push({
+              id: 'coin-' + Math.random(),
+              x: event.x,
+              y: event.y,
+              vx: (Math.random() - 0.5) * 8,
+              vy: (Math.random() - 0.5) * 8,
+              life: 0.6,
+              color: '#fbbf24',
+              type: 'DEBRIS',
+              size: Math.random() * 3 + 1
+            });
+          }
+          break;
+        case 'CRASHED': {
+          createExplosion(event.x, event.y);
+          if (playCrashSound) playCrashSound();
+          if (replay && replay.revivedAt === world.tick) break; // Replay of a continued run - it carries straight on
+
+          const snapshot = canvas.toDataURL('image/jpeg', 0.5);
+          const canContinue = !replay && !!simRef.current && simRef.current.canRevive();
+          onGameOver(world.depth, event.cause, snapshot, world.style.points, canContinue);
+          break;
         }
-    } else {
-        // Dynamic Gust Chance (ONLY in Storm Mode)
-        if (isStormMode && scoreRef.current > 300 && Math.random() < gustProbability) {
-            const direction = Math.random() > 0.5 ? 1 : -1;
-            const difficultyMult = 1 + difficulty;
-
-            windGustRef.current = {
-                active: true,
-                vx: direction * (5 + Math.random() * 8) * difficultyMult, // Stronger with difficulty
-                vy: -0.5 - Math.random() * 1.5 * difficultyMult, // Stronger updraft
-                timeLeft: 60 + Math.random() * 60 // 1-2 seconds
-            };
+        case 'LEVEL_COMPLETE': {
+          // Player wins! Trigger game over with special message
+          const snapshot = canvas.toDataURL();
+          onGameOver(world.depth, `🎉 LEVEL ${event.levelId} COMPLETE!`, snapshot, world.style.points, false);
+          break;
         }
-    }
-
-    // 3. Horizontal Movement (Drag & Inertia)
-    // Calculate distance to target
-    let dx = player.targetX - player.x;
-
-    // Responsiveness: INCREASED for better control - umbrella open now more responsive
-    const responsiveness = player.isUmbrellaOpen ? 0.08 : 0.15; // Was 0.05/0.12, now 0.08/0.15
-    let moveSpeed = dx * responsiveness;
-
-    // Clamp max lateral speed - SCALED TO SCREEN SIZE
-    const MAX_LATERAL_SPEED = 12 * scale; // Scales with screen for consistent movement
-    if (moveSpeed > MAX_LATERAL_SPEED) moveSpeed = MAX_LATERAL_SPEED;
-    if (moveSpeed < -MAX_LATERAL_SPEED) moveSpeed = -MAX_LATERAL_SPEED;
-    
-    // Apply Wind Gust Forces (unless Wind Breaker is active)
-    let gustVx = 0;
-    if (windGustRef.current.active && !hasWindBreaker) {
-        gustVx = windGustRef.current.vx;
-        player.vy += windGustRef.current.vy; // Apply Updraft
-    }
-
-    player.vx = moveSpeed + gustVx;
-
-    // 5. Vertical Physics (Gravity & Lift) - SCALED WITH DIFFICULTY AND SCREEN SIZE
-    let currentGravity = (player.isUmbrellaOpen ? BASE_GLIDE_GRAVITY : BASE_GRAVITY) * scale;
-    let currentTerminal = (player.isUmbrellaOpen ? BASE_GLIDE_TERMINAL_VELOCITY : BASE_TERMINAL_VELOCITY) * scale;
-
-    // Apply difficulty scaling to gravity and terminal velocity
-    currentGravity *= gravityMultiplier;
-    currentTerminal *= gravityMultiplier;
-    
-    // Apply Lift: Moving horizontally creates lift (Bernoulli-ish)
-    if (player.isUmbrellaOpen) {
-        const liftForce = Math.abs(player.vx) * 0.1;
-        currentGravity -= liftForce * 0.05 * scale;
-
-        // Slight direct upward force if moving fast - scaled
-        if (Math.abs(player.vx) > 5 * scale) {
-            player.vy -= 0.05 * scale;
+        case 'LEVEL_FAILED': {
+          const snapshot = captureFailureSnapshot(canvas, event.reason);
+          onGameOver(world.depth, event.cause, snapshot, world.style.points, false);
+          break;
         }
-    }
-
-    // --- WIND ZONES PHYSICS (Local) ---
-    // Apply before velocity update (unless Wind Breaker is active)
-    if (!hasWindBreaker) {
-      for (const zone of windZonesRef.current) {
-          // Simple AABB collision with player
-          if (
-              player.x > zone.x &&
-              player.x < zone.x + zone.width &&
-              player.y > zone.y &&
-              player.y < zone.y + zone.height
-          ) {
-               // Effect is stronger if umbrella is open (more surface area)
-               const surfaceFactor = player.isUmbrellaOpen ? 1.0 : 0.3;
-
-               // Apply wind forces
-               player.vx += zone.vx * surfaceFactor * 0.15;
-               player.vy += zone.vy * surfaceFactor * 0.15;
-
-               // Accumulate for UI
-               currentWindX += zone.vx;
-               currentWindY += zone.vy;
-
-               // Trigger spinning animation if wind is strong enough
-               const windStrength = Math.abs(zone.vx) + Math.abs(zone.vy);
-               if (windStrength > 3 && player.isUmbrellaOpen) {
-                   player.isSpinning = true;
-               }
-
-               // Add turbulence if gliding in wind
-               if (player.isUmbrellaOpen) {
-                   player.angle += (Math.random() - 0.5) * 0.08 * (1 + difficulty);
-               }
-          }
+        case 'LEVEL_MESSAGE':
+          levelMessageRef.current = { text: event.text, framesLeft: 180 };
+          break;
+        case 'STYLE':
+          stylePopupsRef.current.push({
+            text: `${STYLE_TRICKS[event.trick].label} +${event.points}`,
+            x: event.x,
+            y: event.y,
+            framesLeft: 60
+          });
+          break;
       }
     }
+  };
 
-    // Update Wind Ref for Draw Loop
-    activeWindRef.current = { x: currentWindX, y: currentWindY };
-
-    player.x += player.vx;
-    player.vy += currentGravity;
-
-    // Keep player within screen bounds (horizontal)
-    const PLAYER_MARGIN = 50; // Give some margin for umbrella
-    if (player.x < PLAYER_MARGIN) {
-      player.x = PLAYER_MARGIN;
-      player.vx = 0;
-    }
-    if (player.x > canvas.width - PLAYER_MARGIN) {
-      player.x = canvas.width - PLAYER_MARGIN;
-      player.vx = 0;
-    }
+  // Render-only effects: shake, rain, speed lines, wind trails, parallax and particles
+  const updateEffects = (world: WorldState, config: SimulationConfig, canvas: HTMLCanvasElement) => {
+    const player = world.player;
+    const difficulty = world.difficulty;
+    const distanceTraveled = world.distanceTraveled;
+    const worldWidth = config.width;
+    const worldHeight = config.height;
+    const isStormMode = config.gameMode === 'STORM';
+    const themeRain = config.level ? THEME_DEFINITIONS[config.level.theme].rain : 0;
 
-    // Keep player within screen bounds (vertical) - keep them visible
-    if (player.y < 100) {
-      player.y = 100;
-      player.vy = Math.max(player.vy, 0); // Don't let them go up
-    }
-    if (player.y > canvas.height - 100) {
-      player.y = canvas.height - 100;
-      player.vy = Math.min(player.vy, 0); // Don't let them go down
+    // Decay Shake
+    if (shakeRef.current > 0) {
+        shakeRef.current *= 0.9;
+        if (shakeRef.current < 0.5) shakeRef.current = 0;
     }
 
-    // Super Glide Power-Up: Automatic float upward
-    if (hasSuperGlide) {
-      player.vy -= 0.4; // Constant upward force
+    // Decay Lightning
+    if (lightningRef.current > 0) {
+        lightningRef.current -= 0.05;
+        if (lightningRef.current < 0) lightningRef.current = 0;
     }
 
-    // Clamp to terminal velocity (allow slight overspeed if pushed by downdraft)
-    if (player.vy > currentTerminal * 2) player.vy = currentTerminal * 2;
-    else if (player.vy > currentTerminal && !windGustRef.current.active) player.vy = currentTerminal;
-
-    // Don't float up too fast (unless huge updraft or Super Glide)
-    if (player.vy < -8 && !hasSuperGlide) player.vy = -8;
-
-
-    // 4. Banking & Wobble (Visual Feedback)
-    // Bank into the turn
-    const targetAngle = player.vx * 0.02; 
-    
-    if (player.isUmbrellaOpen) {
-       // Add turbulence/wobble when gliding
-       const turbulence = Math.sin(frameCountRef.current * 0.1) * 0.05;
-       player.angle = targetAngle + turbulence;
-       
-       // Extra turbulence if in gust
-       if (windGustRef.current.active) {
-           player.angle += (Math.random() - 0.5) * 0.2;
-       }
-    } else {
-       // Aerodynamic dive angle
-       player.angle = targetAngle; 
+    // Level message banner timer
+    if (levelMessageRef.current) {
+        levelMessageRef.current.framesLeft--;
+        if (levelMessageRef.current.framesLeft <= 0) levelMessageRef.current = null;
     }
 
-    // --- GAME WORLD UPDATE ---
-
-    // Simulate Falling (World moves up) - SCALED WITH DIFFICULTY
-    const distanceTraveled = player.vy * worldSpeedMultiplier;
-
-    // Score increases faster at higher difficulties
-    scoreRef.current += Math.floor(distanceTraveled * scoreMultiplier);
-    onScoreUpdate(Math.floor(scoreRef.current / 10));
-
-    // --- CHALLENGE MODE: OBJECTIVES TRACKING ---
-    if (gameMode === 'CHALLENGE' && levelProgress && selectedChallengeLevel !== null) {
-      const currentDepth = Math.floor(scoreRef.current / 10);
-      const timeElapsed = (Date.now() - levelProgress.startTime) / 1000; // in seconds
-
-      // Update objectives
-      const updatedObjectives = levelProgress.objectives.map(obj => {
-        if (obj.completed) return obj;
-
-        switch (obj.type) {
-          case 'SURVIVE_TIME':
-            obj.current = Math.floor(timeElapsed);
-            obj.completed = timeElapsed >= obj.target;
-            break;
-          case 'REACH_DEPTH':
-            obj.current = currentDepth;
-            obj.completed = currentDepth >= obj.target;
-            break;
-          case 'COLLECT_COINS':
-            // Coins are updated via onCoinCollect callback
-            break;
-          case 'NO_DAMAGE':
-            // Will be set to false when player takes damage
-            break;
-          case 'AVOID_OBSTACLES':
-            // Will be incremented when obstacles go off screen
-            break;
-        }
-        return obj;
-      });
-
-      // Update level progress
-      onLevelProgressUpdate({
-        ...levelProgress,
-        objectives: updatedObjectives,
-        timeElapsed
-      });
+    // Style popups drift up and fade
+    stylePopupsRef.current.forEach(popup => {
+        popup.y -= 1.5;
+        popup.framesLeft--;
+    });
+    stylePopupsRef.current = stylePopupsRef.current.filter(popup => popup.framesLeft > 0);
 
-      // Check if all objectives are completed
-      const allCompleted = updatedObjectives.every(obj => obj.completed);
-      if (allCompleted) {
-        // Player wins! Trigger game over with special message
-        if (canvasRef.current) {
-          const snapshot = canvasRef.current.toDataURL();
-          onGameOver(currentDepth, `🎉 LEVEL ${selectedChallengeLevel} COMPLETE!`, snapshot);
-        }
-      }
+    // Visual Particles for Gust
+    if (world.windGust.active && frameCountRef.current % 4 === 0) {
+        const isRight = world.windGust.vx > 0;
+        particlesRef.current.push({
+            id: 'gust-' + Math.random(),
+            x: isRight ? -50 : worldWidth + 50,
+            y: Math.random() * worldHeight,
+            vx: world.windGust.vx * (1.5 + Math.random()), // Fast gust lines
+            vy: (Math.random() - 0.5) * 2,
+            life: 0.8,
+            color: 'rgba(255, 255, 255, 0.15)',
+            type: 'GUST',
+            size: 50 + Math.random() * 100
+        });
     }
 
-    // --- VISUAL EFFECTS ---
-    
-    // RAIN SYSTEM (Triggered by Difficulty or Storm Mode)
-    const shouldSpawnRain = isStormMode || (difficulty > 0.3 && frameCountRef.current % Math.floor(5 - difficulty * 3) === 0);
+    // RAIN SYSTEM (Triggered by Difficulty, Storm Mode or a rainy theme)
+    const shouldSpawnRain = isStormMode || themeRain > 0 || (difficulty > 0.3 && frameCountRef.current % Math.floor(5 - difficulty * 3) === 0);
     if (shouldSpawnRain) {
-        // Storm Mode: Constant heavy rain (15 drops), otherwise based on difficulty
-        const rainCount = isStormMode ? 15 : Math.floor(1 + difficulty * 8);
+        // Storm Mode: Constant heavy rain (15 drops), rainy themes their own amount, otherwise based on difficulty
+        const rainCount = isStormMode ? 15 : themeRain > 0 ? themeRain : Math.floor(1 + difficulty * 8);
         
         for (let i = 0; i < rainCount; i++) {
              particlesRef.current.push({
                 id: 'rain-' + Math.random(),
-                x: Math.random() * canvas.width,
+                x: Math.random() * worldWidth,
                 y: -50, // Spawn above screen
-                vx: currentWindX * 0.5 + (Math.random() - 0.5), // Rain follows wind
+                vx: world.activeWind.x * 0.5 + (Math.random() - 0.5), // Rain follows wind
                 vy: 20 + Math.random() * 10, // Falls fast
                 life: 1.0,
                 color: 'rgba(174, 194, 224, 0.4)',
@@ -700,8 +582,8 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         if (Math.random() > 0.5) {
             particlesRef.current.push({
                 id: 'speed-' + Math.random(),
-                x: Math.random() * canvas.width,
-                y: canvas.height + 50,
+                x: Math.random() * worldWidth,
+                y: worldHeight + 50,
                 vx: 0,
                 vy: - (20 + Math.random() * 10),
                 life: 0.5,
@@ -758,7 +640,6 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
          }
     }
 
-
     // Update Background (Parallax)
     bgElementsRef.current.forEach(el => {
         el.y -= distanceTraveled * el.speedFactor;
@@ -772,299 +653,10 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     // Dark mode: spawn more stars for ambient particle effect
     const maxParticles = isDarkMode ? 80 : 50;
     const spawnChance = isDarkMode ? 0.7 : 0.5;
-    if (bgElementsRef.current.length < maxParticles && Math.random() > spawnChance) {
+    if (bgElementsRef.current.length < maxParticles && sceneryRngRef.current.next() > spawnChance) {
         spawnBgElement(canvas.height + 50, canvas.width);
     }
 
-    // Spawn Obstacles (Dynamic Rate)
-    if (frameCountRef.current % obstacleSpawnRate === 0) {
-      spawnObstacle(canvas.width, canvas.height, difficulty, scale);
-    }
-    
-    // Spawn Wind Zones (ONLY in Storm Mode)
-    if (isStormMode && frameCountRef.current % windZoneSpawnRate === 0 && scoreRef.current > 200) {
-        spawnWindZone(canvas.width, canvas.height, difficulty);
-    }
-
-    // Spawn Power-Ups (Less frequent than obstacles)
-    if (frameCountRef.current % 300 === 0 && scoreRef.current > 100) { // Every ~5 seconds
-        spawnPowerUp(canvas.width, canvas.height);
-    }
-
-    // Spawn Coins (More frequent - every ~2 seconds)
-    if (frameCountRef.current % 120 === 0 && scoreRef.current > 50) {
-        spawnCoin(canvas.width, canvas.height);
-    }
-
-    // Update Active Power-Ups (Timers)
-    for (let i = activePowerUpsRef.current.length - 1; i >= 0; i--) {
-        const powerUp = activePowerUpsRef.current[i];
-        powerUp.timeLeft--;
-
-        if (powerUp.timeLeft <= 0) {
-            activePowerUpsRef.current.splice(i, 1);
-        }
-    }
-
-    // Update Wind Zones (Movement) - Move at world speed
-    for (let i = windZonesRef.current.length - 1; i >= 0; i--) {
-        const zone = windZonesRef.current[i];
-        zone.y -= distanceTraveled * 1.5;
-
-        if (zone.y < -zone.height - 100) {
-            windZonesRef.current.splice(i, 1);
-        }
-    }
-
-    // Update Obstacles - Move at world speed
-    for (let i = obstaclesRef.current.length - 1; i >= 0; i--) {
-      const obs = obstaclesRef.current[i];
-      obs.y -= distanceTraveled * 1.5;
-      obs.x += obs.speedX;
-
-      if (obs.type === 'BIRD') {
-        if (obs.x <= 0 || obs.x + obs.width >= canvas.width) obs.speedX *= -1;
-      }
-
-      if (obs.y < -500) {
-        obstaclesRef.current.splice(i, 1);
-
-        // Update AVOID_OBSTACLES objective if in Challenge Mode
-        if (gameMode === 'CHALLENGE' && levelProgress) {
-          const updatedObjectives = levelProgress.objectives.map(obj => {
-            if (obj.type === 'AVOID_OBSTACLES' && !obj.completed) {
-              obj.current += 1;
-              obj.completed = obj.current >= obj.target;
-            }
-            return obj;
-          });
-          onLevelProgressUpdate({
-            ...levelProgress,
-            objectives: updatedObjectives
-          });
-        }
-
-        continue;
-      }
-
-      // Collision
-      const playerHitbox = {
-        x: player.x - 10,
-        y: player.y - 40,
-        width: 20,
-        height: 80
-      };
-
-      if (
-        playerHitbox.x < obs.x + obs.width &&
-        playerHitbox.x + playerHitbox.width > obs.x &&
-        playerHitbox.y < obs.y + obs.height &&
-        playerHitbox.height + playerHitbox.y > obs.y
-      ) {
-         // Check for shield power-up
-         const hasShield = activePowerUpsRef.current.some(p => p.type === 'SHIELD');
-
-         if (hasShield) {
-           // Consume shield and remove obstacle
-           const shieldIndex = activePowerUpsRef.current.findIndex(p => p.type === 'SHIELD');
-           if (shieldIndex !== -1) {
-             activePowerUpsRef.current.splice(shieldIndex, 1);
-           }
-           obstaclesRef.current.splice(i, 1);
-
-           // Trigger broken umbrella animation
-           player.umbrellaIsBroken = true;
-           player.brokenTimer = 30; // ~0.5 seconds
-
-           // Visual feedback - smaller explosion
-           for (let j = 0; j < 10; j++) {
-             particlesRef.current.push({
-               id: 'shield-' + Math.random(),
-               x: obs.x + obs.width / 2,
-               y: obs.y + obs.height / 2,
-               vx: (Math.random() - 0.5) * 8,
-               vy: (Math.random() - 0.5) * 8,
-               life: 0.5,
-               color: '#fbbf24',
-               type: 'DEBRIS',
-               size: Math.random() * 4 + 2
-             });
-           }
-           continue;
-         } else {
-           // No shield - game over
-           createExplosion(player.x, player.y);
-           if (playCrashSound) playCrashSound();
-
-           // Mark NO_DAMAGE objective as failed if in Challenge Mode
-           if (gameMode === 'CHALLENGE' && levelProgress) {
-             const updatedObjectives = levelProgress.objectives.map(obj => {
-               if (obj.type === 'NO_DAMAGE') {
-                 obj.current = 0; // Failed
-                 obj.completed = false;
-               }
-               return obj;
-             });
-             onLevelProgressUpdate({
-               ...levelProgress,
-               objectives: updatedObjectives
-             });
-           }
-
-           const snapshot = canvas.toDataURL('image/jpeg', 0.5);
-           onGameOver(Math.floor(scoreRef.current / 10), `Hit a ${obs.type.toLowerCase()}`, snapshot);
-           return;
-         }
-      }
-    }
-
-    // Update Power-Ups
-    for (let i = powerUpsRef.current.length - 1; i >= 0; i--) {
-      const powerUp = powerUpsRef.current[i];
-      powerUp.y -= distanceTraveled * 1.5;
-
-      if (powerUp.y < -100) {
-        powerUpsRef.current.splice(i, 1);
-        continue;
-      }
-
-      // Collision with player
-      const playerHitbox = {
-        x: player.x - 10,
-        y: player.y - 40,
-        width: 20,
-        height: 80
-      };
-
-      if (
-        !powerUp.collected &&
-        playerHitbox.x < powerUp.x + powerUp.width &&
-        playerHitbox.x + playerHitbox.width > powerUp.x &&
-        playerHitbox.y < powerUp.y + powerUp.height &&
-        playerHitbox.height + playerHitbox.y > powerUp.y
-      ) {
-        // Collect power-up
-        powerUp.collected = true;
-
-        // Trigger dance animation!
-        player.isDancing = true;
-        player.danceTimer = 60; // 1 second dance
-
-        // Activate power-up
-        let duration = 0;
-        switch (powerUp.type) {
-          case 'SLOW_MOTION':
-            duration = 180; // 3 seconds at 60fps
-            break;
-          case 'SHIELD':
-            duration = -1; // Lasts until hit
-            break;
-          case 'WIND_BREAKER':
-            duration = 300; // 5 seconds
-            break;
-          case 'SUPER_GLIDE':
-            duration = 300; // 5 seconds
-            break;
-        }
-
-        activePowerUpsRef.current.push({
-          type: powerUp.type,
-          timeLeft: duration,
-          duration: duration
-        });
-
-        // Visual feedback - collection particles
-        for (let j = 0; j < 15; j++) {
-          const color = powerUp.type === 'SLOW_MOTION' ? '#60a5fa' :
-                        powerUp.type === 'SHIELD' ? '#fbbf24' :
-                        powerUp.type === 'WIND_BREAKER' ? '#34d399' :
-                        '#f87171';
-
-          particlesRef.current.push({
-            id: 'collect-' + Math.random(),
-            x: powerUp.x + powerUp.width / 2,
-            y: powerUp.y + powerUp.height / 2,
-            vx: (Math.random() - 0.5) * 6,
-            vy: (Math.random() - 0.5) * 6,
-            life: 0.8,
-            color: color,
-            type: 'DEBRIS',
-            size: Math.random() * 4 + 2
-          });
-        }
-
-        powerUpsRef.current.splice(i, 1);
-      }
-    }
-
-    // Update Coins
-    for (let i = coinsRef.current.length - 1; i >= 0; i--) {
-      const coin = coinsRef.current[i];
-      coin.y -= distanceTraveled * 1.5;
-      coin.spin += 0.1; // Spinning animation
-
-      if (coin.y < -100) {
-        coinsRef.current.splice(i, 1);
-        continue;
-      }
-
-      // Collision with player
-      const playerHitbox = {
-        x: player.x - 15,
-        y: player.y - 45,
-        width: 30,
-        height: 90
-      };
-
-      if (
-        !coin.collected &&
-        playerHitbox.x < coin.x + coin.width &&
-        playerHitbox.x + playerHitbox.width > coin.x &&
-        playerHitbox.y < coin.y + coin.height &&
-        playerHitbox.height + playerHitbox.y > coin.y
-      ) {
-        // Collect coin
-        coin.collected = true;
-
-        // Notify parent component
-        if (onCoinCollect) {
-          onCoinCollect(1);
-        }
-
-        // Update COLLECT_COINS objective if in Challenge Mode
-        if (gameMode === 'CHALLENGE' && levelProgress) {
-          const updatedObjectives = levelProgress.objectives.map(obj => {
-            if (obj.type === 'COLLECT_COINS' && !obj.completed) {
-              obj.current += 1;
-              obj.completed = obj.current >= obj.target;
-            }
-            return obj;
-          });
-          onLevelProgressUpdate({
-            ...levelProgress,
-            objectives: updatedObjectives
-          });
-        }
-
-        // Visual feedback - sparkle particles
-        for (let j = 0; j < 12; j++) {
-          particlesRef.current.push({
-            id: 'coin-' + Math.random(),
-            x: coin.x + coin.width / 2,
-            y: coin.y + coin.height / 2,
-            vx: (Math.random() - 0.5) * 8,
-            vy: (Math.random() - 0.5) * 8,
-            life: 0.6,
-            color: '#fbbf24',
-            type: 'DEBRIS',
-            size: Math.random() * 3 + 1
-          });
-        }
-
-        coinsRef.current.splice(i, 1);
-      }
-    }
-
     // Update Particles
     for (let i = particlesRef.current.length - 1; i >= 0; i--) {
         const p = particlesRef.current[i];
@@ -1083,7 +675,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         } else if (p.type === 'RAIN') {
              p.x += p.vx; // Wind influence
              p.y += p.vy - distanceTraveled; // Gravity relative to camera
-             if (p.y > canvas.height + 50) p.life = 0; // Kill when off screen
+             if (p.y > worldHeight + 50) p.life = 0; // Kill when off screen
         } else {
              p.x += p.vx;
              p.y += p.vy;
@@ -1093,61 +685,485 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
             particlesRef.current.splice(i, 1);
         }
     }
+  };
 
-    // --- UPDATE ANIMATIONS ---
+  // Advances the simulation by one fixed tick
+  const update = useCallback((canvas: HTMLCanvasElement) => {
+    if (gameState !== GameState.PLAYING || isPaused) return;
 
-    // Dance animation timer
-    if (player.danceTimer > 0) {
-      player.danceTimer--;
-      if (player.danceTimer === 0) {
-        player.isDancing = false;
-      }
-    }
+    const sim = simRef.current;
+    if (!sim || sim.getState().isOver) return;
 
-    // Broken umbrella timer
-    if (player.brokenTimer > 0) {
-      player.brokenTimer--;
-      if (player.brokenTimer === 0) {
-        player.umbrellaIsBroken = false;
-      }
-    }
+    const prevPlayer = sim.getState().player;
+    prevPlayerPosRef.current = { x: prevPlayer.x, y: prevPlayer.y };
 
-    // Umbrella bounce animation
-    if (player.bounceTimer > 0) {
-      player.bounceTimer--;
-      // Elastic bounce back to 1.0
-      player.umbrellaBounce = 1.0 + (player.bounceTimer / 10) * 0.3;
-      if (player.bounceTimer === 0) {
-        player.umbrellaBounce = 1.0;
-      }
+    if (!replayPlayerRef.current) {
+      applyInputSources(inputRef.current, rawInputRef.current, keyBindings, sim.config.width);
+    }
+    const input = replayPlayerRef.current
+      ? replayPlayerRef.current.inputAt(sim.getState().tick)
+      : quantizeInput(inputRef.current);
+    if (recorderRef.current) recorderRef.current.record(sim.getState().tick, input);
+
+    const world = sim.step(input);
+
+    // Step the ghost alongside so it races in real time
+    const ghostSim = ghostSimRef.current;
+    if (ghostSim && ghostPlayerRef.current && !ghostSim.getState().isOver) {
+      const ghost = ghostSim.getState();
+      prevGhostPosRef.current = { x: ghost.player.x, y: ghost.player.y };
+      ghostSim.step(ghostPlayerRef.current.inputAt(ghost.tick));
+      if (ghostReplay) applyRecordedRevive(ghostSim, ghostReplay);
     }
 
-    // Spinning animation
-    if (player.isSpinning) {
-      player.spinRotation += 0.2;
-      // Stop spinning when out of wind and slowed down
-      if (currentWindX === 0 && currentWindY === 0 && Math.abs(player.vx) < 2) {
-        player.isSpinning = false;
-        player.spinRotation = 0;
-      }
-    } else {
-      // Gradually reduce spin
-      player.spinRotation *= 0.9;
-      if (Math.abs(player.spinRotation) < 0.01) player.spinRotation = 0;
+    onScoreUpdate(world.depth);
+    if (world.levelProgress) {
+      onLevelProgressUpdate({
+        ...world.levelProgress,
+        objectives: world.levelProgress.objectives.map(obj => ({ ...obj }))
+      });
     }
 
-    frameCountRef.current++;
-  }, [gameState, isPaused, difficultyMode, isDarkMode, onScoreUpdate, onGameOver, onCoinCollect, playCrashSound, playOpenSound, playCloseSound]);
+    // Hand over the finished recording before the game over callback fires (kept going in case the run is continued)
+    if (world.isOver && recorderRef.current && onReplayRecorded) {
+      onReplayRecorded(recorderRef.current.finish(world.tick, world.depth));
+    }
 
-  const draw = useCallback((ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement) => {
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    updateEffects(world, sim.config, canvas);
+    handleSimulationEvents(world, canvas);
+    if (replay) applyRecordedRevive(sim, replay); // After the crash has played out
 
-    // --- SCREEN SCALE CALCULATION (for HUD elements) ---
-    const scaleX = canvas.width / REFERENCE_WIDTH;
-    const scaleY = canvas.height / REFERENCE_HEIGHT;
-    const scale = Math.min(scaleX, scaleY);
+    frameCountRef.current++;
+  }, [gameState, isPaused, replay, ghostReplay, keyBindings, isDarkMode, onScoreUpdate, onGameOver, onCoinCollect, onLevelProgressUpdate, onHealthUpdate, onReplayRecorded, playCrashSound, playOpenSound, playCloseSound]);
 
-    // --- APPLY SCREEN SHAKE ---
+  // Stickman + umbrella at (x, y) - shared by the player and the ghost racer
+  const drawStickman = (ctx: CanvasRenderingContext2D, player: PlayerState, x: number, y: number) => {
+    ctx.save();
+    ctx.translate(x, y);
+
+    // Apply spin rotation if spinning
+    if (player.isSpinning || player.spinRotation !== 0) {
+      ctx.rotate(player.spinRotation);
+    } else {
+      ctx.rotate(player.angle);
+    }
+
+    // Stickman Body - Enhanced Design
+    ctx.strokeStyle = '#000';
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    // "Oops" falling animation - flailing limbs when falling fast without umbrella
+    const isFallingFast = player.vy > 12 && !player.isUmbrellaOpen;
+    const flailOffset = isFallingFast ? Math.sin(frameCountRef.current * 0.3) * 10 : 0;
+
+    // Head - Improved design with better proportions
+    ctx.beginPath();
+    ctx.arc(0, -30, 12, 0, Math.PI * 2);
+    const headGradient = ctx.createRadialGradient(0, -30, 0, 0, -30, 12);
+    headGradient.addColorStop(0, '#fcd34d'); // Brighter yellow center
+    headGradient.addColorStop(1, '#f59e0b'); // Darker yellow edge
+    ctx.fillStyle = headGradient;
+    ctx.fill();
+    ctx.strokeStyle = '#92400e';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    // Hair - Simple spiky style
+    ctx.strokeStyle = '#92400e';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(-8, -38);
+    ctx.lineTo(-10, -42);
+    ctx.moveTo(-3, -40);
+    ctx.lineTo(-3, -44);
+    ctx.moveTo(3, -40);
+    ctx.lineTo(3, -44);
+    ctx.moveTo(8, -38);
+    ctx.lineTo(10, -42);
+    ctx.stroke();
+
+    // Eyes - Animated based on state
+    if (isFallingFast) {
+      // Wide worried eyes
+      ctx.fillStyle = '#000';
+      ctx.beginPath();
+      ctx.arc(-4, -32, 3, 0, Math.PI * 2);
+      ctx.arc(4, -32, 3, 0, Math.PI * 2);
+      ctx.fill();
+
+      // White scared highlights (smaller, more subtle)
+      ctx.fillStyle = '#fff';
+      ctx.beginPath();
+      ctx.arc(-3, -33, 1, 0, Math.PI * 2);
+      ctx.arc(5, -33, 1, 0, Math.PI * 2);
+      ctx.fill();
+    } else if (player.isUmbrellaOpen) {
+      // Calm eyes
+      ctx.fillStyle = '#000';
+      ctx.beginPath();
+      ctx.arc(-4, -31, 2, 0, Math.PI * 2);
+      ctx.arc(4, -31, 2, 0, Math.PI * 2);
+      ctx.fill();
+    } else {
+      // Normal eyes with blink animation
+      const blinkPhase = frameCountRef.current % 200;
+      if (blinkPhase < 5) {
+        // Blinking - draw lines instead of circles
+        ctx.strokeStyle = '#000';
+        ctx.lineWidth = 2;
+        ctx.lineCap = 'round';
+        ctx.beginPath();
+        ctx.moveTo(-6, -31);
+        ctx.lineTo(-2, -31);
+        ctx.moveTo(2, -31);
+        ctx.lineTo(6, -31);
+        ctx.stroke();
+      } else {
+        ctx.fillStyle = '#000';
+        ctx.beginPath();
+        ctx.arc(-4, -31, 2, 0, Math.PI * 2);
+        ctx.arc(4, -31, 2, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+
+    // Mouth - expression based on state
+    ctx.strokeStyle = '#000';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    if (isFallingFast) {
+      // Open mouth (scared)
+      ctx.arc(0, -26, 3, 0, Math.PI);
+    } else if (player.isUmbrellaOpen) {
+      // Slight smile
+      ctx.arc(0, -27, 2, 0.2, Math.PI - 0.2);
+    } else {
+      // Neutral
+      ctx.moveTo(-3, -26);
+      ctx.lineTo(3, -26);
+    }
+    ctx.stroke();
+
+    // Body - Improved with torso
+    ctx.strokeStyle = '#000';
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.moveTo(0, -18);
+    ctx.lineTo(0, 0); // Torso
+    ctx.stroke();
+
+    // Shoulders/chest detail
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(0, -15, 8, 0.3, Math.PI - 0.3); // Chest/shoulder line
+    ctx.stroke();
+
+    // Arms - Enhanced with joints and smoother motion
+    ctx.strokeStyle = '#000';
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+    const shoulderY = -15;
+
+    if (player.isDancing) {
+      // Dance animation - arms waving enthusiastically
+      const dancePhase = (player.danceTimer / 60) * Math.PI * 4;
+      const leftArmAngle = Math.sin(dancePhase) * 0.8;
+      const rightArmAngle = Math.sin(dancePhase + Math.PI) * 0.8;
+
+      // Left arm
+      ctx.beginPath();
+      ctx.moveTo(0, shoulderY);
+      const leftElbowX = -12 * Math.cos(leftArmAngle);
+      const leftElbowY = shoulderY + 8 + 8 * Math.sin(leftArmAngle);
+      ctx.lineTo(leftElbowX, leftElbowY);
+      ctx.lineTo(leftElbowX - 10, leftElbowY - 12);
+      ctx.stroke();
+
+      // Right arm
+      ctx.beginPath();
+      ctx.moveTo(0, shoulderY);
+      const rightElbowX = 12 * Math.cos(rightArmAngle);
+      const rightElbowY = shoulderY + 8 + 8 * Math.sin(rightArmAngle);
+      ctx.lineTo(rightElbowX, rightElbowY);
+      ctx.lineTo(rightElbowX + 10, rightElbowY - 12);
+      ctx.stroke();
+    } else if (isFallingFast) {
+      // Flailing arms with elbow joints
+      ctx.beginPath();
+      ctx.moveTo(0, shoulderY);
+      ctx.lineTo(-12 - flailOffset, shoulderY - 5);
+      ctx.lineTo(-18 - flailOffset * 1.5, shoulderY + 5 + flailOffset);
+      ctx.moveTo(0, shoulderY);
+      ctx.lineTo(12 + flailOffset, shoulderY - 5);
+      ctx.lineTo(18 + flailOffset * 1.5, shoulderY + 5 - flailOffset);
+      ctx.stroke();
+    } else {
+      // Normal arms holding umbrella - smooth raising motion
+      const armY = shoulderY - (20 * player.umbrellaAnim);
+      const armXOffset = 12;
+      const elbowY = shoulderY + (armY - shoulderY) * 0.5;
+
+      // Left arm with elbow
+      ctx.beginPath();
+      ctx.moveTo(0, shoulderY);
+      ctx.lineTo(-armXOffset * 0.7, elbowY);
+      ctx.lineTo(-armXOffset, armY);
+      ctx.stroke();
+
+      // Right arm with elbow
+      ctx.beginPath();
+      ctx.moveTo(0, shoulderY);
+      ctx.lineTo(armXOffset * 0.7, elbowY);
+      ctx.lineTo(armXOffset, armY);
+      ctx.stroke();
+    }
+
+    // Hands holding umbrella
+    if (player.umbrellaAnim > 0.5 && !player.isDancing) {
+      ctx.fillStyle = '#fcd34d';
+      ctx.beginPath();
+      ctx.arc(-12, shoulderY - (20 * player.umbrellaAnim), 3, 0, Math.PI * 2);
+      ctx.arc(12, shoulderY - (20 * player.umbrellaAnim), 3, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    // Legs - Enhanced with knee joints
+    ctx.strokeStyle = '#000';
+    ctx.lineWidth = 3;
+    const hipY = 0;
+    const legLength = 22;
+
+    if (player.isDancing) {
+      // Dance animation - legs kicking with knees
+      const dancePhase = (player.danceTimer / 60) * Math.PI * 4;
+      const leftLegSpread = 8 + Math.sin(dancePhase) * 10;
+      const rightLegSpread = 8 + Math.sin(dancePhase + Math.PI) * 10;
+
+      // Left leg with knee
+      ctx.beginPath();
+      ctx.moveTo(0, hipY);
+      const leftKneeY = hipY + legLength * 0.6;
+      ctx.lineTo(-leftLegSpread * 0.5, leftKneeY);
+      ctx.lineTo(-leftLegSpread, hipY + legLength);
+      ctx.stroke();
+
+      // Right leg with knee
+      ctx.beginPath();
+      ctx.moveTo(0, hipY);
+      const rightKneeY = hipY + legLength * 0.6;
+      ctx.lineTo(rightLegSpread * 0.5, rightKneeY);
+      ctx.lineTo(rightLegSpread, hipY + legLength);
+      ctx.stroke();
+    } else if (isFallingFast) {
+      // Legs flailing with dramatic knee bends
+      ctx.beginPath();
+      ctx.moveTo(0, hipY);
+      ctx.lineTo(-8 - flailOffset, hipY + 12);
+      ctx.lineTo(-5 - flailOffset * 1.5, hipY + legLength);
+      ctx.moveTo(0, hipY);
+      ctx.lineTo(8 + flailOffset, hipY + 12);
+      ctx.lineTo(5 + flailOffset * 1.5, hipY + legLength);
+      ctx.stroke();
+    } else {
+      // Normal legs with slight spread when umbrella opens
+      const legSpread = 6 * player.umbrellaAnim;
+      const kneeY = hipY + legLength * 0.55;
+
+      // Left leg with knee
+      ctx.beginPath();
+      ctx.moveTo(0, hipY);
+      ctx.lineTo(-legSpread * 0.6, kneeY);
+      ctx.lineTo(-legSpread, hipY + legLength);
+      ctx.stroke();
+
+      // Right leg with knee
+      ctx.beginPath();
+      ctx.moveTo(0, hipY);
+      ctx.lineTo(legSpread * 0.6, kneeY);
+      ctx.lineTo(legSpread, hipY + legLength);
+      ctx.stroke();
+    }
+
+    // Feet
+    ctx.fillStyle = '#000';
+    if (player.isDancing) {
+      const dancePhase = (player.danceTimer / 60) * Math.PI * 4;
+      const leftLegSpread = 8 + Math.sin(dancePhase) * 10;
+      const rightLegSpread = 8 + Math.sin(dancePhase + Math.PI) * 10;
+      ctx.beginPath();
+      ctx.ellipse(-leftLegSpread, hipY + legLength, 3, 2, 0, 0, Math.PI * 2);
+      ctx.ellipse(rightLegSpread, hipY + legLength, 3, 2, 0, 0, Math.PI * 2);
+      ctx.fill();
+    } else {
+      const legSpread = isFallingFast ? 5 : 6 * player.umbrellaAnim;
+      ctx.beginPath();
+      ctx.ellipse(-legSpread, hipY + legLength, 3, 2, 0, 0, Math.PI * 2);
+      ctx.ellipse(legSpread, hipY + legLength, 3, 2, 0, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    // Umbrella (with bounce effect) - Enhanced Design
+    // Apply bounce scale
+    ctx.save();
+    ctx.scale(player.umbrellaBounce, player.umbrellaBounce);
+
+    const handleY = -35;
+    const stickLength = 32;
+    const tipY = handleY - stickLength;
+
+    // Umbrella stick/shaft with gradient
+    const stickGradient = ctx.createLinearGradient(0, handleY, 0, tipY);
+    stickGradient.addColorStop(0, '#8b5cf6'); // Purple handle
+    stickGradient.addColorStop(0.3, '#7c3aed');
+    stickGradient.addColorStop(1, '#6d28d9'); // Darker tip
+    ctx.strokeStyle = stickGradient;
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(0, handleY);
+    ctx.lineTo(0, tipY);
+    ctx.stroke();
+
+    // Umbrella handle curve
+    ctx.strokeStyle = '#8b5cf6';
+    ctx.lineWidth = 2.5;
+    ctx.beginPath();
+    ctx.arc(0, handleY, 4, Math.PI, Math.PI * 2);
+    ctx.stroke();
+
+    const maxRadius = 40;
+    const minRadius = 5;
+    const currentRadius = minRadius + (maxRadius - minRadius) * player.umbrellaAnim;
+
+    const openCornerY = tipY;
+    const closedCornerY = tipY + 25;
+    const currentCornerY = closedCornerY - (closedCornerY - openCornerY) * player.umbrellaAnim;
+
+    // Broken umbrella animation
+    if (player.umbrellaIsBroken && player.umbrellaAnim > 0.3) {
+      // Draw torn/broken umbrella
+      ctx.save();
+      const breakShake = Math.sin(player.brokenTimer * 0.5) * 3;
+
+      // Left side (bent)
+      ctx.beginPath();
+      ctx.moveTo(0, tipY);
+      ctx.quadraticCurveTo(
+        -currentRadius / 2 + breakShake, tipY - (10 * player.umbrellaAnim) + breakShake,
+        -currentRadius + breakShake, currentCornerY + 10
+      );
+      ctx.strokeStyle = '#b91c1c';
+      ctx.fillStyle = '#ef4444';
+      ctx.fill();
+      ctx.stroke();
+
+      // Right side (bent opposite direction)
+      ctx.beginPath();
+      ctx.moveTo(0, tipY);
+      ctx.quadraticCurveTo(
+        currentRadius / 2 - breakShake, tipY - (10 * player.umbrellaAnim) - breakShake,
+        currentRadius - breakShake, currentCornerY + 10
+      );
+      ctx.fill();
+      ctx.stroke();
+
+      // Rips/tears (jagged lines)
+      ctx.strokeStyle = '#7f1d1d';
+      ctx.lineWidth = 2;
+      for (let i = 0; i < 3; i++) {
+        ctx.beginPath();
+        ctx.moveTo(-currentRadius / 2 + i * 10, tipY + i * 5);
+        ctx.lineTo(-currentRadius / 2 + i * 10 + 5, tipY + i * 5 + 10);
+        ctx.stroke();
+      }
+
+      ctx.restore();
+    } else {
+      // Normal umbrella with enhanced design
+      const archHeight = 12 * player.umbrellaAnim;
+
+      // Umbrella canopy with gradient
+      const canopyGradient = ctx.createRadialGradient(0, tipY - archHeight * 0.5, 0, 0, tipY - archHeight * 0.5, currentRadius);
+      canopyGradient.addColorStop(0, '#fca5a5'); // Light red center
+      canopyGradient.addColorStop(0.5, '#ef4444'); // Bright red
+      canopyGradient.addColorStop(1, '#b91c1c'); // Dark red edge
+
+      ctx.fillStyle = canopyGradient;
+      ctx.strokeStyle = '#991b1b';
+      ctx.lineWidth = 2;
+
+      // Draw main canopy shape
+      ctx.beginPath();
+      ctx.moveTo(0, tipY);
+      ctx.quadraticCurveTo(
+        -currentRadius / 2, tipY - archHeight,
+        -currentRadius, currentCornerY
+      );
+      ctx.lineTo(currentRadius, currentCornerY);
+      ctx.quadraticCurveTo(
+        currentRadius / 2, tipY - archHeight,
+        0, tipY
+      );
+      ctx.fill();
+      ctx.stroke();
+
+      // Umbrella ribs/segments for detail (only when open enough)
+      if (player.umbrellaAnim > 0.5) {
+        ctx.strokeStyle = '#7f1d1d';
+        ctx.lineWidth = 1.5;
+        const numRibs = 6;
+        for (let i = 0; i < numRibs; i++) {
+          const angle = (i / (numRibs - 1)) * Math.PI;
+          const ribX = Math.cos(angle - Math.PI / 2) * currentRadius;
+          const ribY = currentCornerY + Math.sin(angle - Math.PI / 2) * archHeight;
+
+          ctx.beginPath();
+          ctx.moveTo(0, tipY);
+          ctx.lineTo(ribX, ribY);
+          ctx.stroke();
+        }
+      }
+
+      // Decorative edge trim
+      if (player.umbrellaAnim > 0.8) {
+        ctx.strokeStyle = '#fef3c7';
+        ctx.lineWidth = 2;
+        ctx.save();
+        ctx.globalAlpha *= 0.6; // Relative, so the ghost stays translucent
+        ctx.beginPath();
+        ctx.moveTo(-currentRadius, currentCornerY);
+        ctx.lineTo(currentRadius, currentCornerY);
+        ctx.stroke();
+        ctx.restore();
+      }
+    }
+
+    ctx.restore();
+  };
+
+  // alpha = fraction of a tick elapsed since the latest update (0-1), used to interpolate motion
+  const draw = useCallback((ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, alpha: number) => {
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    // --- SCREEN SCALE CALCULATION (for HUD elements) ---
+    const scaleX = canvas.width / REFERENCE_WIDTH;
+    const scaleY = canvas.height / REFERENCE_HEIGHT;
+    const scale = Math.min(scaleX, scaleY);
+
+    // --- WORLD STATE ---
+    const world = simRef.current ? simRef.current.getState() : null;
+    const score = world ? world.score : 0;
+    const windZones = world ? world.windZones : [];
+    const obstacles = world ? world.obstacles : [];
+    const powerUps = world ? world.powerUps : [];
+    const coins = world ? world.coins : [];
+    const activePowerUps = world ? world.activePowerUps : [];
+    const activeWind = world ? world.activeWind : { x: 0, y: 0 };
+    const fit = getWorldFit(canvas);
+
+    // --- APPLY SCREEN SHAKE ---
     ctx.save();
     if (shakeRef.current > 0) {
         const dx = (Math.random() - 0.5) * shakeRef.current;
@@ -1156,13 +1172,20 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     }
 
     // Background Gradient based on score (Depth) and Dark Mode
-    const depth = scoreRef.current / 10;
+    const depth = score / 10;
     // Recalculate difficulty for rendering
-    const difficulty = Math.min(Math.max(0, scoreRef.current - 200) / 5000, 1);
+    const difficulty = Math.min(Math.max(0, score - 200) / 5000, 1);
 
     let bgGradient;
-
-    if (isDarkMode) {
+    const theme = getLevelTheme();
+
+    if (theme) {
+      // Challenge level - the theme's own sky
+      const [top, bottom] = THEME_DEFINITIONS[theme].sky;
+      bgGradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
+      bgGradient.addColorStop(0, top);
+      bgGradient.addColorStop(1, bottom);
+    } else if (isDarkMode) {
       // Night Mode - Always dark sky with stars
       if (depth < 1000) {
         bgGradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
@@ -1225,6 +1248,11 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.restore(); // Restore state after each element
     });
 
+    // Everything below lives in world space (letterboxed if the canvas was resized mid-run)
+    ctx.save();
+    ctx.translate(fit.offsetX, fit.offsetY);
+    ctx.scale(fit.scale, fit.scale);
+
     // Draw Speed Lines, Gusts, and RAIN (Behind everything)
     particlesRef.current.forEach(p => {
         if (p.type === 'SPEED_LINE' || p.type === 'GUST' || p.type === 'RAIN') {
@@ -1259,8 +1287,99 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         }
     });
 
+    // World entities scroll every tick - draw them where they are between the last two ticks
+    const isSimulating = world !== null && gameState === GameState.PLAYING && !isPaused;
+    const scrollOffset = isSimulating && world ? world.distanceTraveled * WORLD_SCROLL_FACTOR * (1 - alpha) : 0;
+    ctx.save();
+    ctx.translate(0, scrollOffset);
+
     // --- DRAW WIND ZONES ---
-    windZonesRef.current.forEach(zone => {
+    windZones.forEach(zone => {
+        if (zone.kind === 'VORTEX') {
+            // Spiral arms turning with the wind
+            const cx = zone.x + zone.width / 2;
+            const cy = zone.y + zone.height / 2;
+            const radius = Math.min(zone.width, zone.height) / 2;
+            const spin = frameCountRef.current * 0.03 * Math.sign(zone.vx);
+            ctx.save();
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.18)';
+            ctx.lineWidth = 3;
+            for (let arm = 0; arm < 4; arm++) {
+                const start = spin + (arm / 4) * Math.PI * 2;
+                ctx.beginPath();
+                for (let t = 0; t <= 1; t += 0.05) {
+                    const angle = start + t * Math.PI * 1.5 * Math.sign(zone.vx);
+                    const r = radius * (0.15 + t * 0.85);
+                    if (t === 0) ctx.moveTo(cx + Math.cos(angle) * r, cy + Math.sin(angle) * r);
+                    else ctx.lineTo(cx + Math.cos(angle) * r, cy + Math.sin(angle) * r);
+                }
+                ctx.stroke();
+            }
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.06)';
+            ctx.beginPath();
+            ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+            ctx.stroke();
+            ctx.restore();
+            return;
+        }
+
+        if (zone.kind === 'UPDRAFT') {
+            // Rising streaks - brighter, longer and faster toward the centre line
+            const dir = Math.sign(zone.vy) || -1;
+            const centerX = zone.x + zone.width / 2;
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(zone.x, zone.y, zone.width, zone.height);
+            ctx.clip();
+            ctx.lineWidth = 2;
+            for (let x = zone.x + 15; x < zone.x + zone.width; x += 30) {
+                const offset = (x - centerX) / (zone.width / 2);
+                const strength = Math.max(0, 1 - offset * offset);
+                const length = 10 + 30 * strength;
+                const spacing = 60;
+                const move = (frameCountRef.current * (1 + 4 * strength)) % spacing;
+                ctx.strokeStyle = `rgba(255, 255, 255, ${0.04 + 0.22 * strength})`;
+                for (let y = zone.y - spacing; y < zone.y + zone.height + spacing; y += spacing) {
+                    const drawY = y + dir * move + ((x / 30) % 2) * 25;
+                    ctx.beginPath();
+                    ctx.moveTo(x, drawY);
+                    ctx.lineTo(x, drawY + length * dir);
+                    ctx.stroke();
+                }
+            }
+            ctx.restore();
+            return;
+        }
+
+        if (zone.kind === 'OSCILLATING') {
+            // Streamlines sway with the cycle; the tint warms while the push is reversed
+            const tick = world ? world.tick : 0;
+            const phase = getWindZonePhase(zone, tick);
+            const dir = Math.sign(zone.vx * phase);
+            const sway = zone.period ? Math.sin((2 * Math.PI * tick) / zone.period) * 40 : 0;
+            const length = 5 + 20 * Math.abs(phase);
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(zone.x, zone.y, zone.width, zone.height);
+            ctx.clip();
+            ctx.fillStyle = phase >= 0 ? 'rgba(255, 255, 255, 0.03)' : 'rgba(251, 191, 36, 0.05)';
+            ctx.fill();
+            ctx.strokeStyle = phase >= 0 ? 'rgba(255, 255, 255, 0.18)' : 'rgba(253, 230, 138, 0.22)';
+            ctx.lineWidth = 2;
+            for (let y = zone.y; y < zone.y + zone.height; y += 30) {
+                const rowShift = (y % 60 === 0) ? 0 : 20;
+                for (let x = zone.x - 40; x < zone.x + zone.width + 40; x += 40) {
+                    const drawX = x + sway * Math.sign(zone.vx) + rowShift;
+                    ctx.beginPath();
+                    ctx.moveTo(drawX, y);
+                    ctx.lineTo(drawX + length * dir, y);
+                    ctx.stroke();
+                }
+            }
+            ctx.restore();
+            return;
+        }
+
         ctx.save();
         ctx.beginPath();
         ctx.rect(zone.x, zone.y, zone.width, zone.height);
@@ -1317,544 +1436,363 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.strokeRect(zone.x, zone.y, zone.width, zone.height);
     });
 
-    // Draw Obstacles
-    obstaclesRef.current.forEach(obs => {
-      ctx.fillStyle = obs.type === 'BUILDING' ? '#374151' : obs.type === 'BIRD' ? '#ef4444' : '#f3f4f6';
-      
-      if (obs.type === 'CLOUD') {
-        // Draw cloud that scales with width/height
-        const cloudScale = obs.width / 100; // Scale based on original 100 width
-        ctx.beginPath();
-        ctx.arc(obs.x + 20 * cloudScale, obs.y + 20 * cloudScale, 20 * cloudScale, 0, Math.PI * 2);
-        ctx.arc(obs.x + 50 * cloudScale, obs.y + 10 * cloudScale, 30 * cloudScale, 0, Math.PI * 2);
-        ctx.arc(obs.x + 80 * cloudScale, obs.y + 20 * cloudScale, 20 * cloudScale, 0, Math.PI * 2);
-        ctx.fill();
-      } else if (obs.type === 'BIRD') {
-        // Draw bird that properly scales with width/height
-        const wingHeight = obs.height / 2; // Wing curve scales with height
-        ctx.beginPath();
-        ctx.moveTo(obs.x, obs.y);
-        ctx.quadraticCurveTo(obs.x + obs.width/2, obs.y - wingHeight, obs.x + obs.width, obs.y);
-        ctx.quadraticCurveTo(obs.x + obs.width/2, obs.y + wingHeight, obs.x, obs.y);
-        ctx.fill();
-      } else {
-        ctx.fillRect(obs.x, obs.y, obs.width, obs.height);
-        if (obs.type === 'BUILDING') {
-            ctx.fillStyle = '#facc15';
-            for(let bx = 10; bx < obs.width; bx += 30) {
-                for(let by = 10; by < obs.height; by += 40) {
-                    if (Math.random() > 0.3) ctx.fillRect(obs.x + bx, obs.y + by, 15, 25);
-                }
-            }
-        }
-      }
-    });
-
-    // Draw Power-Ups
-    powerUpsRef.current.forEach(powerUp => {
-      if (powerUp.collected) return;
-
-      // Pulsing animation
-      const pulse = Math.sin(frameCountRef.current * 0.1) * 0.2 + 1;
-
-      // Color and emoji based on type
-      let color, emoji;
-      switch (powerUp.type) {
-        case 'SLOW_MOTION':
-          color = '#60a5fa'; // Blue
-          emoji = '⏱️';
-          break;
-        case 'SHIELD':
-          color = '#fbbf24'; // Gold
-          emoji = '🛡️';
-          break;
-        case 'WIND_BREAKER':
-          color = '#34d399'; // Green
-          emoji = '🌪️';
-          break;
-        case 'SUPER_GLIDE':
-          color = '#f87171'; // Red
-          emoji = '⬆️';
-          break;
-      }
-
-      // Draw glow
-      ctx.save();
-      ctx.globalAlpha = 0.3 * pulse;
-      ctx.fillStyle = color;
-      ctx.beginPath();
-      ctx.arc(powerUp.x + powerUp.width / 2, powerUp.y + powerUp.height / 2, powerUp.width * 0.8 * pulse, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.restore();
-
-      // Draw circle
-      ctx.fillStyle = color;
-      ctx.strokeStyle = '#ffffff';
-      ctx.lineWidth = 3;
-      ctx.beginPath();
-      ctx.arc(powerUp.x + powerUp.width / 2, powerUp.y + powerUp.height / 2, powerUp.width / 2, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.stroke();
-
-      // Draw icon/emoji (simplified - using text)
-      ctx.fillStyle = '#000000';
-      ctx.font = 'bold 20px sans-serif';
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      ctx.fillText(emoji, powerUp.x + powerUp.width / 2, powerUp.y + powerUp.height / 2);
-    });
-
-    // Draw Coins
-    coinsRef.current.forEach(coin => {
-      if (coin.collected) return;
-
-      ctx.save();
-      ctx.translate(coin.x + coin.width / 2, coin.y + coin.height / 2);
-
-      // 3D spinning effect (scale with sin)
-      const scale = Math.abs(Math.cos(coin.spin));
-
-      // Outer glow
-      ctx.globalAlpha = 0.4;
-      ctx.fillStyle = '#fbbf24';
-      ctx.beginPath();
-      ctx.arc(0, 0, coin.width * 0.7, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.globalAlpha = 1;
-
-      // Coin body
-      ctx.fillStyle = '#fbbf24';
-      ctx.strokeStyle = '#f59e0b';
-      ctx.lineWidth = 2;
-      ctx.beginPath();
-      ctx.ellipse(0, 0, coin.width / 2 * scale, coin.height / 2, 0, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.stroke();
-
-      // Inner circle detail
-      ctx.strokeStyle = '#f59e0b';
-      ctx.lineWidth = 1.5;
-      ctx.beginPath();
-      ctx.ellipse(0, 0, coin.width / 3 * scale, coin.height / 3, 0, 0, Math.PI * 2);
-      ctx.stroke();
-
-      // Dollar sign or symbol
-      if (scale > 0.3) {
-        ctx.fillStyle = '#d97706';
-        ctx.font = `bold ${16 * scale}px sans-serif`;
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-        ctx.fillText('$', 0, 0);
-      }
-
-      ctx.restore();
-    });
-
-    // Draw Player
-    const player = playerRef.current;
-
-    ctx.save();
-    ctx.translate(player.x, player.y);
-
-    // Apply spin rotation if spinning
-    if (player.isSpinning || player.spinRotation !== 0) {
-      ctx.rotate(player.spinRotation);
-    } else {
-      ctx.rotate(player.angle);
-    }
-
-    // Stickman Body - Enhanced Design
-    ctx.strokeStyle = '#000';
-    ctx.lineWidth = 3;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-
-    // "Oops" falling animation - flailing limbs when falling fast without umbrella
-    const isFallingFast = player.vy > 12 && !player.isUmbrellaOpen;
-    const flailOffset = isFallingFast ? Math.sin(frameCountRef.current * 0.3) * 10 : 0;
-
-    // Head - Improved design with better proportions
-    ctx.beginPath();
-    ctx.arc(0, -30, 12, 0, Math.PI * 2);
-    const headGradient = ctx.createRadialGradient(0, -30, 0, 0, -30, 12);
-    headGradient.addColorStop(0, '#fcd34d'); // Brighter yellow center
-    headGradient.addColorStop(1, '#f59e0b'); // Darker yellow edge
-    ctx.fillStyle = headGradient;
-    ctx.fill();
-    ctx.strokeStyle = '#92400e';
-    ctx.lineWidth = 2;
-    ctx.stroke();
-
-    // Hair - Simple spiky style
-    ctx.strokeStyle = '#92400e';
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-    ctx.moveTo(-8, -38);
-    ctx.lineTo(-10, -42);
-    ctx.moveTo(-3, -40);
-    ctx.lineTo(-3, -44);
-    ctx.moveTo(3, -40);
-    ctx.lineTo(3, -44);
-    ctx.moveTo(8, -38);
-    ctx.lineTo(10, -42);
-    ctx.stroke();
+    // Draw Obstacles (the theme picks the sprite, the behaviour picks the hitbox)
+    const obstacleSprites = theme ? THEME_DEFINITIONS[theme].obstacleSprites : DEFAULT_OBSTACLE_SPRITES;
+    obstacles.forEach(obs => {
+      const sprite = obstacleSprites[obs.type];
+      ctx.fillStyle = sprite === 'BUILDING' ? '#374151' : sprite === 'BIRD' ? '#ef4444' : '#f3f4f6';
 
-    // Eyes - Animated based on state
-    if (isFallingFast) {
-      // Wide worried eyes
-      ctx.fillStyle = '#000';
-      ctx.beginPath();
-      ctx.arc(-4, -32, 3, 0, Math.PI * 2);
-      ctx.arc(4, -32, 3, 0, Math.PI * 2);
-      ctx.fill();
+      if (obs.behavior === 'SCRAP') {
+        // Shred of a popped balloon, tumbling as it falls away
+        ctx.save();
+        ctx.translate(obs.x + obs.width / 2, obs.y + obs.height / 2);
+        ctx.rotate(obs.timer * 0.2);
+        ctx.fillStyle = '#f472b6';
+        ctx.beginPath();
+        ctx.moveTo(-obs.width / 2, -obs.height / 3);
+        ctx.lineTo(obs.width / 2, 0);
+        ctx.lineTo(-obs.width / 4, obs.height / 2);
+        ctx.closePath();
+        ctx.fill();
+        ctx.restore();
+        return;
+      }
 
-      // White scared highlights (smaller, more subtle)
-      ctx.fillStyle = '#fff';
-      ctx.beginPath();
-      ctx.arc(-3, -33, 1, 0, Math.PI * 2);
-      ctx.arc(5, -33, 1, 0, Math.PI * 2);
-      ctx.fill();
-    } else if (player.isUmbrellaOpen) {
-      // Calm eyes
-      ctx.fillStyle = '#000';
-      ctx.beginPath();
-      ctx.arc(-4, -31, 2, 0, Math.PI * 2);
-      ctx.arc(4, -31, 2, 0, Math.PI * 2);
-      ctx.fill();
-    } else {
-      // Normal eyes with blink animation
-      const blinkPhase = frameCountRef.current % 200;
-      if (blinkPhase < 5) {
-        // Blinking - draw lines instead of circles
-        ctx.strokeStyle = '#000';
+      if (sprite === 'PLANE' && obs.timer > 0) {
+        // Still off screen - blink a warning at the edge it will come from
+        if (Math.floor(obs.timer / 8) % 2 === 0) {
+          const edgeX = obs.speedX > 0 ? 0 : (simRef.current ? simRef.current.config.width : canvas.width);
+          const dir = obs.speedX > 0 ? 1 : -1;
+          const cy = obs.y + obs.height / 2;
+          ctx.save();
+          ctx.fillStyle = 'rgba(239, 68, 68, 0.9)';
+          ctx.beginPath();
+          ctx.moveTo(edgeX + dir * 10, cy - 22);
+          ctx.lineTo(edgeX + dir * 44, cy);
+          ctx.lineTo(edgeX + dir * 10, cy + 22);
+          ctx.closePath();
+          ctx.fill();
+          ctx.font = 'bold 28px sans-serif';
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillText('✈️', edgeX + dir * 72, cy);
+          ctx.restore();
+        }
+        return;
+      }
+
+      if (sprite === 'CLOUD' || sprite === 'STORM_CLOUD') {
+        // Draw cloud that scales with width/height
+        const cloudScale = obs.width / 100; // Scale based on original 100 width
+        if (sprite === 'STORM_CLOUD') ctx.fillStyle = '#475569';
+        ctx.beginPath();
+        ctx.arc(obs.x + 20 * cloudScale, obs.y + 20 * cloudScale, 20 * cloudScale, 0, Math.PI * 2);
+        ctx.arc(obs.x + 50 * cloudScale, obs.y + 10 * cloudScale, 30 * cloudScale, 0, Math.PI * 2);
+        ctx.arc(obs.x + 80 * cloudScale, obs.y + 20 * cloudScale, 20 * cloudScale, 0, Math.PI * 2);
+        ctx.fill();
+        if (sprite === 'STORM_CLOUD') {
+          // Dark underside
+          ctx.fillStyle = 'rgba(15, 23, 42, 0.5)';
+          ctx.beginPath();
+          ctx.ellipse(obs.x + 50 * cloudScale, obs.y + 32 * cloudScale, 42 * cloudScale, 10 * cloudScale, 0, 0, Math.PI * 2);
+          ctx.fill();
+        }
+      } else if (sprite === 'BIRD') {
+        // Draw bird that properly scales with width/height (wings tucked once it swoops)
+        const wingHeight = obs.height / 2; // Wing curve scales with height
+        const isDiving = obs.behavior === 'SWOOP' && obs.timer > 0;
+        const left = isDiving ? obs.x + obs.width / 4 : obs.x;
+        const span = isDiving ? obs.width / 2 : obs.width;
+        ctx.beginPath();
+        ctx.moveTo(left, obs.y);
+        ctx.quadraticCurveTo(left + span/2, obs.y - wingHeight, left + span, obs.y);
+        ctx.quadraticCurveTo(left + span/2, obs.y + wingHeight, left, obs.y);
+        ctx.fill();
+      } else if (sprite === 'PLANE') {
+        // Side-on airliner pointing the way it flies
+        const dir = obs.speedX >= 0 ? 1 : -1;
+        ctx.save();
+        ctx.translate(obs.x + obs.width / 2, obs.y + obs.height / 2);
+        ctx.scale(dir, 1);
+        const w = obs.width / 2;
+        const h = obs.height / 2;
+        ctx.fillStyle = '#e5e7eb';
+        ctx.beginPath();
+        ctx.ellipse(0, 0, w, h * 0.3, 0, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = '#9ca3af';
+        ctx.beginPath();
+        ctx.moveTo(-w * 0.3, 0);
+        ctx.lineTo(w * 0.1, 0);
+        ctx.lineTo(-w * 0.2, h);
+        ctx.closePath();
+        ctx.moveTo(-w * 0.95, 0);
+        ctx.lineTo(-w * 0.7, 0);
+        ctx.lineTo(-w * 0.95, -h);
+        ctx.closePath();
+        ctx.fill();
+        ctx.fillStyle = '#60a5fa';
+        for (let k = 0; k < 6; k++) ctx.fillRect(-w * 0.3 + k * w * 0.15, -h * 0.1, w * 0.07, h * 0.12);
+        ctx.restore();
+      } else if (sprite === 'ASTEROID') {
+        // Lumpy rock tumbling in the direction it drifts
+        const cx = obs.x + obs.width / 2;
+        const cy = obs.y + obs.height / 2;
+        const radius = Math.min(obs.width, obs.height) / 2;
+        const seed = obs.id.charCodeAt(obs.id.length - 1);
+        ctx.save();
+        ctx.translate(cx, cy);
+        ctx.rotate(frameCountRef.current * 0.02 * (obs.speedX >= 0 ? 1 : -1) + seed);
+        ctx.fillStyle = '#78716c';
+        ctx.beginPath();
+        for (let k = 0; k < 9; k++) {
+          const angle = (k / 9) * Math.PI * 2;
+          const r = radius * (0.8 + 0.2 * Math.sin(seed + k * 2.3));
+          if (k === 0) ctx.moveTo(Math.cos(angle) * r, Math.sin(angle) * r);
+          else ctx.lineTo(Math.cos(angle) * r, Math.sin(angle) * r);
+        }
+        ctx.closePath();
+        ctx.fill();
+        ctx.fillStyle = '#57534e';
+        ctx.beginPath();
+        ctx.arc(radius * 0.3, -radius * 0.2, radius * 0.2, 0, Math.PI * 2);
+        ctx.arc(-radius * 0.35, radius * 0.3, radius * 0.14, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.restore();
+      } else if (sprite === 'DEBRIS') {
+        // Spinning plank torn off a roof
+        ctx.save();
+        ctx.translate(obs.x + obs.width / 2, obs.y + obs.height / 2);
+        ctx.rotate(frameCountRef.current * 0.08);
+        ctx.fillStyle = '#92400e';
+        ctx.fillRect(-obs.height / 2, -obs.width / 6, obs.height, obs.width / 3);
+        ctx.restore();
+      } else if (sprite === 'BALLOON') {
+        // Round envelope on a string
+        const cx = obs.x + obs.width / 2;
+        ctx.strokeStyle = '#9ca3af';
         ctx.lineWidth = 2;
-        ctx.lineCap = 'round';
         ctx.beginPath();
-        ctx.moveTo(-6, -31);
-        ctx.lineTo(-2, -31);
-        ctx.moveTo(2, -31);
-        ctx.lineTo(6, -31);
+        ctx.moveTo(cx, obs.y + obs.height * 0.7);
+        ctx.lineTo(cx, obs.y + obs.height);
         ctx.stroke();
-      } else {
-        ctx.fillStyle = '#000';
+        ctx.fillStyle = '#f472b6';
         ctx.beginPath();
-        ctx.arc(-4, -31, 2, 0, Math.PI * 2);
-        ctx.arc(4, -31, 2, 0, Math.PI * 2);
+        ctx.ellipse(cx, obs.y + obs.height * 0.35, obs.width / 2, obs.height * 0.35, 0, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
+        ctx.beginPath();
+        ctx.ellipse(cx - obs.width * 0.18, obs.y + obs.height * 0.22, obs.width * 0.1, obs.height * 0.08, -0.5, 0, Math.PI * 2);
         ctx.fill();
+      } else {
+        ctx.fillRect(obs.x, obs.y, obs.width, obs.height);
+        if (sprite === 'BUILDING' && obs.ledges) {
+            ctx.fillStyle = '#6b7280';
+            obs.ledges.forEach(ledge => ctx.fillRect(obs.x + ledge.x, obs.y + ledge.y, ledge.width, ledge.height));
+        }
+        if (sprite === 'BUILDING') {
+            ctx.fillStyle = '#facc15';
+            for(let bx = 10; bx < obs.width; bx += 30) {
+                for(let by = 10; by < obs.height; by += 40) {
+                    if (Math.random() > 0.3) ctx.fillRect(obs.x + bx, obs.y + by, 15, 25);
+                }
+            }
+        }
       }
-    }
+    });
 
-    // Mouth - expression based on state
-    ctx.strokeStyle = '#000';
-    ctx.lineWidth = 1.5;
-    ctx.beginPath();
-    if (isFallingFast) {
-      // Open mouth (scared)
-      ctx.arc(0, -26, 3, 0, Math.PI);
-    } else if (player.isUmbrellaOpen) {
-      // Slight smile
-      ctx.arc(0, -27, 2, 0.2, Math.PI - 0.2);
-    } else {
-      // Neutral
-      ctx.moveTo(-3, -26);
-      ctx.lineTo(3, -26);
+    if (showHitboxes) {
+      ctx.save();
+      ctx.strokeStyle = '#f87171';
+      ctx.lineWidth = 2;
+      obstacles.forEach(obs => getObstacleShapes(obs, obstacleSprites[obs.type]).forEach(shape => strokeCollisionShape(ctx, shape)));
+      ctx.restore();
     }
-    ctx.stroke();
-
-    // Body - Improved with torso
-    ctx.strokeStyle = '#000';
-    ctx.lineWidth = 4;
-    ctx.beginPath();
-    ctx.moveTo(0, -18);
-    ctx.lineTo(0, 0); // Torso
-    ctx.stroke();
-
-    // Shoulders/chest detail
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-    ctx.arc(0, -15, 8, 0.3, Math.PI - 0.3); // Chest/shoulder line
-    ctx.stroke();
-
-    // Arms - Enhanced with joints and smoother motion
-    ctx.strokeStyle = '#000';
-    ctx.lineWidth = 3;
-    ctx.lineCap = 'round';
-    const shoulderY = -15;
-
-    if (player.isDancing) {
-      // Dance animation - arms waving enthusiastically
-      const dancePhase = (player.danceTimer / 60) * Math.PI * 4;
-      const leftArmAngle = Math.sin(dancePhase) * 0.8;
-      const rightArmAngle = Math.sin(dancePhase + Math.PI) * 0.8;
-
-      // Left arm
-      ctx.beginPath();
-      ctx.moveTo(0, shoulderY);
-      const leftElbowX = -12 * Math.cos(leftArmAngle);
-      const leftElbowY = shoulderY + 8 + 8 * Math.sin(leftArmAngle);
-      ctx.lineTo(leftElbowX, leftElbowY);
-      ctx.lineTo(leftElbowX - 10, leftElbowY - 12);
-      ctx.stroke();
 
-      // Right arm
-      ctx.beginPath();
-      ctx.moveTo(0, shoulderY);
-      const rightElbowX = 12 * Math.cos(rightArmAngle);
-      const rightElbowY = shoulderY + 8 + 8 * Math.sin(rightArmAngle);
-      ctx.lineTo(rightElbowX, rightElbowY);
-      ctx.lineTo(rightElbowX + 10, rightElbowY - 12);
-      ctx.stroke();
-    } else if (isFallingFast) {
-      // Flailing arms with elbow joints
-      ctx.beginPath();
-      ctx.moveTo(0, shoulderY);
-      ctx.lineTo(-12 - flailOffset, shoulderY - 5);
-      ctx.lineTo(-18 - flailOffset * 1.5, shoulderY + 5 + flailOffset);
-      ctx.moveTo(0, shoulderY);
-      ctx.lineTo(12 + flailOffset, shoulderY - 5);
-      ctx.lineTo(18 + flailOffset * 1.5, shoulderY + 5 - flailOffset);
-      ctx.stroke();
-    } else {
-      // Normal arms holding umbrella - smooth raising motion
-      const armY = shoulderY - (20 * player.umbrellaAnim);
-      const armXOffset = 12;
-      const elbowY = shoulderY + (armY - shoulderY) * 0.5;
+    // Draw Power-Ups
+    powerUps.forEach(powerUp => {
+      if (powerUp.collected) return;
 
-      // Left arm with elbow
-      ctx.beginPath();
-      ctx.moveTo(0, shoulderY);
-      ctx.lineTo(-armXOffset * 0.7, elbowY);
-      ctx.lineTo(-armXOffset, armY);
-      ctx.stroke();
+      // Pulsing animation
+      const pulse = Math.sin(frameCountRef.current * 0.1) * 0.2 + 1;
 
-      // Right arm with elbow
-      ctx.beginPath();
-      ctx.moveTo(0, shoulderY);
-      ctx.lineTo(armXOffset * 0.7, elbowY);
-      ctx.lineTo(armXOffset, armY);
-      ctx.stroke();
-    }
+      const { color, icon: emoji } = POWER_UP_DEFINITIONS[powerUp.type];
 
-    // Hands holding umbrella
-    if (player.umbrellaAnim > 0.5 && !player.isDancing) {
-      ctx.fillStyle = '#fcd34d';
+      // Draw glow
+      ctx.save();
+      ctx.globalAlpha = 0.3 * pulse;
+      ctx.fillStyle = color;
       ctx.beginPath();
-      ctx.arc(-12, shoulderY - (20 * player.umbrellaAnim), 3, 0, Math.PI * 2);
-      ctx.arc(12, shoulderY - (20 * player.umbrellaAnim), 3, 0, Math.PI * 2);
+      ctx.arc(powerUp.x + powerUp.width / 2, powerUp.y + powerUp.height / 2, powerUp.width * 0.8 * pulse, 0, Math.PI * 2);
       ctx.fill();
-    }
-
-    // Legs - Enhanced with knee joints
-    ctx.strokeStyle = '#000';
-    ctx.lineWidth = 3;
-    const hipY = 0;
-    const legLength = 22;
-
-    if (player.isDancing) {
-      // Dance animation - legs kicking with knees
-      const dancePhase = (player.danceTimer / 60) * Math.PI * 4;
-      const leftLegSpread = 8 + Math.sin(dancePhase) * 10;
-      const rightLegSpread = 8 + Math.sin(dancePhase + Math.PI) * 10;
-
-      // Left leg with knee
-      ctx.beginPath();
-      ctx.moveTo(0, hipY);
-      const leftKneeY = hipY + legLength * 0.6;
-      ctx.lineTo(-leftLegSpread * 0.5, leftKneeY);
-      ctx.lineTo(-leftLegSpread, hipY + legLength);
-      ctx.stroke();
-
-      // Right leg with knee
-      ctx.beginPath();
-      ctx.moveTo(0, hipY);
-      const rightKneeY = hipY + legLength * 0.6;
-      ctx.lineTo(rightLegSpread * 0.5, rightKneeY);
-      ctx.lineTo(rightLegSpread, hipY + legLength);
-      ctx.stroke();
-    } else if (isFallingFast) {
-      // Legs flailing with dramatic knee bends
-      ctx.beginPath();
-      ctx.moveTo(0, hipY);
-      ctx.lineTo(-8 - flailOffset, hipY + 12);
-      ctx.lineTo(-5 - flailOffset * 1.5, hipY + legLength);
-      ctx.moveTo(0, hipY);
-      ctx.lineTo(8 + flailOffset, hipY + 12);
-      ctx.lineTo(5 + flailOffset * 1.5, hipY + legLength);
-      ctx.stroke();
-    } else {
-      // Normal legs with slight spread when umbrella opens
-      const legSpread = 6 * player.umbrellaAnim;
-      const kneeY = hipY + legLength * 0.55;
-
-      // Left leg with knee
-      ctx.beginPath();
-      ctx.moveTo(0, hipY);
-      ctx.lineTo(-legSpread * 0.6, kneeY);
-      ctx.lineTo(-legSpread, hipY + legLength);
-      ctx.stroke();
-
-      // Right leg with knee
-      ctx.beginPath();
-      ctx.moveTo(0, hipY);
-      ctx.lineTo(legSpread * 0.6, kneeY);
-      ctx.lineTo(legSpread, hipY + legLength);
-      ctx.stroke();
-    }
+      ctx.restore();
 
-    // Feet
-    ctx.fillStyle = '#000';
-    if (player.isDancing) {
-      const dancePhase = (player.danceTimer / 60) * Math.PI * 4;
-      const leftLegSpread = 8 + Math.sin(dancePhase) * 10;
-      const rightLegSpread = 8 + Math.sin(dancePhase + Math.PI) * 10;
-      ctx.beginPath();
-      ctx.ellipse(-leftLegSpread, hipY + legLength, 3, 2, 0, 0, Math.PI * 2);
-      ctx.ellipse(rightLegSpread, hipY + legLength, 3, 2, 0, 0, Math.PI * 2);
-      ctx.fill();
-    } else {
-      const legSpread = isFallingFast ? 5 : 6 * player.umbrellaAnim;
+      // Draw circle
+      ctx.fillStyle = color;
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 3;
       ctx.beginPath();
-      ctx.ellipse(-legSpread, hipY + legLength, 3, 2, 0, 0, Math.PI * 2);
-      ctx.ellipse(legSpread, hipY + legLength, 3, 2, 0, 0, Math.PI * 2);
+      ctx.arc(powerUp.x + powerUp.width / 2, powerUp.y + powerUp.height / 2, powerUp.width / 2, 0, Math.PI * 2);
       ctx.fill();
-    }
-
-    // Umbrella (with bounce effect) - Enhanced Design
-    // Apply bounce scale
-    ctx.save();
-    ctx.scale(player.umbrellaBounce, player.umbrellaBounce);
-
-    const handleY = -35;
-    const stickLength = 32;
-    const tipY = handleY - stickLength;
+      ctx.stroke();
 
-    // Umbrella stick/shaft with gradient
-    const stickGradient = ctx.createLinearGradient(0, handleY, 0, tipY);
-    stickGradient.addColorStop(0, '#8b5cf6'); // Purple handle
-    stickGradient.addColorStop(0.3, '#7c3aed');
-    stickGradient.addColorStop(1, '#6d28d9'); // Darker tip
-    ctx.strokeStyle = stickGradient;
-    ctx.lineWidth = 3;
-    ctx.lineCap = 'round';
-    ctx.beginPath();
-    ctx.moveTo(0, handleY);
-    ctx.lineTo(0, tipY);
-    ctx.stroke();
+      // Draw icon/emoji (simplified - using text)
+      ctx.fillStyle = '#000000';
+      ctx.font = 'bold 20px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(emoji, powerUp.x + powerUp.width / 2, powerUp.y + powerUp.height / 2);
+    });
 
-    // Umbrella handle curve
-    ctx.strokeStyle = '#8b5cf6';
-    ctx.lineWidth = 2.5;
-    ctx.beginPath();
-    ctx.arc(0, handleY, 4, Math.PI, Math.PI * 2);
-    ctx.stroke();
+    // Draw Coins
+    coins.forEach(coin => {
+      if (coin.collected) return;
 
-    const maxRadius = 40;
-    const minRadius = 5;
-    const currentRadius = minRadius + (maxRadius - minRadius) * player.umbrellaAnim;
+      ctx.save();
+      ctx.translate(coin.x + coin.width / 2, coin.y + coin.height / 2);
 
-    const openCornerY = tipY;
-    const closedCornerY = tipY + 25;
-    const currentCornerY = closedCornerY - (closedCornerY - openCornerY) * player.umbrellaAnim;
+      // 3D spinning effect (scale with sin)
+      const scale = Math.abs(Math.cos(coin.spin));
 
-    // Broken umbrella animation
-    if (player.umbrellaIsBroken && player.umbrellaAnim > 0.3) {
-      // Draw torn/broken umbrella
-      ctx.save();
-      const breakShake = Math.sin(player.brokenTimer * 0.5) * 3;
+      // Outer glow
+      ctx.globalAlpha = 0.4;
+      ctx.fillStyle = '#fbbf24';
+      ctx.beginPath();
+      ctx.arc(0, 0, coin.width * 0.7, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.globalAlpha = 1;
 
-      // Left side (bent)
+      // Coin body
+      ctx.fillStyle = '#fbbf24';
+      ctx.strokeStyle = '#f59e0b';
+      ctx.lineWidth = 2;
       ctx.beginPath();
-      ctx.moveTo(0, tipY);
-      ctx.quadraticCurveTo(
-        -currentRadius / 2 + breakShake, tipY - (10 * player.umbrellaAnim) + breakShake,
-        -currentRadius + breakShake, currentCornerY + 10
-      );
-      ctx.strokeStyle = '#b91c1c';
-      ctx.fillStyle = '#ef4444';
+      ctx.ellipse(0, 0, coin.width / 2 * scale, coin.height / 2, 0, 0, Math.PI * 2);
       ctx.fill();
       ctx.stroke();
 
-      // Right side (bent opposite direction)
+      // Inner circle detail
+      ctx.strokeStyle = '#f59e0b';
+      ctx.lineWidth = 1.5;
       ctx.beginPath();
-      ctx.moveTo(0, tipY);
-      ctx.quadraticCurveTo(
-        currentRadius / 2 - breakShake, tipY - (10 * player.umbrellaAnim) - breakShake,
-        currentRadius - breakShake, currentCornerY + 10
-      );
-      ctx.fill();
+      ctx.ellipse(0, 0, coin.width / 3 * scale, coin.height / 3, 0, 0, Math.PI * 2);
       ctx.stroke();
 
-      // Rips/tears (jagged lines)
-      ctx.strokeStyle = '#7f1d1d';
-      ctx.lineWidth = 2;
-      for (let i = 0; i < 3; i++) {
-        ctx.beginPath();
-        ctx.moveTo(-currentRadius / 2 + i * 10, tipY + i * 5);
-        ctx.lineTo(-currentRadius / 2 + i * 10 + 5, tipY + i * 5 + 10);
-        ctx.stroke();
+      // Dollar sign or symbol
+      if (scale > 0.3) {
+        ctx.fillStyle = '#d97706';
+        ctx.font = `bold ${16 * scale}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText('$', 0, 0);
       }
 
       ctx.restore();
-    } else {
-      // Normal umbrella with enhanced design
-      const archHeight = 12 * player.umbrellaAnim;
+    });
 
-      // Umbrella canopy with gradient
-      const canopyGradient = ctx.createRadialGradient(0, tipY - archHeight * 0.5, 0, 0, tipY - archHeight * 0.5, currentRadius);
-      canopyGradient.addColorStop(0, '#fca5a5'); // Light red center
-      canopyGradient.addColorStop(0.5, '#ef4444'); // Bright red
-      canopyGradient.addColorStop(1, '#b91c1c'); // Dark red edge
+    ctx.restore(); // Remove scroll interpolation offset
 
-      ctx.fillStyle = canopyGradient;
-      ctx.strokeStyle = '#991b1b';
-      ctx.lineWidth = 2;
+    // Draw Player
+    const player = world ? world.player : menuPlayerRef.current;
+    const prevPos = prevPlayerPosRef.current;
+    const renderX = isSimulating ? prevPos.x + (player.x - prevPos.x) * alpha : player.x;
+    const renderY = isSimulating ? prevPos.y + (player.y - prevPos.y) * alpha : player.y;
+
+    // Lightning warning columns and afterglow (behind the player)
+    const worldHeight = simRef.current ? simRef.current.config.height : canvas.height;
+    if (world) {
+        world.lightningStrikes.forEach(strike => {
+            const left = strike.x - strike.width / 2;
+            ctx.save();
+            if (strike.phase === 'WARNING') {
+                // Pulses faster as the strike gets closer
+                const pulse = 0.5 + 0.5 * Math.sin(frameCountRef.current * (0.2 + (1 - strike.ticksLeft / LIGHTNING_WARNING_TICKS) * 0.4));
+                ctx.fillStyle = `rgba(250, 204, 21, ${0.08 + pulse * 0.12})`;
+                ctx.fillRect(left, 0, strike.width, worldHeight);
+                ctx.strokeStyle = `rgba(250, 204, 21, ${0.4 + pulse * 0.4})`;
+                ctx.lineWidth = 2;
+                ctx.setLineDash([12, 10]);
+                ctx.strokeRect(left, -10, strike.width, worldHeight + 20);
+                ctx.setLineDash([]);
+                ctx.font = 'bold 28px sans-serif';
+                ctx.textAlign = 'center';
+                ctx.textBaseline = 'top';
+                ctx.fillText('⚡', strike.x, 12);
+            } else if (strike.phase === 'AFTERGLOW') {
+                const glow = ctx.createLinearGradient(left, 0, left + strike.width, 0);
+                const alpha = (strike.ticksLeft / LIGHTNING_AFTERGLOW_TICKS) * 0.35;
+                glow.addColorStop(0, 'rgba(254, 249, 195, 0)');
+                glow.addColorStop(0.5, `rgba(254, 249, 195, ${alpha})`);
+                glow.addColorStop(1, 'rgba(254, 249, 195, 0)');
+                ctx.fillStyle = glow;
+                ctx.fillRect(left, 0, strike.width, worldHeight);
+            }
+            ctx.restore();
+        });
+    }
 
-      // Draw main canopy shape
+    // Ghost racer (personal best) - follows its own recorded run, drawn behind the player
+    const ghostSim = ghostSimRef.current;
+    if (ghostSim && world && gameState === GameState.PLAYING && !ghostSim.getState().isOver) {
+      const ghostPos = getGhostScreenPos(ghostSim, world, alpha);
+      ctx.save();
+      ctx.globalAlpha = 0.35;
+      drawStickman(ctx, ghostSim.getState().player, ghostPos.x, ghostPos.y);
+      ctx.restore();
+    }
+
+    // Magnet range ring
+    const magnet = activePowerUps.find(p => p.type === 'MAGNET');
+    if (magnet && world && simRef.current) {
+      const range = getPowerUpModifiers([magnet], simRef.current.config.powerUpUpgrades).coinMagnetRange * scale;
+      ctx.save();
+      ctx.strokeStyle = POWER_UP_DEFINITIONS.MAGNET.color;
+      ctx.globalAlpha = 0.15 + 0.1 * Math.sin(frameCountRef.current * 0.15);
+      ctx.lineWidth = 3;
+      ctx.setLineDash([10, 14]);
+      ctx.lineDashOffset = -frameCountRef.current;
       ctx.beginPath();
-      ctx.moveTo(0, tipY);
-      ctx.quadraticCurveTo(
-        -currentRadius / 2, tipY - archHeight,
-        -currentRadius, currentCornerY
-      );
-      ctx.lineTo(currentRadius, currentCornerY);
-      ctx.quadraticCurveTo(
-        currentRadius / 2, tipY - archHeight,
-        0, tipY
-      );
-      ctx.fill();
+      ctx.arc(renderX, renderY, range, 0, Math.PI * 2);
       ctx.stroke();
+      ctx.restore();
+    }
 
-      // Umbrella ribs/segments for detail (only when open enough)
-      if (player.umbrellaAnim > 0.5) {
-        ctx.strokeStyle = '#7f1d1d';
-        ctx.lineWidth = 1.5;
-        const numRibs = 6;
-        for (let i = 0; i < numRibs; i++) {
-          const angle = (i / (numRibs - 1)) * Math.PI;
-          const ribX = Math.cos(angle - Math.PI / 2) * currentRadius;
-          const ribY = currentCornerY + Math.sin(angle - Math.PI / 2) * archHeight;
-
-          ctx.beginPath();
-          ctx.moveTo(0, tipY);
-          ctx.lineTo(ribX, ribY);
-          ctx.stroke();
-        }
-      }
+    // Blink while invulnerable after a hit
+    const isBlinking = !!world && world.health.invulnerableTicks > 0 && Math.floor(world.health.invulnerableTicks / 6) % 2 === 0;
+    ctx.save();
+    if (isBlinking) ctx.globalAlpha = 0.3;
+    drawStickman(ctx, player, renderX, renderY);
+    ctx.restore();
 
-      // Decorative edge trim
-      if (player.umbrellaAnim > 0.8) {
-        ctx.strokeStyle = '#fef3c7';
-        ctx.lineWidth = 2;
-        ctx.globalAlpha = 0.6;
-        ctx.beginPath();
-        ctx.moveTo(-currentRadius, currentCornerY);
-        ctx.lineTo(currentRadius, currentCornerY);
-        ctx.stroke();
-        ctx.globalAlpha = 1.0;
-      }
+    if (showHitboxes && world) {
+      ctx.save();
+      ctx.lineWidth = 2;
+      getPlayerShapes(player).forEach(part => {
+        ctx.strokeStyle = BODY_PART_COLORS[part.name];
+        strokeCollisionShape(ctx, part.shape);
+      });
+      ctx.restore();
     }
 
-    ctx.restore();
+    // Lightning bolts (drawn over the player)
+    if (world) {
+        world.lightningStrikes.forEach(strike => {
+            if (strike.phase !== 'STRIKE') return;
+            ctx.save();
+            ctx.strokeStyle = '#fef9c3';
+            ctx.shadowColor = '#facc15';
+            ctx.shadowBlur = 25;
+            ctx.lineWidth = 5;
+            ctx.beginPath();
+            ctx.moveTo(strike.x, 0);
+            for (let y = 40; y < worldHeight; y += 40) {
+                ctx.lineTo(strike.x + (Math.random() - 0.5) * strike.width * 0.6, y);
+            }
+            ctx.lineTo(strike.x, worldHeight);
+            ctx.stroke();
+            ctx.restore();
+        });
+    }
 
     // Particles (Foreground)
     particlesRef.current.forEach((p) => {
@@ -1886,6 +1824,23 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.restore(); // Restore state after each particle
     });
 
+    // Style trick popups
+    stylePopupsRef.current.forEach(popup => {
+        ctx.save();
+        ctx.globalAlpha = Math.min(1, popup.framesLeft / 20);
+        ctx.font = `bold ${Math.max(14, 22 * scale)}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.lineWidth = 4;
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.strokeText(popup.text, popup.x, popup.y);
+        ctx.fillStyle = '#f0abfc';
+        ctx.fillText(popup.text, popup.x, popup.y);
+        ctx.restore();
+    });
+
+    ctx.restore(); // Leave world space
+
     // Lightning Flash Effect (Overlay)
     if (lightningRef.current > 0) {
         ctx.save();
@@ -1899,7 +1854,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     // --- HUD: WIND INDICATOR ---
     // Draw on top of everything without shake offset (unless specific UI shake desired)
     // We already restored context, so we are at 0,0
-    const wind = activeWindRef.current;
+    const wind = activeWind;
     const windMag = Math.sqrt(wind.x * wind.x + wind.y * wind.y);
     
     if (windMag > 0.5) {
@@ -1945,41 +1900,73 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.fillText("WIND", cx, cy + 36);
     }
 
+    // --- HUD: GHOST GAP ---
+    if (ghostSim && world && gameState === GameState.PLAYING) {
+        const gap = world.depth - ghostSim.getState().depth;
+        const isAhead = gap >= 0;
+
+        ctx.save();
+        ctx.font = `bold ${Math.max(14, 20 * scale)}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
+        ctx.shadowBlur = 4;
+        ctx.fillStyle = isAhead ? '#4ade80' : '#f87171';
+        ctx.fillText(`👻 ${isAhead ? '+' : '-'}${Math.abs(gap)}m ${isAhead ? 'AHEAD' : 'BEHIND'}`, canvas.width / 2, 140);
+        ctx.restore();
+    }
+
+    // --- HUD: LEVEL MESSAGE ---
+    const levelMessage = levelMessageRef.current;
+    if (levelMessage && gameState === GameState.PLAYING) {
+        ctx.save();
+        ctx.globalAlpha = Math.min(1, levelMessage.framesLeft / 30); // Fade out over the last half second
+        ctx.font = `bold ${Math.max(16, 28 * scale)}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        const textWidth = ctx.measureText(levelMessage.text).width;
+        const bannerY = canvas.height * 0.25;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+        ctx.fillRect(canvas.width / 2 - textWidth / 2 - 20, bannerY - 24, textWidth + 40, 48);
+        ctx.fillStyle = '#fde047';
+        ctx.fillText(levelMessage.text, canvas.width / 2, bannerY);
+        ctx.restore();
+    }
+
+    // Combo multiplier (top centre) - flashes while it is draining
+    if (world && world.style.combo > 1 && gameState === GameState.PLAYING) {
+        const isDraining = world.style.comboTimer <= 30 && Math.floor(frameCountRef.current / 6) % 2 === 0;
+        ctx.save();
+        ctx.globalAlpha = isDraining ? 0.5 : 1;
+        ctx.font = `900 ${Math.max(18, 32 * scale)}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'top';
+        ctx.lineWidth = 5;
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+        const comboText = `COMBO ×${world.style.combo.toFixed(1)}`;
+        ctx.strokeText(comboText, canvas.width / 2, 16 * scale);
+        ctx.fillStyle = '#e879f9';
+        ctx.fillText(comboText, canvas.width / 2, 16 * scale);
+        ctx.font = `bold ${Math.max(11, 16 * scale)}px sans-serif`;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(`✨ ${world.style.points} style`, canvas.width / 2, 16 * scale + Math.max(22, 38 * scale));
+        ctx.restore();
+    }
+
     // --- HUD: ACTIVE POWER-UPS INDICATORS ---  SCALED AND BIGGER
-    if (activePowerUpsRef.current.length > 0) {
+    if (activePowerUps.length > 0) {
       const boxSize = 80 * scale; // MUCH BIGGER - scaled to screen
       const spacing = 12 * scale;
       const startX = 10 * scale;
       const startY = 10 * scale;
 
-      activePowerUpsRef.current.forEach((powerUp, index) => {
+      activePowerUps.forEach((powerUp, index) => {
         const x = startX;
         const y = startY + (index * (boxSize + spacing));
 
         // Power-up info
-        let color, emoji, name;
-        switch (powerUp.type) {
-          case 'SLOW_MOTION':
-            color = '#60a5fa';
-            emoji = '⏱️';
-            name = 'SLOW-MO';
-            break;
-          case 'SHIELD':
-            color = '#fbbf24';
-            emoji = '🛡️';
-            name = 'SHIELD';
-            break;
-          case 'WIND_BREAKER':
-            color = '#34d399';
-            emoji = '🌪️';
-            name = 'WIND BREAK';
-            break;
-          case 'SUPER_GLIDE':
-            color = '#f87171';
-            emoji = '⬆️';
-            name = 'SUPER GLIDE';
-            break;
-        }
+        const { color, icon: emoji } = POWER_UP_DEFINITIONS[powerUp.type];
+        const name = POWER_UP_DEFINITIONS[powerUp.type].name.toUpperCase();
 
         // Pulsing glow effect
         const pulse = Math.sin(frameCountRef.current * 0.1) * 0.3 + 0.7;
@@ -2008,6 +1995,25 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
 
         ctx.restore();
 
+        // Stack count badge (top-right corner)
+        if (powerUp.stacks > 1) {
+          const badgeRadius = 13 * scale;
+          const badgeX = x + boxSize - badgeRadius * 0.6;
+          const badgeY = y + badgeRadius * 0.6;
+          ctx.fillStyle = color;
+          ctx.strokeStyle = '#ffffff';
+          ctx.lineWidth = 2 * scale;
+          ctx.beginPath();
+          ctx.arc(badgeX, badgeY, badgeRadius, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.stroke();
+          ctx.fillStyle = '#000000';
+          ctx.font = `bold ${13 * scale}px sans-serif`;
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillText(`×${powerUp.stacks}`, badgeX, badgeY);
+        }
+
         // Timer bar (if not shield)
         if (powerUp.timeLeft > 0) {
           const progress = powerUp.timeLeft / powerUp.duration;
@@ -2046,77 +2052,90 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       });
     }
 
-  }, [gameState]);
+  }, [gameState, isPaused, showHitboxes]);
+
+  // Start screen idle animation (no simulation running)
+  const updateMenu = useCallback((canvas: HTMLCanvasElement) => {
+    const player = menuPlayerRef.current;
+    // Hover
+    player.x = canvas.width / 2;
+    player.y = canvas.height / 3 + Math.sin(frameCountRef.current * 0.05) * 10;
+    player.angle = Math.sin(frameCountRef.current * 0.02) * 0.05;
+    player.umbrellaAnim = 1; // Always open in menu
+
+    // Move BG
+    bgElementsRef.current.forEach(el => {
+       el.y -= 0.5 * el.speedFactor; // Slow scroll
+       el.x += el.driftX;
+       if (el.x > canvas.width + el.size) el.x = -el.size;
+       if (el.x < -el.size) el.x = canvas.width + el.size;
+    });
+    bgElementsRef.current = bgElementsRef.current.filter(el => el.y > -100);
+    if (bgElementsRef.current.length < 50 && Math.random() > 0.5) spawnBgElement(canvas.height + 50, canvas.width);
+
+    // Spawn wind particles for ambiance
+    if (frameCountRef.current % 10 === 0) {
+        particlesRef.current.push({
+           id: 'menu-wind-' + Math.random(),
+           x: Math.random() * canvas.width,
+           y: canvas.height + 20,
+           vx: (Math.random() - 0.5) * 2,
+           vy: - (2 + Math.random() * 3),
+           life: 0.8,
+           color: 'rgba(255, 255, 255, 0.2)',
+           type: 'WIND',
+           size: 10 + Math.random() * 20
+        });
+    }
+    // Update particles
+    for (let i = particlesRef.current.length - 1; i >= 0; i--) {
+       const p = particlesRef.current[i];
+       p.y += p.vy;
+       p.x += p.vx;
+       p.life -= 0.01;
+       if (p.life <= 0) particlesRef.current.splice(i, 1);
+    }
+    frameCountRef.current++;
+  }, [isDarkMode]);
 
-  // Main Loop
-  const loop = useCallback(() => {
+  // Main Loop - fixed timestep accumulator, rendering interpolates between ticks
+  const loop = useCallback((timestamp: number) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    if (gameState === GameState.START) {
-         // Demo Mode Loop
-         const player = playerRef.current;
-         // Hover
-         player.y = canvas.height / 3 + Math.sin(frameCountRef.current * 0.05) * 10;
-         player.angle = Math.sin(frameCountRef.current * 0.02) * 0.05;
-         player.umbrellaAnim = 1; // Always open in menu
-
-         // Move BG
-         bgElementsRef.current.forEach(el => {
-            el.y -= 0.5 * el.speedFactor; // Slow scroll
-            el.x += el.driftX;
-            if (el.x > canvas.width + el.size) el.x = -el.size;
-            if (el.x < -el.size) el.x = canvas.width + el.size;
-         });
-         bgElementsRef.current = bgElementsRef.current.filter(el => el.y > -100);
-         if (bgElementsRef.current.length < 50 && Math.random() > 0.5) spawnBgElement(canvas.height + 50, canvas.width);
-
-         // Spawn wind particles for ambiance
-         if (frameCountRef.current % 10 === 0) {
-             particlesRef.current.push({
-                id: 'menu-wind-' + Math.random(),
-                x: Math.random() * canvas.width,
-                y: canvas.height + 20,
-                vx: (Math.random() - 0.5) * 2,
-                vy: - (2 + Math.random() * 3),
-                life: 0.8,
-                color: 'rgba(255, 255, 255, 0.2)',
-                type: 'WIND',
-                size: 10 + Math.random() * 20
-             });
-         }
-         // Update particles
-         for (let i = particlesRef.current.length - 1; i >= 0; i--) {
-            const p = particlesRef.current[i];
-            p.y += p.vy;
-            p.x += p.vx;
-            p.life -= 0.01;
-            if (p.life <= 0) particlesRef.current.splice(i, 1);
-         }
-         frameCountRef.current++;
-         draw(ctx, canvas);
-    } else {
-        update(canvas);
-        draw(ctx, canvas);
+    const frameTime = lastFrameTimeRef.current === null ? 0 : Math.min(timestamp - lastFrameTimeRef.current, MAX_FRAME_MS);
+    lastFrameTimeRef.current = timestamp;
+    accumulatorRef.current += frameTime;
+
+    while (accumulatorRef.current >= FIXED_STEP_MS) {
+        if (gameState === GameState.START) {
+            updateMenu(canvas);
+        } else {
+            update(canvas);
+        }
+        accumulatorRef.current -= FIXED_STEP_MS;
     }
 
+    draw(ctx, canvas, accumulatorRef.current / FIXED_STEP_MS);
+
     requestRef.current = requestAnimationFrame(loop);
-  }, [update, draw, gameState]);
+  }, [update, updateMenu, draw, gameState]);
 
   // Setup / Cleanup
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
+    // The simulation keeps the size it started with; draw() letterboxes it onto the resized canvas
     const resize = () => {
         canvas.width = window.innerWidth;
         canvas.height = window.innerHeight;
         if (gameState === GameState.START) {
-            playerRef.current.x = canvas.width / 2;
-            playerRef.current.y = canvas.height / 3;
-            playerRef.current.targetX = canvas.width / 2;
+            menuPlayerRef.current.x = canvas.width / 2;
+            menuPlayerRef.current.y = canvas.height / 3;
+            menuPlayerRef.current.targetX = canvas.width / 2;
         }
     };
     window.addEventListener('resize', resize);
@@ -2130,14 +2149,14 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     };
   }, [loop, gameState]);
 
-  // Input Handling
+  // Input Handling - only records intent, update() merges the sources on the next tick
   useEffect(() => {
     const handleStart = (e: MouseEvent | TouchEvent) => {
-       playerRef.current.isUmbrellaOpen = true;
+       rawInputRef.current.pointerDown = true;
     };
     
     const handleEnd = () => {
-       playerRef.current.isUmbrellaOpen = false;
+       rawInputRef.current.pointerDown = false;
     };
 
     const handleMove = (e: MouseEvent | TouchEvent) => {
@@ -2147,8 +2166,31 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         } else {
             clientX = (e as MouseEvent).clientX;
         }
-        // Update target, physics happens in update()
-        playerRef.current.targetX = clientX;
+        // Convert screen space to world space
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const fit = getWorldFit(canvas);
+        inputRef.current.targetX = (clientX - fit.offsetX) / fit.scale;
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+        // Don't steal keys from text fields (name input, level editor...)
+        if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+        rawInputRef.current.keysDown.add(e.code);
+        // Stop Space/arrows from scrolling or clicking the focused button mid-run
+        if (gameState === GameState.PLAYING && isBoundKey(keyBindings, e.code)) {
+            e.preventDefault();
+        }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+        rawInputRef.current.keysDown.delete(e.code);
+    };
+
+    // Releasing everything on blur avoids keys stuck "down" after alt-tab
+    const handleBlur = () => {
+        rawInputRef.current.keysDown.clear();
+        rawInputRef.current.pointerDown = false;
     };
 
     window.addEventListener('mousedown', handleStart);
@@ -2157,6 +2199,9 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     window.addEventListener('touchend', handleEnd);
     window.addEventListener('mousemove', handleMove);
     window.addEventListener('touchmove', handleMove);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
 
     return () => {
         window.removeEventListener('mousedown', handleStart);
@@ -2165,59 +2210,117 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         window.removeEventListener('touchend', handleEnd);
         window.removeEventListener('mousemove', handleMove);
         window.removeEventListener('touchmove', handleMove);
+        window.removeEventListener('keydown', handleKeyDown);
+        window.removeEventListener('keyup', handleKeyUp);
+        window.removeEventListener('blur', handleBlur);
     };
-  }, []);
+  }, [keyBindings, gameState]);
 
   // Reset logic
   useEffect(() => {
-    if (gameState === GameState.START || (gameState === GameState.PLAYING && prevGameStateRef.current === GameState.GAME_OVER)) {
-        obstaclesRef.current = [];
+    const isRevive = reviveCount !== prevReviveCountRef.current;
+    prevReviveCountRef.current = reviveCount;
+    const isNewGhost = ghostReplay !== prevGhostReplayRef.current;
+    prevGhostReplayRef.current = ghostReplay;
+
+    // Continue the crashed run from just before the crash
+    const sim = simRef.current;
+    if (isRevive && gameState === GameState.PLAYING && sim && !replay) {
+        const crashTick = sim.getState().tick;
+        if (sim.revive()) {
+            recorderRef.current?.revive(crashTick);
+            const { player, health } = sim.getState();
+            if (onHealthUpdate) onHealthUpdate(health.hp, health.maxHp);
+            prevPlayerPosRef.current = { x: player.x, y: player.y };
+            accumulatorRef.current = 0;
+            particlesRef.current.push({
+                id: 'revive-' + Math.random(),
+                x: player.x,
+                y: player.y,
+                vx: 0,
+                vy: 0,
+                life: 0.6,
+                color: 'rgba(255, 255, 255, 0.8)',
+                type: 'SHOCKWAVE',
+                size: 20
+            });
+        }
+        prevGameStateRef.current = gameState;
+        prevSeedRef.current = seed;
+        return;
+    }
+
+    const isNewRun = gameState === GameState.PLAYING && (prevGameStateRef.current !== GameState.PLAYING || prevSeedRef.current !== seed);
+
+    // A ghost that loads (or goes away) mid-run joins in step with the player
+    if (isNewGhost && !isNewRun && gameState === GameState.PLAYING && simRef.current && !replay) {
+        ghostSimRef.current = null;
+        ghostPlayerRef.current = null;
+        if (ghostReplay) startGhost(ghostReplay, simRef.current.getState().tick);
+    }
+
+    if (gameState === GameState.START || isNewRun) {
+        simRef.current = null;
+        recorderRef.current = null;
+        replayPlayerRef.current = null;
+        ghostSimRef.current = null;
+        ghostPlayerRef.current = null;
+        sceneryRngRef.current = createSeededRandom(seed);
         particlesRef.current = [];
         bgElementsRef.current = [];
-        windZonesRef.current = [];
-        powerUpsRef.current = [];
-        activePowerUpsRef.current = [];
-        coinsRef.current = [];
-        scoreRef.current = 0;
         frameCountRef.current = 0;
         shakeRef.current = 0;
         lightningRef.current = 0;
-        lastUmbrellaState.current = false;
-        windGustRef.current.active = false;
-
-        // Storm Mode: Give player a free shield at start
-        if (gameMode === 'STORM') {
-          activePowerUpsRef.current = [{
-            type: 'SHIELD',
-            timeLeft: 5000, // 5 seconds
-            duration: 5000
-          }];
-        }
-        
-        if (canvasRef.current) {
-             playerRef.current.x = canvasRef.current.width / 2;
-             playerRef.current.y = canvasRef.current.height / 3;
-             playerRef.current.vy = 0;
-             playerRef.current.vx = 0;
-             playerRef.current.targetX = canvasRef.current.width / 2;
-             playerRef.current.umbrellaAnim = 0;
-             playerRef.current.isDancing = false;
-             playerRef.current.danceTimer = 0;
-             playerRef.current.isSpinning = false;
-             playerRef.current.spinRotation = 0;
-             playerRef.current.umbrellaIsBroken = false;
-             playerRef.current.brokenTimer = 0;
+        levelMessageRef.current = null;
+        stylePopupsRef.current = [];
+        accumulatorRef.current = 0;
+
+        const canvas = canvasRef.current;
+        if (canvas) {
+             if (isNewRun) {
+                 if (replay) {
+                     simRef.current = createReplaySimulation(replay);
+                     replayPlayerRef.current = createReplayPlayer(replay);
+                 } else {
+                     const runMode: GameMode = customLevel ? 'CHALLENGE' : gameMode;
+                     const level = customLevel
+                       ?? (gameMode === 'CHALLENGE' && selectedChallengeLevel !== null ? getLevelById(selectedChallengeLevel) ?? null : null);
+                     simRef.current = new GlideSimulation({
+                         seed,
+                         width: canvas.width,
+                         height: canvas.height,
+                         difficultyMode,
+                         gameMode: runMode,
+                         level,
+                         maxHp: getMaxHp(runMode, level, livesMode),
+                         powerUpUpgrades,
+                         allowContinue: true
+                     });
+                     recorderRef.current = createReplayRecorder(simRef.current.config);
+                 }
+
+                 const health = simRef.current.getState().health;
+                 if (onHealthUpdate) onHealthUpdate(health.hp, health.maxHp);
+
+                 if (ghostReplay && !replay) startGhost(ghostReplay, 0);
+                 const player = simRef.current.getState().player;
+                 inputRef.current = { isUmbrellaOpen: false, targetX: player.x };
+                 prevPlayerPosRef.current = { x: player.x, y: player.y };
+             } else {
+                 menuPlayerRef.current = createPlayerState(canvas.width, canvas.height);
+             }
 
              // Pre-populate background
              for(let i=0; i<40; i++) {
-                 spawnBgElement(Math.random() * canvasRef.current.height, canvasRef.current.width);
+                 spawnBgElement(sceneryRngRef.current.next() * canvas.height, canvas.width);
              }
         }
     }
     prevGameStateRef.current = gameState;
-  }, [gameState]);
+    prevSeedRef.current = seed;
+  }, [gameState, seed, replay, ghostReplay, reviveCount]);
 
   return <canvas ref={canvasRef} className="w-full h-full" />;
 };
 
-export default GameCanvas;
\ No newline at end of file
+export default GameCanvas;
@@ -0,0 +1,592 @@
+import React, { useRef, useState } from 'react';
+import { ChallengeLevel, ChallengObjective, LevelWave, Obstacle, ObstacleBehavior, PowerUp, WindZoneKind } from '../types';
+import { CHALLENGE_LEVELS } from '../services/challengeLevels';
+import { LEVEL_THEMES, OBJECTIVE_TYPES, OBSTACLE_BEHAVIORS, WIND_ZONE_KINDS, createBlankLevel, createObjective, parseLevel, serializeLevel } from '../services/levelLoader';
+import { POWER_UP_DEFINITIONS, POWER_UP_TYPES } from '../services/powerUps';
+import { THEME_DEFINITIONS } from '../services/levelThemes';
+
+/**
+ * Challenge level editor
+ * Places wave items on a vertical depth timeline, edits objectives and settings, and hands the level to App for test-play.
+ */
+
+interface LevelEditorProps {
+  level: ChallengeLevel;
+  onChange: (level: ChallengeLevel) => void;
+  onTestPlay: (level: ChallengeLevel) => void;
+  onClose: () => void;
+}
+
+type WaveItemKind = 'obstacles' | 'windZones' | 'coins' | 'powerUps';
+
+// The item type each wave list holds
+type WaveItemTypes = { [K in WaveItemKind]: LevelWave[K][number] };
+
+// A wave item tagged with the list it lives in, so its fields narrow on `kind`
+type WaveItem = { [K in WaveItemKind]: { kind: K; item: WaveItemTypes[K] } }[WaveItemKind];
+
+type EditorTool =
+  | { kind: 'obstacles'; type: Obstacle['type'] }
+  | { kind: 'windZones' }
+  | { kind: 'coins' }
+  | { kind: 'powerUps'; type: PowerUp['type'] };
+
+interface Selection {
+  waveIndex: number;
+  kind: WaveItemKind;
+  itemIndex: number;
+}
+
+// Timeline scale: 0.5px per meter of depth, 320px wide = full world width
+const TIMELINE_PX_PER_METER = 0.5;
+const TIMELINE_WIDTH = 320;
+// World pixels scrolled per meter at normal speed (wave dy/height offsets are world pixels)
+const WORLD_PX_PER_METER = 15;
+const DEPTH_SNAP = 10;
+
+const TOOLS: { label: string; icon: string; tool: EditorTool }[] = [
+  { label: 'Bird', icon: '🐦', tool: { kind: 'obstacles', type: 'BIRD' } },
+  { label: 'Balloon', icon: '🎈', tool: { kind: 'obstacles', type: 'BALLOON' } },
+  { label: 'Building', icon: '🏢', tool: { kind: 'obstacles', type: 'BUILDING' } },
+  { label: 'Cloud', icon: '☁️', tool: { kind: 'obstacles', type: 'CLOUD' } },
+  { label: 'Plane', icon: '✈️', tool: { kind: 'obstacles', type: 'PLANE' } },
+  { label: 'Wind', icon: '💨', tool: { kind: 'windZones' } },
+  { label: 'Coins', icon: '💰', tool: { kind: 'coins' } },
+  ...POWER_UP_TYPES.map(type => ({ label: POWER_UP_DEFINITIONS[type].name, icon: POWER_UP_DEFINITIONS[type].icon, tool: { kind: 'powerUps' as const, type } }))
+];
+
+const ITEM_ICONS: Record<string, string> = {
+  BIRD: '🐦', BALLOON: '🎈', BUILDING: '🏢', CLOUD: '☁️', PLANE: '✈️',
+  ...Object.fromEntries(POWER_UP_TYPES.map(type => [type, POWER_UP_DEFINITIONS[type].icon]))
+};
+
+const OBJECTIVE_LABELS: Record<ChallengObjective['type'], (target: number, powerUpType?: PowerUp['type']) => string> = {
+  SURVIVE_TIME: target => `Survive for ${target} seconds`,
+  REACH_DEPTH: target => `Reach ${target}m depth`,
+  COLLECT_COINS: target => `Collect ${target} coins`,
+  NO_DAMAGE: () => 'Take no damage',
+  AVOID_OBSTACLES: target => `Avoid ${target} obstacles`,
+  COLLECT_POWERUP: (target, powerUpType) => `Collect ${target} ${POWER_UP_DEFINITIONS[powerUpType || 'SHIELD'].name.toLowerCase()} power-ups`,
+  WIND_TIME: target => `Stay in wind zones for ${target} seconds`,
+  UMBRELLA_CLOSED: target => `Dive with the umbrella closed for ${target} seconds`,
+  TIME_LIMIT: target => `Finish within ${target} seconds`,
+  RIDE_GUSTS: target => `Ride ${target} gusts without a collision`,
+  NO_EDGES: () => 'Never touch the screen edges'
+};
+
+// Objectives without a meaningful target (met until broken)
+const FLAG_OBJECTIVES: ChallengObjective['type'][] = ['NO_DAMAGE', 'NO_EDGES'];
+
+const EVENT_ICONS: Record<string, string> = { MESSAGE: '💬', GUST: '🌬️', LIGHTNING: '⚡', SPAWNS: '🎲' };
+
+const WIND_ZONE_ICONS: Record<WindZoneKind, string> = { CONSTANT: '💨', VORTEX: '🌀', UPDRAFT: '⏫', OSCILLATING: '🔁' };
+
+// The type a tool places, for tools that have one
+const getToolType = (tool: EditorTool): string | null => 'type' in tool ? tool.type : null;
+
+// Adds a new item from the tool to the end of the wave's matching list
+const addWaveItem = (wave: LevelWave, tool: EditorTool, x: number): LevelWave => {
+  switch (tool.kind) {
+    case 'obstacles':
+      return { ...wave, obstacles: [...wave.obstacles, { type: tool.type, x }] };
+    case 'windZones':
+      return { ...wave, windZones: [...wave.windZones, { x, width: 0.3, vx: 3, vy: 0, duration: 3 }] };
+    case 'coins':
+      return { ...wave, coins: [...wave.coins, { x, count: 5 }] };
+    case 'powerUps':
+      return { ...wave, powerUps: [...wave.powerUps, { type: tool.type, x }] };
+  }
+};
+
+// The item at `index` in one of the wave's lists (undefined when there is none)
+const getWaveItem = (wave: LevelWave, kind: WaveItemKind, index: number): WaveItem | undefined => {
+  switch (kind) {
+    case 'obstacles':
+      return index < wave.obstacles.length ? { kind, item: wave.obstacles[index] } : undefined;
+    case 'windZones':
+      return index < wave.windZones.length ? { kind, item: wave.windZones[index] } : undefined;
+    case 'coins':
+      return index < wave.coins.length ? { kind, item: wave.coins[index] } : undefined;
+    case 'powerUps':
+      return index < wave.powerUps.length ? { kind, item: wave.powerUps[index] } : undefined;
+  }
+};
+
+// Applies `edit` to one of the wave's item lists
+const editWaveItems = (wave: LevelWave, kind: WaveItemKind, edit: <T>(items: T[]) => T[]): LevelWave => {
+  switch (kind) {
+    case 'obstacles':
+      return { ...wave, obstacles: edit(wave.obstacles) };
+    case 'windZones':
+      return { ...wave, windZones: edit(wave.windZones) };
+    case 'coins':
+      return { ...wave, coins: edit(wave.coins) };
+    case 'powerUps':
+      return { ...wave, powerUps: edit(wave.powerUps) };
+  }
+};
+
+// Small labelled number input; empty input clears optional fields
+const NumberField: React.FC<{
+  label: string;
+  value: number | undefined;
+  step?: number;
+  optional?: boolean;
+  onChange: (value: number | undefined) => void;
+}> = ({ label, value, step = 1, optional = false, onChange }) => (
+  <label className="flex items-center justify-between gap-2 text-xs text-gray-300">
+    <span>{label}</span>
+    <input
+      type="number"
+      step={step}
+      value={value ?? ''}
+      placeholder={optional ? '—' : ''}
+      onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+        const raw = e.target.value;
+        if (raw === '') {
+          if (optional) onChange(undefined);
+          return;
+        }
+        const parsed = parseFloat(raw);
+        if (!isNaN(parsed)) onChange(parsed);
+      }}
+      className="w-20 bg-black/50 border border-white/20 rounded px-2 py-1 text-white text-right"
+    />
+  </label>
+);
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ level, onChange, onTestPlay, onClose }) => {
+  const [tool, setTool] = useState<EditorTool>(TOOLS[0].tool);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const deepestObjective = Math.max(0, ...level.objectives.filter(obj => obj.type === 'REACH_DEPTH').map(obj => obj.target));
+  const deepestWave = Math.max(0, ...level.waves.map(wave => wave.depth));
+  const timelineDepth = Math.max(1000, deepestObjective + 200, deepestWave + 300);
+
+  const selectedWave = selection ? level.waves[selection.waveIndex] : null;
+  const selected = selection && selectedWave ? getWaveItem(selectedWave, selection.kind, selection.itemIndex) ?? null : null;
+
+  const updateWaves = (waves: LevelWave[]) => onChange({ ...level, waves });
+
+  // `kind` ties the patch to the fields of the selected item's type
+  const updateSelectedItem = <K extends WaveItemKind>(kind: K, patch: Partial<WaveItemTypes[K]>) => {
+    if (!selection || selection.kind !== kind) return;
+    const waves = level.waves.map((wave, index) => {
+      if (index !== selection.waveIndex) return wave;
+      return editWaveItems(wave, selection.kind, items => items.map((item, i) => i === selection.itemIndex ? { ...item, ...patch } : item));
+    });
+    updateWaves(waves);
+  };
+
+  const updateSelectedWaveDepth = (depth: number) => {
+    if (!selection) return;
+    updateWaves(level.waves.map((wave, index) => index === selection.waveIndex ? { ...wave, depth: Math.max(0, depth) } : wave));
+  };
+
+  const deleteSelectedItem = () => {
+    if (!selection) return;
+    const waves = level.waves
+      .map((wave, index) => {
+        if (index !== selection.waveIndex) return wave;
+        return editWaveItems(wave, selection.kind, items => items.filter((_, i) => i !== selection.itemIndex));
+      })
+      .filter(wave => wave.obstacles.length + wave.windZones.length + wave.coins.length + wave.powerUps.length > 0);
+    updateWaves(waves);
+    setSelection(null);
+  };
+
+  // Click on the timeline: add the current tool's item to the wave at that depth (or a new wave)
+  const handleTimelineClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.min(Math.max((e.clientX - rect.left) / TIMELINE_WIDTH, 0), 1);
+    const depth = Math.round((e.clientY - rect.top) / TIMELINE_PX_PER_METER / DEPTH_SNAP) * DEPTH_SNAP;
+    const itemX = Math.round(x * 100) / 100;
+
+    let waveIndex = level.waves.findIndex(wave => wave.depth === depth);
+    let waves: LevelWave[];
+    if (waveIndex === -1) {
+      waves = [...level.waves, addWaveItem({ depth, obstacles: [], windZones: [], coins: [], powerUps: [] }, tool, itemX)];
+      waveIndex = waves.length - 1;
+    } else {
+      waves = level.waves.map((wave, index) => index === waveIndex ? addWaveItem(wave, tool, itemX) : wave);
+    }
+
+    updateWaves(waves);
+    setSelection({ waveIndex, kind: tool.kind, itemIndex: waves[waveIndex][tool.kind].length - 1 });
+  };
+
+  const updateObjective = (index: number, objective: ChallengObjective) => {
+    onChange({ ...level, objectives: level.objectives.map((obj, i) => i === index ? objective : obj) });
+  };
+
+  // Round-trip through the loader so the game gets exactly what an exported file would contain
+  const validate = (): ChallengeLevel | null => {
+    const result = parseLevel(serializeLevel(level));
+    setErrors(result.errors);
+    return result.success && result.level ? result.level : null;
+  };
+
+  const handleTestPlay = () => {
+    const valid = validate();
+    if (valid) onTestPlay(valid);
+  };
+
+  const handleExport = () => {
+    const valid = validate();
+    if (!valid) return;
+
+    const blob = new Blob([serializeLevel(valid)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `stickman-glide-level-${valid.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    const result = parseLevel(await file.text());
+    setErrors(result.errors);
+    if (result.success && result.level) {
+      setSelection(null);
+      onChange(result.level);
+    }
+  };
+
+  const handleLoadTemplate = (value: string) => {
+    const template = value === 'blank' ? createBlankLevel() : CHALLENGE_LEVELS.find(l => l.id === parseInt(value, 10));
+    if (!template) return;
+    setSelection(null);
+    setErrors([]);
+    onChange({ ...template, id: value === 'blank' ? template.id : 100 + template.id });
+  };
+
+  const renderItem = (wave: LevelWave, waveIndex: number, { kind, item }: WaveItem, itemIndex: number) => {
+    const isSelected = selection?.waveIndex === waveIndex && selection.kind === kind && selection.itemIndex === itemIndex;
+    const top = (wave.depth + (item.dy ?? 0) / WORLD_PX_PER_METER) * TIMELINE_PX_PER_METER;
+    const select = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      setSelection({ waveIndex, kind, itemIndex });
+    };
+    const ring = isSelected ? 'ring-2 ring-yellow-400' : '';
+
+    if (kind === 'windZones') {
+      const width = item.width * TIMELINE_WIDTH;
+      const height = item.duration !== undefined ? 24 : Math.max(8, ((item.height ?? 400) / WORLD_PX_PER_METER) * TIMELINE_PX_PER_METER);
+      return (
+        <div
+          key={`${waveIndex}-${kind}-${itemIndex}`}
+          onClick={select}
+          title={`Wind ${item.vx}, ${item.vy}`}
+          className={`absolute bg-sky-400/30 border border-sky-300/60 rounded text-[10px] text-sky-100 flex items-center justify-center cursor-pointer ${ring}`}
+          style={{ left: item.x * (TIMELINE_WIDTH - width), top, width, height }}
+        >
+          {WIND_ZONE_ICONS[item.kind ?? 'CONSTANT']}{item.duration !== undefined ? ` ⏱ ${item.duration}s` : ''} {item.vx > 0 ? '→' : item.vx < 0 ? '←' : ''}{item.vy < 0 ? '↑' : item.vy > 0 ? '↓' : ''}
+        </div>
+      );
+    }
+
+    const icon = kind === 'coins' ? '💰' : ITEM_ICONS[item.type];
+    return (
+      <div
+        key={`${waveIndex}-${kind}-${itemIndex}`}
+        onClick={select}
+        className={`absolute -translate-x-1/2 -translate-y-1/2 text-lg leading-none cursor-pointer rounded px-0.5 bg-black/30 ${ring}`}
+        style={{ left: item.x * TIMELINE_WIDTH, top }}
+      >
+        {icon}{kind === 'coins' && <span className="text-[10px] text-yellow-300 font-bold">×{item.count}</span>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-gray-900/95 backdrop-blur-md flex flex-col text-white">
+      {/* Header */}
+      <div className="flex flex-wrap items-center gap-2 p-3 border-b border-white/10">
+        <h2 className="text-xl sm:text-2xl font-black text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-orange-500 mr-auto">✏️ LEVEL EDITOR</h2>
+        <select
+          value=""
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => handleLoadTemplate(e.target.value)}
+          className="bg-black/50 border border-white/20 rounded-lg px-2 py-1.5 text-sm"
+        >
+          <option value="" disabled>Start from...</option>
+          <option value="blank">Blank level</option>
+          {CHALLENGE_LEVELS.map(l => <option key={l.id} value={l.id}>Level {l.id}: {l.name}</option>)}
+        </select>
+        <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 text-sm font-bold">📂 Import</button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        <button onClick={handleExport} className="px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 text-sm font-bold">💾 Export</button>
+        <button onClick={handleTestPlay} className="px-3 py-1.5 rounded-lg bg-green-500 hover:bg-green-400 text-sm font-bold">▶ Test Play</button>
+        <button onClick={onClose} className="w-9 h-9 flex items-center justify-center rounded-full bg-red-500 hover:bg-red-400 font-bold">×</button>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="mx-3 mt-3 p-2 rounded-lg bg-red-500/20 border border-red-500/40 text-xs text-red-200 max-h-24 overflow-y-auto">
+          {errors.map((error, i) => <div key={i}>⚠️ {error}</div>)}
+        </div>
+      )}
+
+      <div className="flex-1 flex flex-col md:flex-row gap-3 p-3 overflow-hidden">
+        {/* Settings & Objectives */}
+        <div className="md:w-72 space-y-3 overflow-y-auto pr-1">
+          <div className="bg-black/40 rounded-xl p-3 border border-white/10 space-y-2">
+            <div className="text-xs font-bold uppercase tracking-wider text-gray-400">Level</div>
+            <input
+              value={level.name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...level, name: e.target.value })}
+              placeholder="Name"
+              className="w-full bg-black/50 border border-white/20 rounded px-2 py-1 text-sm"
+            />
+            <textarea
+              value={level.description}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => onChange({ ...level, description: e.target.value })}
+              placeholder="Description"
+              rows={2}
+              className="w-full bg-black/50 border border-white/20 rounded px-2 py-1 text-sm"
+            />
+            <label className="flex items-center justify-between gap-2 text-xs text-gray-300">
+              <span>Theme</span>
+              <select
+                value={level.theme}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                  const theme = e.target.value as ChallengeLevel['theme'];
+                  // Follow the theme's gravity unless it was set by hand
+                  const gravityScale = level.gravityScale === THEME_DEFINITIONS[level.theme].gravityScale ? THEME_DEFINITIONS[theme].gravityScale : level.gravityScale;
+                  onChange({ ...level, theme, gravityScale });
+                }}
+                className="bg-black/50 border border-white/20 rounded px-2 py-1 text-white"
+              >
+                {LEVEL_THEMES.map(theme => <option key={theme} value={theme}>{theme}</option>)}
+              </select>
+            </label>
+            <NumberField label="Level ID" value={level.id} onChange={value => onChange({ ...level, id: value ?? level.id })} />
+            <NumberField label="Time limit (s)" value={level.duration} optional onChange={value => onChange({ ...level, duration: value })} />
+            <NumberField label="Par time (s)" value={level.parTime} onChange={value => onChange({ ...level, parTime: value ?? 120 })} />
+            <NumberField label="Gravity" value={level.gravityScale} step={0.1} onChange={value => onChange({ ...level, gravityScale: value ?? 1 })} />
+            <NumberField label="Hit points" value={level.maxHp} optional onChange={value => onChange({ ...level, maxHp: value })} />
+          </div>
+
+          <div className="bg-black/40 rounded-xl p-3 border border-white/10 space-y-2">
+            <div className="text-xs font-bold uppercase tracking-wider text-gray-400">Random Spawns</div>
+            <NumberField label="Obstacle every (ticks)" value={level.spawns.obstacleInterval} onChange={value => onChange({ ...level, spawns: { ...level.spawns, obstacleInterval: value ?? 80 } })} />
+            <NumberField label="Wind zones / min" value={level.spawns.windZoneDensity} onChange={value => onChange({ ...level, spawns: { ...level.spawns, windZoneDensity: value ?? 0 } })} />
+            <NumberField label="Wind strength" value={level.spawns.windStrength} step={0.1} onChange={value => onChange({ ...level, spawns: { ...level.spawns, windStrength: value ?? 1 } })} />
+            <NumberField label="Coin every (ticks)" value={level.spawns.coinInterval} onChange={value => onChange({ ...level, spawns: { ...level.spawns, coinInterval: value ?? 120 } })} />
+            <NumberField label="Power-up every (ticks)" value={level.spawns.powerUpInterval} onChange={value => onChange({ ...level, spawns: { ...level.spawns, powerUpInterval: value ?? 300 } })} />
+          </div>
+
+          <div className="bg-black/40 rounded-xl p-3 border border-white/10 space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="text-xs font-bold uppercase tracking-wider text-gray-400">Objectives</div>
+              <button
+                onClick={() => onChange({ ...level, objectives: [...level.objectives, createObjective('COLLECT_COINS', OBJECTIVE_LABELS.COLLECT_COINS(10), 10)] })}
+                className="text-xs font-bold text-yellow-300 hover:text-yellow-100"
+              >
+                + Add
+              </button>
+            </div>
+            {level.objectives.map((obj, index) => (
+              <div key={index} className="bg-white/5 rounded-lg p-2 space-y-1 border border-white/10">
+                <div className="flex gap-1">
+                  <select
+                    value={obj.type}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                      const type = e.target.value as ChallengObjective['type'];
+                      const target = FLAG_OBJECTIVES.includes(type) ? 1 : obj.target;
+                      const powerUpType = type === 'COLLECT_POWERUP' ? 'SHIELD' : undefined;
+                      updateObjective(index, createObjective(type, OBJECTIVE_LABELS[type](target, powerUpType), target, powerUpType));
+                    }}
+                    className="flex-1 bg-black/50 border border-white/20 rounded px-1 py-1 text-xs"
+                  >
+                    {OBJECTIVE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                  </select>
+                  <button
+                    onClick={() => onChange({ ...level, objectives: level.objectives.filter((_, i) => i !== index) })}
+                    className="px-2 text-red-400 hover:text-red-200 text-sm"
+                  >
+                    ✕
+                  </button>
+                </div>
+                <input
+                  value={obj.description}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateObjective(index, { ...obj, description: e.target.value })}
+                  className="w-full bg-black/50 border border-white/20 rounded px-2 py-1 text-xs"
+                />
+                {obj.type === 'COLLECT_POWERUP' && (
+                  <select
+                    value={obj.powerUpType}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                      const powerUpType = e.target.value as PowerUp['type'];
+                      updateObjective(index, { ...obj, powerUpType, description: OBJECTIVE_LABELS.COLLECT_POWERUP(obj.target, powerUpType) });
+                    }}
+                    className="w-full bg-black/50 border border-white/20 rounded px-1 py-1 text-xs"
+                  >
+                    {POWER_UP_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                  </select>
+                )}
+                {!FLAG_OBJECTIVES.includes(obj.type) && (
+                  <NumberField
+                    label="Target"
+                    value={obj.target}
+                    onChange={value => value !== undefined && updateObjective(index, { ...obj, target: value, description: OBJECTIVE_LABELS[obj.type](value, obj.powerUpType) })}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Timeline */}
+        <div className="flex-1 flex flex-col min-h-0 min-w-0">
+          <div className="flex flex-wrap gap-1 mb-2">
+            {TOOLS.map(entry => {
+              const isActive = entry.tool.kind === tool.kind && getToolType(entry.tool) === getToolType(tool);
+              return (
+                <button
+                  key={entry.label}
+                  onClick={() => setTool(entry.tool)}
+                  className={`px-2 py-1 rounded-lg text-xs font-bold border transition-all ${isActive ? 'bg-yellow-500 text-black border-yellow-300' : 'bg-black/40 border-white/20 hover:border-yellow-400/50'}`}
+                >
+                  {entry.icon} {entry.label}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-[10px] text-gray-400 mb-2">Click the timeline to place the selected item · click an item to edit it · left/right = screen position, down = depth</p>
+
+          <div className="flex-1 overflow-y-auto rounded-xl border border-white/10 bg-black/30">
+            <div className="relative flex" style={{ height: timelineDepth * TIMELINE_PX_PER_METER + 40 }}>
+              {/* Depth ruler */}
+              <div className="relative w-14 flex-shrink-0 border-r border-white/10">
+                {Array.from({ length: Math.floor(timelineDepth / 100) + 1 }, (_, i) => (
+                  <div key={i} className="absolute right-1 text-[10px] text-gray-500 -translate-y-1/2" style={{ top: i * 100 * TIMELINE_PX_PER_METER }}>
+                    {i * 100}m
+                  </div>
+                ))}
+              </div>
+
+              {/* Lane (full world width) */}
+              <div
+                onClick={handleTimelineClick}
+                className="relative flex-shrink-0 cursor-crosshair bg-gradient-to-b from-sky-900/40 to-indigo-900/40"
+                style={{ width: TIMELINE_WIDTH }}
+              >
+                {Array.from({ length: Math.floor(timelineDepth / 100) + 1 }, (_, i) => (
+                  <div key={i} className="absolute left-0 right-0 border-t border-white/5" style={{ top: i * 100 * TIMELINE_PX_PER_METER }} />
+                ))}
+                {level.objectives.filter(obj => obj.type === 'REACH_DEPTH').map((obj, i) => (
+                  <div key={i} className="absolute left-0 right-0 border-t-2 border-dashed border-green-400/70 text-[10px] text-green-300 pl-1" style={{ top: obj.target * TIMELINE_PX_PER_METER }}>
+                    🏁 {obj.target}m
+                  </div>
+                ))}
+                {level.waves.map((wave, waveIndex) => (
+                  <React.Fragment key={waveIndex}>
+                    {wave.windZones.map((item, itemIndex) => renderItem(wave, waveIndex, { kind: 'windZones', item }, itemIndex))}
+                    {wave.obstacles.map((item, itemIndex) => renderItem(wave, waveIndex, { kind: 'obstacles', item }, itemIndex))}
+                    {wave.coins.map((item, itemIndex) => renderItem(wave, waveIndex, { kind: 'coins', item }, itemIndex))}
+                    {wave.powerUps.map((item, itemIndex) => renderItem(wave, waveIndex, { kind: 'powerUps', item }, itemIndex))}
+                  </React.Fragment>
+                ))}
+              </div>
+
+              {/* Scripted events (read-only, edit them in the JSON) */}
+              <div className="relative flex-1 min-w-[120px]">
+                {level.events.map((event, i) => (
+                  <div key={i} className="absolute left-2 right-1 text-[10px] text-gray-300 truncate -translate-y-1/2" style={{ top: event.depth * TIMELINE_PX_PER_METER }}>
+                    {EVENT_ICONS[event.type]} {event.type === 'MESSAGE' ? event.text : event.type}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Inspector */}
+        <div className="md:w-60 bg-black/40 rounded-xl p-3 border border-white/10 space-y-2 overflow-y-auto">
+          <div className="text-xs font-bold uppercase tracking-wider text-gray-400">Selected</div>
+          {!selected || !selectedWave ? (
+            <p className="text-xs text-gray-500">Nothing selected</p>
+          ) : (
+            <>
+              <div className="text-sm font-bold">
+                {selected.kind === 'coins' ? '💰 Coin line' : selected.kind === 'windZones' ? '💨 Wind zone' : `${ITEM_ICONS[selected.item.type]} ${selected.item.type}`}
+              </div>
+              <NumberField label="Wave depth (m)" value={selectedWave.depth} step={DEPTH_SNAP} onChange={value => value !== undefined && updateSelectedWaveDepth(value)} />
+              <NumberField label="X (0-1)" value={selected.item.x} step={0.05} onChange={value => value !== undefined && updateSelectedItem(selected.kind, { x: Math.min(Math.max(value, 0), 1) })} />
+              <NumberField label="Offset down (px)" value={selected.item.dy} optional onChange={value => updateSelectedItem(selected.kind, { dy: value })} />
+
+              {selected.kind === 'obstacles' && (
+                <>
+                  <NumberField label="Speed X" value={selected.item.speedX} step={0.5} optional onChange={value => updateSelectedItem('obstacles', { speedX: value })} />
+                  {OBSTACLE_BEHAVIORS[selected.item.type].length > 1 && (
+                    <label className="flex items-center justify-between gap-2 text-xs text-gray-300">
+                      <span>Behaviour</span>
+                      <select
+                        value={selected.item.behavior ?? OBSTACLE_BEHAVIORS[selected.item.type][0]}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                          const behavior = e.target.value as ObstacleBehavior;
+                          updateSelectedItem('obstacles', { behavior: behavior === OBSTACLE_BEHAVIORS[selected.item.type][0] ? undefined : behavior });
+                        }}
+                        className="bg-black/50 border border-white/20 rounded px-2 py-1 text-white"
+                      >
+                        {OBSTACLE_BEHAVIORS[selected.item.type].map(behavior => <option key={behavior} value={behavior}>{behavior}</option>)}
+                      </select>
+                    </label>
+                  )}
+                </>
+              )}
+
+              {selected.kind === 'windZones' && (
+                <>
+                  <label className="flex items-center justify-between gap-2 text-xs text-gray-300">
+                    <span>Shape</span>
+                    <select
+                      value={selected.item.kind ?? 'CONSTANT'}
+                      onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                        const kind = e.target.value as WindZoneKind;
+                        updateSelectedItem('windZones', { kind: kind === 'CONSTANT' ? undefined : kind, period: kind === 'OSCILLATING' ? selected.item.period ?? 4 : undefined });
+                      }}
+                      className="bg-black/50 border border-white/20 rounded px-2 py-1 text-white"
+                    >
+                      {WIND_ZONE_KINDS.map(kind => <option key={kind} value={kind}>{kind}</option>)}
+                    </select>
+                  </label>
+                  <NumberField label="Width (0-1)" value={selected.item.width} step={0.05} onChange={value => value !== undefined && updateSelectedItem('windZones', { width: Math.min(Math.max(value, 0.05), 1) })} />
+                  <NumberField label="Force vx" value={selected.item.vx} step={0.5} onChange={value => value !== undefined && updateSelectedItem('windZones', { vx: value })} />
+                  <NumberField label="Force vy" value={selected.item.vy} step={0.1} onChange={value => value !== undefined && updateSelectedItem('windZones', { vy: value })} />
+                  {selected.item.kind === 'OSCILLATING' && (
+                    <NumberField label="Period (s)" value={selected.item.period} step={0.5} onChange={value => value !== undefined && value > 0 && updateSelectedItem('windZones', { period: value })} />
+                  )}
+                  <NumberField label="Timed (s)" value={selected.item.duration} optional onChange={value => updateSelectedItem('windZones', { duration: value })} />
+                  {selected.item.duration === undefined && (
+                    <NumberField label="Height (px)" value={selected.item.height} optional onChange={value => updateSelectedItem('windZones', { height: value })} />
+                  )}
+                </>
+              )}
+
+              {selected.kind === 'coins' && (
+                <>
+                  <NumberField label="Count" value={selected.item.count} onChange={value => value !== undefined && updateSelectedItem('coins', { count: Math.round(value) })} />
+                  <NumberField label="Spacing (px)" value={selected.item.spacing} optional onChange={value => updateSelectedItem('coins', { spacing: value })} />
+                  <NumberField label="Step X" value={selected.item.dx} step={0.01} optional onChange={value => updateSelectedItem('coins', { dx: value })} />
+                </>
+              )}
+
+              <button onClick={deleteSelectedItem} className="w-full mt-2 py-1.5 rounded-lg bg-red-500/20 hover:bg-red-500/40 border border-red-500/40 text-red-200 text-xs font-bold">
+                🗑️ Delete
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditor;
@@ -26,4 +26,4 @@ try {
     console.warn("Firebase initialization failed. Leaderboard will work in offline/mock mode if implemented, or fail silently.", error);
 }
 
-export { db };
\ No newline at end of file
+export { app, db };
\ No newline at end of file
@@ -1,176 +1,33 @@
 import { ChallengeLevel, ChallengObjective } from '../types';
+import { validateLevel } from './levelLoader';
+import { POWER_UP_DEFINITIONS } from './powerUps';
+import gentleBreeze from '../levels/01-gentle-breeze.json';
+import nightGlide from '../levels/02-night-glide.json';
+import thunderRun from '../levels/03-thunder-run.json';
+import tornadoAlley from '../levels/04-tornado-alley.json';
+import outerSpace from '../levels/05-outer-space.json';
+import gustRider from '../levels/06-gust-rider.json';
 
 /**
  * Challenge Levels Configuration
- * Handcrafted levels with specific objectives and themes
+ * Handcrafted levels with specific objectives and themes, authored as JSON in /levels
  */
 
-export const CHALLENGE_LEVELS: ChallengeLevel[] = [
-  // Level 1: Gentle Breeze
-  {
-    id: 1,
-    name: 'Gentle Breeze',
-    description: 'Learn the basics with calm skies and gentle winds',
-    theme: 'GENTLE',
-    targetDepth: 500,
-    coinGoal: 10,
-    objectives: [
-      {
-        type: 'REACH_DEPTH',
-        description: 'Reach 500m depth',
-        target: 500,
-        current: 0,
-        completed: false
-      },
-      {
-        type: 'COLLECT_COINS',
-        description: 'Collect 10 coins',
-        target: 10,
-        current: 0,
-        completed: false
-      }
-    ]
-  },
-
-  // Level 2: Night Glide
-  {
-    id: 2,
-    name: 'Night Glide',
-    description: 'Glide through the starry night sky',
-    theme: 'NIGHT',
-    duration: 90, // 90 seconds
-    targetDepth: 1000,
-    objectives: [
-      {
-        type: 'SURVIVE_TIME',
-        description: 'Survive for 90 seconds',
-        target: 90,
-        current: 0,
-        completed: false
-      },
-      {
-        type: 'REACH_DEPTH',
-        description: 'Reach 1000m depth',
-        target: 1000,
-        current: 0,
-        completed: false
-      },
-      {
-        type: 'NO_DAMAGE',
-        description: 'Take no damage',
-        target: 1,
-        current: 1,
-        completed: false
-      }
-    ]
-  },
-
-  // Level 3: Thunder Run
-  {
-    id: 3,
-    name: 'Thunder Run',
-    description: 'Navigate through thunderstorms and lightning',
-    theme: 'THUNDER',
-    targetDepth: 1500,
-    coinGoal: 25,
-    objectives: [
-      {
-        type: 'REACH_DEPTH',
-        description: 'Reach 1500m depth',
-        target: 1500,
-        current: 0,
-        completed: false
-      },
-      {
-        type: 'COLLECT_COINS',
-        description: 'Collect 25 coins',
-        target: 25,
-        current: 0,
-        completed: false
-      },
-      {
-        type: 'AVOID_OBSTACLES',
-        description: 'Avoid 50 obstacles',
-        target: 50,
-        current: 0,
-        completed: false
-      }
-    ]
-  },
-
-  // Level 4: Tornado Alley
-  {
-    id: 4,
-    name: 'Tornado Alley',
-    description: 'Master extreme winds and turbulence',
-    theme: 'TORNADO',
-    duration: 120,
-    targetDepth: 2000,
-    objectives: [
-      {
-        type: 'SURVIVE_TIME',
-        description: 'Survive for 120 seconds',
-        target: 120,
-        current: 0,
-        completed: false
-      },
-      {
-        type: 'REACH_DEPTH',
-        description: 'Reach 2000m depth',
-        target: 2000,
-        current: 0,
-        completed: false
-      },
-      {
-        type: 'COLLECT_COINS',
-        description: 'Collect 30 coins',
-        target: 30,
-        current: 0,
-        completed: false
-      }
-    ]
-  },
-
-  // Level 5: Outer Space
-  {
-    id: 5,
-    name: 'Outer Space',
-    description: 'Glide through the cosmos beyond atmosphere',
-    theme: 'SPACE',
-    duration: 180,
-    targetDepth: 5000,
-    coinGoal: 50,
-    objectives: [
-      {
-        type: 'SURVIVE_TIME',
-        description: 'Survive for 180 seconds',
-        target: 180,
-        current: 0,
-        completed: false
-      },
-      {
-        type: 'REACH_DEPTH',
-        description: 'Reach 5000m depth',
-        target: 5000,
-        current: 0,
-        completed: false
-      },
-      {
-        type: 'COLLECT_COINS',
-        description: 'Collect 50 coins',
-        target: 50,
-        current: 0,
-        completed: false
-      },
-      {
-        type: 'NO_DAMAGE',
-        description: 'Complete with no damage',
-        target: 1,
-        current: 1,
-        completed: false
-      }
-    ]
+const loadLevel = (data: unknown, file: string): ChallengeLevel => {
+  const result = validateLevel(data);
+  if (!result.success || !result.level) {
+    throw new Error(`Invalid level ${file}: ${result.errors.join('; ')}`);
   }
+  return result.level;
+};
+
+export const CHALLENGE_LEVELS: ChallengeLevel[] = [
+  loadLevel(gentleBreeze, '01-gentle-breeze.json'),
+  loadLevel(nightGlide, '02-night-glide.json'),
+  loadLevel(thunderRun, '03-thunder-run.json'),
+  loadLevel(tornadoAlley, '04-tornado-alley.json'),
+  loadLevel(outerSpace, '05-outer-space.json'),
+  loadLevel(gustRider, '06-gust-rider.json')
 ];
 
 /**
@@ -190,3 +47,33 @@ export const initializeLevelObjectives = (levelId: number): ChallengObjective[]
   // Return deep copy of objectives
   return level.objectives.map(obj => ({ ...obj }));
 };
+
+/**
+ * Live HUD line for an objective
+ */
+export const getObjectiveHudText = (obj: ChallengObjective): string => {
+  switch (obj.type) {
+    case 'SURVIVE_TIME':
+      return `⏱️ Survive ${obj.current}/${obj.target}s`;
+    case 'REACH_DEPTH':
+      return `📏 Depth ${Math.min(obj.current, obj.target)}/${obj.target}m`;
+    case 'COLLECT_COINS':
+      return `💰 Coins ${obj.current}/${obj.target}`;
+    case 'NO_DAMAGE':
+      return obj.current === 1 ? '🛡️ No damage taken' : '💥 Damage taken';
+    case 'AVOID_OBSTACLES':
+      return `🐦 Dodged ${obj.current}/${obj.target}`;
+    case 'COLLECT_POWERUP':
+      return `✨ ${obj.powerUpType ? POWER_UP_DEFINITIONS[obj.powerUpType].name : 'Power-ups'} ${obj.current}/${obj.target}`;
+    case 'WIND_TIME':
+      return `💨 In wind ${obj.current}/${obj.target}s`;
+    case 'UMBRELLA_CLOSED':
+      return obj.completed ? `🪂 Closed dive ${obj.target}s done` : `🪂 Umbrella closed ${obj.current}/${obj.target}s`;
+    case 'TIME_LIMIT':
+      return obj.completed ? `⏰ ${Math.max(0, obj.target - obj.current)}s left` : '⏰ Out of time';
+    case 'RIDE_GUSTS':
+      return `🌬️ Gusts ridden ${obj.current}/${obj.target}`;
+    case 'NO_EDGES':
+      return obj.current === 1 ? '↔️ Edges untouched' : '↔️ Touched an edge';
+  }
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { Obstacle } from '../types';
+import { CollisionShape, getObstacleShapes, getPlayerShapes, rectPolygon, shapesOverlap } from './collision';
+import { createPlayerState } from './glideSimulation';
+
+const circle = (x: number, y: number, radius: number): CollisionShape => ({ kind: 'CIRCLE', x, y, radius });
+
+const createObstacle = (type: Obstacle['type'], width: number, height: number): Obstacle => ({
+  id: type,
+  x: 0,
+  y: 0,
+  width,
+  height,
+  type,
+  behavior: 'DRIFT',
+  speedX: 0,
+  speedY: 0,
+  timer: 0
+});
+
+const hitsAny = (shapes: CollisionShape[], shape: CollisionShape) => shapes.some(s => shapesOverlap(s, shape));
+
+describe('shapesOverlap', () => {
+  it('counts overlapping circles and capsules but not touching ones', () => {
+    expect(shapesOverlap(circle(0, 0, 10), circle(15, 0, 10))).toBe(true);
+    expect(shapesOverlap(circle(0, 0, 10), circle(20, 0, 10))).toBe(false);
+
+    const capsule: CollisionShape = { kind: 'CAPSULE', a: { x: 0, y: 0 }, b: { x: 100, y: 0 }, radius: 5 };
+    expect(shapesOverlap(capsule, circle(50, 12, 8))).toBe(true);
+    expect(shapesOverlap(capsule, circle(50, 13, 8))).toBe(false);
+  });
+
+  it('separates polygons that only share an edge', () => {
+    const square = rectPolygon({ x: 0, y: 0, width: 10, height: 10 });
+    expect(shapesOverlap(square, rectPolygon({ x: 10, y: 0, width: 10, height: 10 }))).toBe(false);
+    expect(shapesOverlap(square, rectPolygon({ x: 9, y: 9, width: 10, height: 10 }))).toBe(true);
+  });
+
+  it('treats a point on a polygon edge as touching, from either side', () => {
+    const square = rectPolygon({ x: 0, y: 0, width: 10, height: 10 });
+    const onEdge = circle(10, 5, 0);
+    expect(shapesOverlap(square, onEdge)).toBe(false);
+    expect(shapesOverlap(onEdge, square)).toBe(false);
+    expect(shapesOverlap(square, circle(9, 5, 0))).toBe(true);
+    expect(shapesOverlap(square, circle(12, 5, 3))).toBe(true);
+  });
+});
+
+describe('getObstacleShapes', () => {
+  it('leaves the empty corners around a cloud open', () => {
+    const shapes = getObstacleShapes(createObstacle('CLOUD', 100, 60), 'CLOUD');
+
+    expect(hitsAny(shapes, circle(50, 10, 5))).toBe(true); // Middle puff
+    expect(hitsAny(shapes, circle(2, 2, 5))).toBe(false); // Top-left corner
+    expect(hitsAny(shapes, circle(98, 55, 5))).toBe(false); // Bottom-right corner
+    expect(hitsAny(shapes, circle(50, 55, 5))).toBe(false); // Under the puffs
+  });
+
+  it('only collides with the balloon envelope, not its corners or string', () => {
+    const shapes = getObstacleShapes(createObstacle('BALLOON', 40, 60), 'BALLOON');
+
+    expect(hitsAny(shapes, circle(20, 21, 3))).toBe(true);
+    expect(hitsAny(shapes, circle(1, 1, 3))).toBe(false);
+    expect(hitsAny(shapes, circle(39, 1, 3))).toBe(false);
+    expect(hitsAny(shapes, circle(20, 57, 2))).toBe(false); // String
+  });
+
+  it('covers a building and its ledges as boxes', () => {
+    const building = { ...createObstacle('BUILDING', 100, 300), behavior: 'LEDGES' as const, ledges: [{ x: 100, y: 50, width: 30, height: 10 }] };
+    const shapes = getObstacleShapes(building, 'BUILDING');
+
+    expect(hitsAny(shapes, circle(99, 299, 0.5))).toBe(true);
+    expect(hitsAny(shapes, circle(120, 55, 2))).toBe(true);
+    expect(hitsAny(shapes, circle(120, 100, 2))).toBe(false);
+  });
+});
+
+describe('getPlayerShapes', () => {
+  it('widens the canopy as the umbrella opens', () => {
+    const player = createPlayerState(1920, 1080);
+    const besideShaft = circle(player.x + 30, player.y - 69, 1);
+    const canopy = (anim: number) => getPlayerShapes({ ...player, umbrellaAnim: anim }).find(part => part.name === 'CANOPY')!.shape;
+
+    expect(shapesOverlap(canopy(1), besideShaft)).toBe(true);
+    expect(shapesOverlap(canopy(0), besideShaft)).toBe(false);
+  });
+
+  it('rotates the body with the player', () => {
+    const player = createPlayerState(1920, 1080);
+    const head = (angle: number) => getPlayerShapes({ ...player, angle }).find(part => part.name === 'HEAD')!.shape;
+
+    expect(head(0)).toMatchObject({ kind: 'CIRCLE', x: player.x, y: player.y - 30 });
+    const tilted = head(Math.PI / 2);
+    expect(tilted.kind === 'CIRCLE' && tilted.x).toBeCloseTo(player.x + 30);
+  });
+});
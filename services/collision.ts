@@ -0,0 +1,246 @@
+import { Obstacle, PlayerState, Point, Rect } from '../types';
+import { ObstacleSprite } from './levelThemes';
+
+/**
+ * Collision
+ * Precise shapes for obstacles and the player: circles, capsules (rounded line segments) and convex polygons.
+ * Everything is in world space, so the debug overlay can draw exactly what the simulation tests.
+ */
+
+export type CollisionShape =
+  | { kind: 'CIRCLE'; x: number; y: number; radius: number }
+  | { kind: 'CAPSULE'; a: Point; b: Point; radius: number }
+  | { kind: 'POLYGON'; points: Point[] }; // Convex, either winding
+
+export type BodyPartName = 'HEAD' | 'TORSO' | 'CANOPY';
+
+export interface BodyPart {
+  name: BodyPartName;
+  shape: CollisionShape;
+}
+
+// --- Geometry ---
+
+const cross = (o: Point, a: Point, b: Point): number => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+const distanceSq = (a: Point, b: Point): number => (a.x - b.x) ** 2 + (a.y - b.y) ** 2;
+
+const closestOnSegment = (p: Point, a: Point, b: Point): Point => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return a;
+  const t = Math.min(Math.max(((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq, 0), 1);
+  return { x: a.x + dx * t, y: a.y + dy * t };
+};
+
+const segmentsIntersect = (a: Point, b: Point, c: Point, d: Point): boolean => {
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+};
+
+// Squared gap between two segments (0 when they cross)
+const segmentDistanceSq = (a: Point, b: Point, c: Point, d: Point): number => {
+  if (segmentsIntersect(a, b, c, d)) return 0;
+  return Math.min(
+    distanceSq(a, closestOnSegment(a, c, d)),
+    distanceSq(b, closestOnSegment(b, c, d)),
+    distanceSq(c, closestOnSegment(c, a, b)),
+    distanceSq(d, closestOnSegment(d, a, b))
+  );
+};
+
+// Strictly inside - a point on an edge only touches, like everywhere else in this module
+const pointInPolygon = (p: Point, points: Point[]): boolean => {
+  let sign = 0;
+  for (let i = 0; i < points.length; i++) {
+    const side = cross(points[i], points[(i + 1) % points.length], p);
+    if (side === 0) return false;
+    if (sign === 0) sign = Math.sign(side);
+    else if (Math.sign(side) !== sign) return false;
+  }
+  return true;
+};
+
+// Separating axis test for two convex polygons
+const polygonsOverlap = (a: Point[], b: Point[]): boolean => {
+  for (const points of [a, b]) {
+    for (let i = 0; i < points.length; i++) {
+      const next = points[(i + 1) % points.length];
+      const axis = { x: next.y - points[i].y, y: points[i].x - next.x };
+      let minA = Infinity, maxA = -Infinity, minB = Infinity, maxB = -Infinity;
+      for (const p of a) {
+        const projection = p.x * axis.x + p.y * axis.y;
+        minA = Math.min(minA, projection);
+        maxA = Math.max(maxA, projection);
+      }
+      for (const p of b) {
+        const projection = p.x * axis.x + p.y * axis.y;
+        minB = Math.min(minB, projection);
+        maxB = Math.max(maxB, projection);
+      }
+      if (maxA <= minB || maxB <= minA) return false;
+    }
+  }
+  return true;
+};
+
+// Circles are capsules with both ends in the same place
+const toCapsule = (shape: Exclude<CollisionShape, { kind: 'POLYGON' }>) =>
+  shape.kind === 'CIRCLE' ? { a: { x: shape.x, y: shape.y }, b: { x: shape.x, y: shape.y }, radius: shape.radius } : shape;
+
+const polygonHitsCapsule = (points: Point[], capsule: { a: Point; b: Point; radius: number }): boolean => {
+  if (pointInPolygon(capsule.a, points)) return true;
+  const radiusSq = capsule.radius * capsule.radius;
+  for (let i = 0; i < points.length; i++) {
+    if (segmentDistanceSq(points[i], points[(i + 1) % points.length], capsule.a, capsule.b) < radiusSq) return true;
+  }
+  return false;
+};
+
+/**
+ * Whether two shapes overlap (touching edges don't count)
+ */
+export const shapesOverlap = (first: CollisionShape, second: CollisionShape): boolean => {
+  if (first.kind === 'POLYGON' && second.kind === 'POLYGON') return polygonsOverlap(first.points, second.points);
+  if (first.kind === 'POLYGON') return polygonHitsCapsule(first.points, toCapsule(second as Exclude<CollisionShape, { kind: 'POLYGON' }>));
+  if (second.kind === 'POLYGON') return polygonHitsCapsule(second.points, toCapsule(first));
+
+  const a = toCapsule(first);
+  const b = toCapsule(second);
+  const reach = a.radius + b.radius;
+  return segmentDistanceSq(a.a, a.b, b.a, b.b) < reach * reach;
+};
+
+/**
+ * The shape grown by a margin on every side (polygons push each corner out from the centre)
+ */
+export const inflateShape = (shape: CollisionShape, margin: number): CollisionShape => {
+  if (shape.kind !== 'POLYGON') return { ...shape, radius: shape.radius + margin };
+
+  const cx = shape.points.reduce((sum, p) => sum + p.x, 0) / shape.points.length;
+  const cy = shape.points.reduce((sum, p) => sum + p.y, 0) / shape.points.length;
+  return {
+    kind: 'POLYGON',
+    points: shape.points.map(p => {
+      const distance = Math.sqrt((p.x - cx) ** 2 + (p.y - cy) ** 2) || 1;
+      return { x: p.x + ((p.x - cx) / distance) * margin, y: p.y + ((p.y - cy) / distance) * margin };
+    })
+  };
+};
+
+export const rectPolygon = (rect: Rect): CollisionShape => ({
+  kind: 'POLYGON',
+  points: [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height }
+  ]
+});
+
+// --- Obstacles ---
+
+/**
+ * Collision shapes for an obstacle, following how its sprite is drawn
+ */
+export const getObstacleShapes = (obs: Obstacle, sprite: ObstacleSprite): CollisionShape[] => {
+  const { x, y, width, height } = obs;
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+
+  if (obs.behavior === 'SCRAP') {
+    // Tumbling triangle, same rotation as the renderer
+    const angle = obs.timer * 0.2;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const corners = [
+      { x: -width / 2, y: -height / 3 },
+      { x: width / 2, y: 0 },
+      { x: -width / 4, y: height / 2 }
+    ];
+    return [{ kind: 'POLYGON', points: corners.map(p => ({ x: cx + p.x * cos - p.y * sin, y: cy + p.x * sin + p.y * cos })) }];
+  }
+
+  switch (sprite) {
+    case 'CLOUD':
+    case 'STORM_CLOUD': {
+      // Three puffs
+      const unit = width / 100;
+      return [
+        { kind: 'CIRCLE', x: x + 20 * unit, y: y + 20 * unit, radius: 20 * unit },
+        { kind: 'CIRCLE', x: x + 50 * unit, y: y + 10 * unit, radius: 30 * unit },
+        { kind: 'CIRCLE', x: x + 80 * unit, y: y + 20 * unit, radius: 20 * unit }
+      ];
+    }
+    case 'BIRD': {
+      // Wing line along the top edge, half as wide once a swoop tucks the wings
+      const span = obs.behavior === 'SWOOP' && obs.timer > 0 ? width / 2 : width;
+      const radius = height / 5;
+      return [{ kind: 'CAPSULE', a: { x: cx - span / 2 + radius, y }, b: { x: cx + span / 2 - radius, y }, radius }];
+    }
+    case 'BALLOON':
+      // Envelope only - the string is harmless
+      return [{ kind: 'CIRCLE', x: cx, y: y + height * 0.35, radius: width / 2 }];
+    case 'ASTEROID':
+      return [{ kind: 'CIRCLE', x: cx, y: cy, radius: Math.min(width, height) * 0.42 }];
+    case 'DEBRIS':
+      // The plank spins with the animation, so it is treated as round
+      return [{ kind: 'CIRCLE', x: cx, y: cy, radius: Math.min(width, height) * 0.4 }];
+    case 'PLANE': {
+      const dir = obs.speedX >= 0 ? 1 : -1;
+      const w = width / 2;
+      const h = height / 2;
+      const local = (px: number, py: number): Point => ({ x: cx + px * w * dir, y: cy + py * h });
+      return [
+        { kind: 'CAPSULE', a: local(-0.7, 0), b: local(0.7, 0), radius: h * 0.3 },
+        { kind: 'POLYGON', points: [local(-0.3, 0), local(0.1, 0), local(-0.2, 1)] }, // Wing
+        { kind: 'POLYGON', points: [local(-0.95, 0), local(-0.7, 0), local(-0.95, -1)] } // Tail fin
+      ];
+    }
+    case 'BUILDING':
+      return [rectPolygon(obs), ...(obs.ledges ?? []).map(ledge => rectPolygon({ ...ledge, x: x + ledge.x, y: y + ledge.y }))];
+    default:
+      return [rectPolygon(obs)];
+  }
+};
+
+// --- Player ---
+
+// Stickman layout around player.x/y before rotation (matches drawStickman)
+const HEAD = { x: 0, y: -30, radius: 12 };
+const TORSO = { top: -18, bottom: 20, radius: 6 }; // Neck to feet
+const UMBRELLA_TIP_Y = -67;
+const CANOPY_MAX_RADIUS = 40;
+const CANOPY_MIN_RADIUS = 5;
+
+/**
+ * The stickman's collision parts: head, torso (with legs) and the umbrella canopy
+ */
+export const getPlayerShapes = (player: PlayerState): BodyPart[] => {
+  const angle = player.isSpinning || player.spinRotation !== 0 ? player.spinRotation : player.angle;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const toWorld = (px: number, py: number): Point => ({ x: player.x + px * cos - py * sin, y: player.y + px * sin + py * cos });
+
+  // Canopy: hull of the two drawn curves - a low dome when open, a narrow wedge along the shaft when closed
+  const anim = player.umbrellaAnim;
+  const bounce = player.umbrellaBounce;
+  const radius = (CANOPY_MIN_RADIUS + (CANOPY_MAX_RADIUS - CANOPY_MIN_RADIUS) * anim) * bounce;
+  const tipY = UMBRELLA_TIP_Y * bounce;
+  const cornerY = tipY + 25 * (1 - anim) * bounce;
+  const midY = tipY * 0.75 + cornerY * 0.25 - 6 * anim * bounce; // Curve midpoints
+  const canopy = [toWorld(-radius, cornerY), toWorld(-radius / 2, midY)];
+  if (tipY < midY) canopy.push(toWorld(0, tipY)); // The tip only sticks out while mostly closed
+  canopy.push(toWorld(radius / 2, midY), toWorld(radius, cornerY));
+  const head = toWorld(HEAD.x, HEAD.y);
+
+  return [
+    { name: 'HEAD', shape: { kind: 'CIRCLE', x: head.x, y: head.y, radius: HEAD.radius } },
+    { name: 'TORSO', shape: { kind: 'CAPSULE', a: toWorld(0, TORSO.top), b: toWorld(0, TORSO.bottom), radius: TORSO.radius } },
+    { name: 'CANOPY', shape: { kind: 'POLYGON', points: canopy } }
+  ];
+};
@@ -201,6 +201,33 @@ export const triggerHappyTime = () => {
   }
 };
 
+// Stand-in for local dev (never used in production builds): "plays" an ad for a couple of seconds and always rewards
+const MOCK_AD_DURATION_MS = 2000;
+
+const mockRewardedAd = (): Promise<boolean> => {
+  console.warn('CrazyGames SDK not available - using mock rewarded ad');
+  return new Promise((resolve) => {
+    setTimeout(() => resolve(true), MOCK_AD_DURATION_MS);
+  });
+};
+
+// Resolves true once the player has watched the whole ad and earned the reward
+export const requestRewardedAd = async (): Promise<boolean> => {
+  if (!sdkInitialized || !window.CrazyGames?.SDK) {
+    if (import.meta.env.DEV) return mockRewardedAd();
+    console.warn('CrazyGames SDK not available - no rewarded ad to show');
+    return false;
+  }
+
+  try {
+    await window.CrazyGames.SDK.ad.requestAd('rewarded');
+    return true;
+  } catch (e) {
+    console.error('Error playing rewarded ad:', e);
+    return false;
+  }
+};
+
 // Debug helper
 export const getCrazyGamesSDKStatus = () => {
   return {
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { ChallengeLevel, SimulationInput } from '../types';
+import { GlideSimulation, TICKS_PER_SECOND } from './glideSimulation';
+import { createBlankLevel, createObjective } from './levelLoader';
+import { createConfig, createWall } from './testFixtures';
+
+// Glides in a slow zig-zag so the run covers some ground
+const scriptedInput = (tick: number): SimulationInput => ({
+  isUmbrellaOpen: tick % 90 < 60,
+  targetX: 960 + Math.sin(tick / 50) * 400
+});
+
+const run = (sim: GlideSimulation, ticks: number) => {
+  for (let i = 0; i < ticks && !sim.getState().isOver; i++) sim.step(scriptedInput(sim.getState().tick));
+  return sim.getState();
+};
+
+// A level with nothing spawning, so only the test decides what the player meets
+const createQuietLevel = (objectives: ChallengeLevel['objectives']): ChallengeLevel => {
+  const level = createBlankLevel();
+  return {
+    ...level,
+    spawns: { ...level.spawns, obstacleInterval: 1_000_000, windZoneDensity: 0, powerUpInterval: 1_000_000, coinInterval: 1_000_000 },
+    objectives
+  };
+};
+
+describe('GlideSimulation', () => {
+  it('replays identically from the same seed and inputs', () => {
+    const first = run(new GlideSimulation(createConfig()), 1200);
+    const second = run(new GlideSimulation(createConfig()), 1200);
+
+    expect(first.tick).toBeGreaterThan(0);
+    expect(JSON.stringify(second)).toBe(JSON.stringify(first));
+  });
+
+  it('spawns a different world from a different seed', () => {
+    const first = run(new GlideSimulation(createConfig()), 600);
+    const second = run(new GlideSimulation(createConfig({ seed: 99 })), 600);
+
+    expect(JSON.stringify(second.obstacles)).not.toBe(JSON.stringify(first.obstacles));
+  });
+
+  it('ends the run when the player flies into a building', () => {
+    const sim = new GlideSimulation(createConfig());
+    const { player, obstacles } = sim.getState();
+    obstacles.push(createWall(player.x, player.y));
+
+    const world = sim.step({ isUmbrellaOpen: false, targetX: player.x });
+
+    expect(world.isOver).toBe(true);
+    expect(world.health.hp).toBe(0);
+    expect(world.events).toContainEqual(expect.objectContaining({ type: 'CRASHED' }));
+    expect(sim.canRevive()).toBe(false); // Only runs that allow a continue keep a snapshot to go back to
+  });
+
+  it('completes a challenge once every objective is met', () => {
+    const level = createQuietLevel([createObjective('SURVIVE_TIME', 'Survive 2 seconds', 2)]);
+    const sim = new GlideSimulation(createConfig({ gameMode: 'CHALLENGE', level }));
+
+    run(sim, 2 * TICKS_PER_SECOND); // Objectives see the time the tick started at
+    expect(sim.getState().isOver).toBe(false);
+    expect(sim.getState().levelProgress?.objectives[0]).toMatchObject({ current: 1, completed: false });
+
+    const world = sim.step(scriptedInput(sim.getState().tick));
+    expect(world.isOver).toBe(true);
+    expect(world.levelProgress?.objectives[0].completed).toBe(true);
+    expect(world.events).toContainEqual({ type: 'LEVEL_COMPLETE', levelId: level.id });
+  });
+
+  it('continues a crashed run from the world as it was before the fatal tick', () => {
+    const level = createQuietLevel([
+      createObjective('SURVIVE_TIME', 'Survive 60 seconds', 60),
+      createObjective('NO_DAMAGE', 'Take no damage', 1)
+    ]);
+    const sim = new GlideSimulation(createConfig({ gameMode: 'CHALLENGE', level, allowContinue: true }));
+    const before = run(sim, 5 * TICKS_PER_SECOND);
+    const { score, depth, tick } = before;
+    const { player } = before;
+    before.obstacles.push(createWall(player.x, player.y));
+
+    const crashed = sim.step({ isUmbrellaOpen: false, targetX: player.x });
+    expect(crashed.isOver).toBe(true);
+    expect(crashed.levelProgress?.objectives[1].current).toBe(0);
+
+    expect(sim.revive()).toBe(true);
+    const world = sim.getState();
+    expect(world).toBe(crashed);
+    expect(depth).toBeGreaterThan(0);
+    expect(world).toMatchObject({ isOver: false, score, depth, tick: tick + 1, events: [] });
+    expect(world.obstacles.map(obs => obs.id)).not.toContain('wall');
+    expect(world.health).toMatchObject({ hp: 1, knockbackVx: 0 });
+    expect(world.health.invulnerableTicks).toBeGreaterThan(0);
+    expect(world.levelProgress?.objectives[1].current).toBe(1);
+    expect(sim.canRevive()).toBe(false);
+  });
+});
@@ -0,0 +1,1544 @@
+import {
+  SimulationConfig,
+  SimulationInput,
+  SimulationEvent,
+  WorldState,
+  PlayerState,
+  Obstacle,
+  ObstacleBehavior,
+  PowerUp,
+  LevelEvent,
+  LevelFailReason,
+  LevelSpawnTable,
+  LevelWave,
+  ChallengeLevel,
+  GameMode,
+  Point,
+  StyleTrick,
+  WindZone
+} from '../types';
+import { createSeededRandom, SeededRandom } from './random';
+import { CollisionShape, getObstacleShapes, getPlayerShapes, inflateShape, shapesOverlap } from './collision';
+import { collectPowerUp, getBankedStacks, getPowerUpModifiers, getPowerUpSpawnWeight, POWER_UP_DEFINITIONS, POWER_UP_TYPES } from './powerUps';
+import { DEFAULT_SPAWN_TABLE, OBSTACLE_BEHAVIORS, OBSTACLE_TYPES, STORM_SPAWN_TABLE, isConstraintObjective } from './levelLoader';
+import { DEFAULT_OBSTACLE_SPRITES, OBSTACLE_SPRITE_NAMES, THEME_DEFINITIONS, ThemeHazards } from './levelThemes';
+import { awardStyle, breakCombo, createStyleState, decayCombo, DIVE_MIN_TICKS, NEAR_MISS_MARGIN, THREAD_CLEARANCE, WIND_EDGE_MARGIN, WIND_EDGE_TICKS } from './styleScoring';
+
+/**
+ * Glide Simulation
+ * Headless game core: physics, spawning, collisions and objective tracking.
+ * No DOM or canvas access - the renderer reads the world state after each step.
+ */
+
+// Simulation tick rate (fixed timestep)
+export const TICKS_PER_SECOND = 60;
+
+// World entities scroll faster than the player falls (parallax against the player)
+export const WORLD_SCROLL_FACTOR = 1.5;
+
+// Base values at 1920x1080 reference resolution
+const REFERENCE_WIDTH = 1920;
+const REFERENCE_HEIGHT = 1080;
+
+// MASSIVELY REDUCED for 3x slower gameplay - scaled to screen size
+const BASE_GRAVITY = 0.18; // Was 0.5, now ~3x slower
+const BASE_GLIDE_GRAVITY = 0.06; // Was 0.15, now ~3x slower
+const BASE_TERMINAL_VELOCITY = 6; // Was 15, now ~3x slower
+const BASE_GLIDE_TERMINAL_VELOCITY = 1.5; // Was 3, now 2x slower
+const WORLD_SPEED_MULTIPLIER_MAX = 2.0; // At max difficulty, world is 2x faster
+
+export const PLAYER_MARGIN = 50; // Give some margin for umbrella
+
+// Lives mode
+export const ENDLESS_LIVES_HP = 3;
+const HIT_INVULNERABLE_TICKS = 90; // 1.5 seconds of blinking through obstacles (umbrella stays broken as long)
+const HIT_KNOCKBACK_SPEED = 10; // Sideways push at reference resolution, decays 15% per tick
+const HIT_KNOCKBACK_LIFT = 5; // Upward bounce at reference resolution
+
+// Continue after a crash (once per run)
+const REVIVE_INVULNERABLE_TICKS = 180; // 3 seconds of blinking
+const REVIVE_CLEAR_RADIUS = 450; // Obstacles this close to the player are removed, at reference resolution
+
+// Lightning strikes: warning column, bolt, afterglow
+const LIGHTNING_STRIKE_WIDTH = 120; // Bolt column width at reference resolution
+export const LIGHTNING_WARNING_TICKS = 60; // 1 second to get out of the column
+const LIGHTNING_STRIKE_TICKS = 8;
+export const LIGHTNING_AFTERGLOW_TICKS = 40;
+const LIGHTNING_ROD_REACH = 40; // An open umbrella is hit this much further out (reference px)
+const LIGHTNING_BROKEN_TICKS = 120; // A closed umbrella survives a hit but stays broken for 2 seconds
+const LIGHTNING_HAZARD_DIFFICULTY = 0.6; // Above this, ENDLESS lightning strikes too
+
+// Obstacle behaviours (reference resolution)
+const BIRD_SINE_SPEED = 2; // Peak vertical flap speed
+const BIRD_SINE_RATE = 0.08; // Radians per tick
+const BIRD_SWOOP_RANGE = 350; // A swooping bird dives once it is this far below the player
+const BIRD_SWOOP_SPEED = 5;
+const BALLOON_RISE_SPEED = 1; // Climb on top of the world scroll
+const BALLOON_POP_TICKS = 45; // Minimum time on screen before popping
+const SCRAP_COUNT = 5;
+const SCRAP_SIZE = 30;
+const SCRAP_SPEED = 4;
+const SCRAP_TICKS = 60;
+const LEDGE_WIDTH = 70; // How far a window ledge sticks out
+const LEDGE_HEIGHT = 14;
+const LEDGE_SPACING = 160;
+const PLANE_SPEED = 14;
+const PLANE_WARNING_TICKS = 90; // Edge warning before a plane flies in
+const PLANE_MIN_SCORE = 1500;
+
+const MAGNET_PULL_SPEED = 14; // Coin speed toward the player inside the magnet range (reference px per tick)
+
+/**
+ * Hit points for a run: challenge levels choose their own, ENDLESS follows the lives setting, STORM is always one-hit
+ */
+export const getMaxHp = (gameMode: GameMode, level: ChallengeLevel | null, livesMode: boolean): number => {
+  if (gameMode === 'CHALLENGE') return level?.maxHp ?? 1;
+  return gameMode === 'ENDLESS' && livesMode ? ENDLESS_LIVES_HP : 1;
+};
+
+// Authored obstacle sizes at reference resolution (random spawns vary building width)
+const WAVE_OBSTACLE_SIZES: Record<Obstacle['type'], { width: number; height: number }> = {
+  BIRD: { width: 120, height: 70 },
+  BALLOON: { width: 100, height: 150 },
+  BUILDING: { width: 400, height: 700 },
+  CLOUD: { width: 350, height: 200 },
+  PLANE: { width: 260, height: 80 }
+};
+
+/**
+ * How far through its cycle an oscillating zone is: 1 = full vx/vy, -1 = fully reversed
+ */
+export const getWindZonePhase = (zone: WindZone, tick: number): number => {
+  if (zone.kind !== 'OSCILLATING' || !zone.period) return 1;
+  return Math.cos((2 * Math.PI * tick) / zone.period);
+};
+
+/**
+ * Wind force a zone applies at a point on a given tick (null outside the zone)
+ */
+export const getWindZoneForce = (zone: WindZone, x: number, y: number, tick: number): Point | null => {
+  if (zone.kind === 'VORTEX') {
+    const radius = Math.min(zone.width, zone.height) / 2;
+    const dx = x - (zone.x + zone.width / 2);
+    const dy = y - (zone.y + zone.height / 2);
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    if (distance >= radius || distance === 0) return null;
+
+    // Tangent (clockwise on screen) plus a pull toward the eye
+    const nx = dx / distance;
+    const ny = dy / distance;
+    return { x: -ny * zone.vx - nx * zone.vy, y: nx * zone.vx - ny * zone.vy };
+  }
+
+  // Simple AABB
+  if (!(x > zone.x && x < zone.x + zone.width && y > zone.y && y < zone.y + zone.height)) return null;
+
+  if (zone.kind === 'UPDRAFT') {
+    // Strongest on the centre line, nothing at the sides
+    const offset = (x - (zone.x + zone.width / 2)) / (zone.width / 2);
+    const strength = 1 - offset * offset;
+    return { x: zone.vx * strength, y: zone.vy * strength };
+  }
+
+  const phase = getWindZonePhase(zone, tick);
+  return { x: zone.vx * phase, y: zone.vy * phase };
+};
+
+// Inside a zone but within the margin of its border (the rim of a vortex, the sides of the rest)
+const isOnWindZoneEdge = (zone: WindZone, x: number, y: number, margin: number): boolean => {
+  if (zone.kind === 'VORTEX') {
+    const radius = Math.min(zone.width, zone.height) / 2;
+    const distance = Math.sqrt((x - (zone.x + zone.width / 2)) ** 2 + (y - (zone.y + zone.height / 2)) ** 2);
+    return distance < radius && distance > radius - margin;
+  }
+  return x - zone.x < margin || zone.x + zone.width - x < margin;
+};
+
+export const createPlayerState = (width: number, height: number): PlayerState => ({
+  x: width / 2,
+  y: height / 3,
+  vx: 0,
+  vy: 0,
+  isUmbrellaOpen: false,
+  umbrellaAnim: 0,
+  angle: 0,
+  targetX: width / 2,
+  isDancing: false,
+  danceTimer: 0,
+  isSpinning: false,
+  spinRotation: 0,
+  umbrellaIsBroken: false,
+  brokenTimer: 0,
+  umbrellaBounce: 1.0,
+  bounceTimer: 0,
+  dashVx: 0
+});
+
+// Everything a tick can change, copied before it runs so a fatal tick can be undone
+interface TickSnapshot {
+  state: WorldState;
+  lastUmbrellaState: boolean;
+  spawns: LevelSpawnTable;
+  nextLevelEvent: number;
+  nextLevelWave: number;
+  windTicks: number;
+  umbrellaClosedTicks: number;
+  gustCollided: boolean;
+}
+
+export class GlideSimulation {
+  readonly config: SimulationConfig;
+  private rng: SeededRandom;
+  private state: WorldState;
+  private lastUmbrellaState = false;
+  private spawns: LevelSpawnTable;
+  private nextLevelEvent = 0; // Index into config.level.events (sorted by depth)
+  private nextLevelWave = 0; // Index into config.level.waves (sorted by depth)
+  // Objective tracking
+  private windTicks = 0; // Total ticks inside wind zones
+  private umbrellaClosedTicks = 0; // Current closed-umbrella streak
+  private gustCollided = false; // Shield hit during the current gust
+  // Continue
+  private preTick: TickSnapshot | null = null; // World as the latest tick began, while a continue is still possible
+  private revived = false;
+
+  constructor(config: SimulationConfig) {
+    this.config = config;
+    this.rng = createSeededRandom(config.seed);
+
+    const level = config.gameMode === 'CHALLENGE' ? config.level : null;
+    const objectives = level ? level.objectives.map(obj => ({ ...obj })) : null;
+
+    if (level) this.spawns = { ...level.spawns };
+    else this.spawns = config.gameMode === 'STORM' ? STORM_SPAWN_TABLE : DEFAULT_SPAWN_TABLE;
+
+    this.state = {
+      tick: 0,
+      score: 0,
+      depth: 0,
+      difficulty: 0,
+      distanceTraveled: 0,
+      totalScroll: 0,
+      isOver: false,
+      player: createPlayerState(config.width, config.height),
+      health: { hp: config.maxHp, maxHp: config.maxHp, invulnerableTicks: 0, knockbackVx: 0 },
+      style: createStyleState(),
+      windGust: { active: false, vx: 0, vy: 0, timeLeft: 0 },
+      activeWind: { x: 0, y: 0 },
+      obstacles: [],
+      windZones: [],
+      powerUps: [],
+      // Storm Mode: Give player a free shield at start
+      activePowerUps: config.gameMode === 'STORM'
+        ? [{ type: 'SHIELD', timeLeft: 5 * TICKS_PER_SECOND, duration: 5 * TICKS_PER_SECOND, stacks: 1 }]
+        : [],
+      coins: [],
+      lightningStrikes: [],
+      levelProgress: objectives ? { objectives, timeElapsed: 0 } : null,
+      events: []
+    };
+  }
+
+  getState(): WorldState {
+    return this.state;
+  }
+
+  /**
+   * Whether the run ended in a crash that can still be continued
+   */
+  canRevive(): boolean {
+    return this.state.isOver && this.state.health.hp === 0 && !this.revived && this.preTick !== null;
+  }
+
+  /**
+   * Continue a crashed run (once): the world is put back as it was before the fatal tick
+   * (score, objectives and all), obstacles around the player are cleared and they blink
+   * through anything else for a moment. The random stream is not rewound, so spawns differ.
+   */
+  revive(): boolean {
+    const snapshot = this.preTick;
+    if (!snapshot || !this.canRevive()) return false;
+
+    const state = this.state;
+    const crashTick = state.tick;
+    Object.assign(state, snapshot.state); // In place, so anyone holding the state sees the restored world
+    this.lastUmbrellaState = snapshot.lastUmbrellaState;
+    this.spawns = snapshot.spawns;
+    this.nextLevelEvent = snapshot.nextLevelEvent;
+    this.nextLevelWave = snapshot.nextLevelWave;
+    this.windTicks = snapshot.windTicks;
+    this.umbrellaClosedTicks = snapshot.umbrellaClosedTicks;
+    this.gustCollided = snapshot.gustCollided;
+    this.preTick = null;
+
+    const { width, height } = this.config;
+    const scale = Math.min(width / REFERENCE_WIDTH, height / REFERENCE_HEIGHT);
+
+    const player = state.player;
+    Object.assign(player, { umbrellaIsBroken: false, brokenTimer: 0, dashVx: 0 });
+
+    const clearRadius = REVIVE_CLEAR_RADIUS * scale;
+    state.obstacles = state.obstacles.filter(obs => {
+      const dx = Math.max(obs.x - player.x, 0, player.x - (obs.x + obs.width));
+      const dy = Math.max(obs.y - player.y, 0, player.y - (obs.y + obs.height));
+      return dx * dx + dy * dy > clearRadius * clearRadius;
+    });
+    state.lightningStrikes = [];
+    state.windGust.active = false;
+
+    state.health.invulnerableTicks = REVIVE_INVULNERABLE_TICKS;
+    state.health.knockbackVx = 0;
+
+    // The fatal tick is dropped - the run carries on from the next one
+    state.events = [];
+    state.tick = crashTick + 1;
+    this.revived = true;
+    return true;
+  }
+
+  // Deep copy of the world and tick-tracking fields (only the one-hit-from-over state matters)
+  private takeSnapshot(): TickSnapshot {
+    return {
+      state: structuredClone(this.state),
+      lastUmbrellaState: this.lastUmbrellaState,
+      spawns: this.spawns,
+      nextLevelEvent: this.nextLevelEvent,
+      nextLevelWave: this.nextLevelWave,
+      windTicks: this.windTicks,
+      umbrellaClosedTicks: this.umbrellaClosedTicks,
+      gustCollided: this.gustCollided
+    };
+  }
+
+  /**
+   * Advance the world by one tick
+   */
+  step(input: SimulationInput): WorldState {
+    const state = this.state;
+    state.events = [];
+    if (state.isOver) return state;
+    // Only a tick that starts on the last heart can end in a crash worth continuing
+    this.preTick = this.config.allowContinue && !this.revived && state.health.hp === 1 ? this.takeSnapshot() : null;
+
+    const { width, height, difficultyMode, gameMode } = this.config;
+    const level = gameMode === 'CHALLENGE' ? this.config.level : null;
+    const theme = level ? THEME_DEFINITIONS[level.theme] : null;
+    const spawns = this.spawns;
+    const rng = this.rng;
+    const player = state.player;
+
+    player.isUmbrellaOpen = input.isUmbrellaOpen;
+    player.targetX = input.targetX;
+
+    // --- SCREEN SCALE CALCULATION ---
+    // Scale everything based on world size vs reference resolution
+    const scale = Math.min(width / REFERENCE_WIDTH, height / REFERENCE_HEIGHT);
+
+    // --- DIFFICULTY CALCULATION ---
+    // Scales from 0 to 1 over 8000 score units - REBALANCED for more gradual progression
+    const difficulty = Math.min(Math.max(0, state.score - 200) / 8000, 1);
+    state.difficulty = difficulty;
+
+    // Difficulty mode multiplier
+    let modeMultiplier = 1;
+    if (difficultyMode === 'EASY') modeMultiplier = 0.35; // Very easy - slow progression
+    else if (difficultyMode === 'MEDIUM') modeMultiplier = 1.0;
+    else if (difficultyMode === 'HARD') modeMultiplier = 1.5;
+
+    // Storm Mode: 2x obstacles, more wind, constant rain/lightning
+    const isStormMode = gameMode === 'STORM';
+    const stormModeMultiplier = isStormMode ? 2.0 : 1;
+
+    // Dynamic Spawn Rates - NERFED for less spam (ENDLESS: 80 -> 35 ticks, STORM wind: 300 -> 120 ticks)
+    const baseObstacleRate = spawns.obstacleInterval;
+    const obstacleSpawnRate = Math.floor(Math.max(Math.min(35, baseObstacleRate), baseObstacleRate - (difficulty * 30 * modeMultiplier * stormModeMultiplier)));
+    const baseWindZoneRate = spawns.windZoneDensity > 0 ? (60 * TICKS_PER_SECOND) / spawns.windZoneDensity : 0;
+    const windZoneSpawnRate = Math.max(1, Math.floor(Math.max(baseWindZoneRate * 0.4, baseWindZoneRate - (difficulty * baseWindZoneRate * (140 / 300) * modeMultiplier * stormModeMultiplier))));
+    const gustProbability = 0.0005 + (difficulty * 0.004 * modeMultiplier) + (isStormMode ? 0.005 : 0); // HALVED gust frequency
+
+    // Combined effect of the active power-ups
+    const powerUps = getPowerUpModifiers(state.activePowerUps, this.config.powerUpUpgrades);
+
+    // World Speed Scaling (1.0x -> 2.0x)
+    let worldSpeedMultiplier = 1.0 + (difficulty * (WORLD_SPEED_MULTIPLIER_MAX - 1.0) * modeMultiplier);
+
+    // Power-ups that bend time (Slow Motion: 50% speed)
+    worldSpeedMultiplier *= powerUps.worldSpeed;
+
+    // Gravity Scaling - NERFED from 1.8x to 1.4x max
+    const gravityMultiplier = 1.0 + (difficulty * 0.4 * modeMultiplier);
+
+    // Score Multiplier (rewards increase with difficulty)
+    let scoreMultiplier = 1.0 + (difficulty * 1.5); // Up to 2.5x scoring
+
+    // Storm Mode: 3x score multiplier
+    if (isStormMode) {
+      scoreMultiplier *= 3.0;
+    }
+
+    // Trigger Lightning (Storms, Storm Mode or a thunder level)
+    let lightningChance = isStormMode ? 0.01 : (difficulty > 0.4 ? 0.002 * difficulty : 0);
+    if (level?.theme === 'THUNDER') lightningChance = Math.max(lightningChance, 0.004);
+    if (lightningChance > 0 && rng.chance(lightningChance)) {
+      this.triggerLightning(scale);
+    }
+
+    // Detect Umbrella Toggle
+    if (player.isUmbrellaOpen !== this.lastUmbrellaState) {
+      const effectY = player.y - 50; // Approximate center of umbrella
+      if (player.isUmbrellaOpen) {
+        // Trigger umbrella bounce effect
+        player.umbrellaBounce = 1.3; // Bounce to 130%
+        player.bounceTimer = 10; // Bounce for 10 ticks
+        state.events.push({ type: 'UMBRELLA_OPENED', x: player.x, y: effectY });
+      } else {
+        state.events.push({ type: 'UMBRELLA_CLOSED', x: player.x, y: effectY });
+      }
+      this.lastUmbrellaState = player.isUmbrellaOpen;
+    }
+
+    // --- PHYSICS ENGINE ---
+
+    // 1. Umbrella State Animation
+    const targetAnim = player.isUmbrellaOpen ? 1 : 0;
+    player.umbrellaAnim += (targetAnim - player.umbrellaAnim) * 0.2;
+
+    // Reset accumulated wind force for UI
+    let currentWindX = 0;
+    let currentWindY = 0;
+
+    // 2. Wind Gust Logic (Global)
+    const gust = state.windGust;
+    if (gust.active) {
+      gust.timeLeft--;
+      if (gust.timeLeft <= 0) {
+        gust.active = false;
+        if (!this.gustCollided) this.advanceObjective('RIDE_GUSTS');
+      } else {
+        // Accumulate global wind
+        currentWindX += gust.vx;
+        currentWindY += gust.vy;
+      }
+    } else {
+      // Dynamic Gust Chance (ONLY in Storm Mode)
+      if (isStormMode && state.score > 300 && rng.chance(gustProbability)) {
+        const direction = rng.next() > 0.5 ? 1 : -1;
+        const difficultyMult = 1 + difficulty;
+
+        this.gustCollided = false;
+        state.windGust = {
+          active: true,
+          vx: direction * (5 + rng.next() * 8) * difficultyMult, // Stronger with difficulty
+          vy: -0.5 - rng.next() * 1.5 * difficultyMult, // Stronger updraft
+          timeLeft: 60 + rng.next() * 60 // 1-2 seconds
+        };
+      }
+    }
+
+    // 3. Horizontal Movement (Drag & Inertia)
+    const dx = player.targetX - player.x;
+
+    // Responsiveness: umbrella open is slightly less responsive
+    const responsiveness = player.isUmbrellaOpen ? 0.08 : 0.15;
+    let moveSpeed = dx * responsiveness;
+
+    // Clamp max lateral speed - SCALED TO SCREEN SIZE
+    const MAX_LATERAL_SPEED = 12 * scale;
+    if (moveSpeed > MAX_LATERAL_SPEED) moveSpeed = MAX_LATERAL_SPEED;
+    if (moveSpeed < -MAX_LATERAL_SPEED) moveSpeed = -MAX_LATERAL_SPEED;
+
+    // Apply Wind Gust Forces (unless Wind Breaker is active)
+    let gustVx = 0;
+    if (state.windGust.active && !powerUps.windImmune) {
+      gustVx = state.windGust.vx;
+      player.vy += state.windGust.vy; // Apply Updraft
+    }
+
+    // Knockback from the last hit fades out
+    const health = state.health;
+    health.knockbackVx *= 0.85;
+    if (Math.abs(health.knockbackVx) < 0.1) health.knockbackVx = 0;
+
+    // Dash: a one-shot burst toward where the player is steering
+    if (input.dash && powerUps.dashSpeed > 0) {
+      const direction = Math.sign(player.targetX - player.x) || 1;
+      player.dashVx = direction * powerUps.dashSpeed * scale;
+      this.usePowerUp('dashSpeed');
+      state.events.push({ type: 'DASHED', direction, x: player.x, y: player.y });
+    }
+    player.dashVx *= 0.85;
+    if (Math.abs(player.dashVx) < 0.1) player.dashVx = 0;
+
+    player.vx = moveSpeed + gustVx + health.knockbackVx + player.dashVx;
+
+    // 5. Vertical Physics (Gravity & Lift) - SCALED WITH DIFFICULTY AND SCREEN SIZE
+    // A broken umbrella only catches half the air
+    const glideFactor = player.isUmbrellaOpen ? (player.umbrellaIsBroken ? 0.5 : 1) : 0;
+    let currentGravity = (BASE_GRAVITY + (BASE_GLIDE_GRAVITY - BASE_GRAVITY) * glideFactor) * scale;
+    let currentTerminal = (BASE_TERMINAL_VELOCITY + (BASE_GLIDE_TERMINAL_VELOCITY - BASE_TERMINAL_VELOCITY) * glideFactor) * scale;
+
+    // Apply difficulty scaling to gravity and terminal velocity
+    currentGravity *= gravityMultiplier;
+    currentTerminal *= gravityMultiplier;
+
+    // Level gravity (e.g. low gravity in space)
+    if (level) {
+      currentGravity *= level.gravityScale;
+      currentTerminal *= level.gravityScale;
+    }
+
+    // Apply Lift: Moving horizontally creates lift (Bernoulli-ish)
+    if (player.isUmbrellaOpen) {
+      const liftForce = Math.abs(player.vx) * 0.1;
+      currentGravity -= liftForce * 0.05 * scale;
+
+      // Slight direct upward force if moving fast - scaled
+      if (Math.abs(player.vx) > 5 * scale) {
+        player.vy -= 0.05 * scale;
+      }
+    }
+
+    // --- WIND ZONES PHYSICS (Local) ---
+    // Apply before velocity update (unless Wind Breaker is active)
+    let isInWindZone = false;
+    let isOnZoneEdge = false;
+    if (!powerUps.windImmune) {
+      for (const zone of state.windZones) {
+        const force = getWindZoneForce(zone, player.x, player.y, state.tick);
+        if (force) {
+          // Effect is stronger if umbrella is open (more surface area)
+          const surfaceFactor = player.isUmbrellaOpen ? 1.0 : 0.3;
+
+          isInWindZone = true;
+          if (isOnWindZoneEdge(zone, player.x, player.y, WIND_EDGE_MARGIN * scale)) isOnZoneEdge = true;
+
+          // Apply wind forces
+          player.vx += force.x * surfaceFactor * 0.15;
+          player.vy += force.y * surfaceFactor * 0.15;
+
+          // Accumulate for UI
+          currentWindX += force.x;
+          currentWindY += force.y;
+
+          // Trigger spinning animation if wind is strong enough
+          const windStrength = Math.abs(force.x) + Math.abs(force.y);
+          if (windStrength > 3 && player.isUmbrellaOpen) {
+            player.isSpinning = true;
+          }
+
+          // Add turbulence if gliding in wind
+          if (player.isUmbrellaOpen) {
+            player.angle += (rng.next() - 0.5) * 0.08 * (1 + difficulty);
+          }
+        }
+      }
+    }
+
+    state.activeWind = { x: currentWindX, y: currentWindY };
+
+    player.x += player.vx;
+    player.vy += currentGravity;
+
+    // Keep player within screen bounds (horizontal)
+    if (player.x < PLAYER_MARGIN) {
+      player.x = PLAYER_MARGIN;
+      player.vx = 0;
+    }
+    if (player.x > width - PLAYER_MARGIN) {
+      player.x = width - PLAYER_MARGIN;
+      player.vx = 0;
+    }
+
+    // Touching a screen edge (steering input stops just short of the margin)
+    const isTouchingEdge = player.x <= PLAYER_MARGIN + 2 || player.x >= width - PLAYER_MARGIN - 2;
+
+    // Keep player within screen bounds (vertical) - keep them visible
+    if (player.y < 100) {
+      player.y = 100;
+      player.vy = Math.max(player.vy, 0); // Don't let them go up
+    }
+    if (player.y > height - 100) {
+      player.y = height - 100;
+      player.vy = Math.min(player.vy, 0); // Don't let them go down
+    }
+
+    // Super Glide Power-Up: Automatic float upward
+    player.vy -= powerUps.lift;
+
+    // Clamp to terminal velocity (allow slight overspeed if pushed by downdraft)
+    if (player.vy > currentTerminal * 2) player.vy = currentTerminal * 2;
+    else if (player.vy > currentTerminal && !state.windGust.active) player.vy = currentTerminal;
+
+    // Don't float up too fast (unless huge updraft or Super Glide)
+    if (player.vy < -8 && powerUps.lift === 0) player.vy = -8;
+
+    // 4. Banking & Wobble (Visual Feedback)
+    const targetAngle = player.vx * 0.02;
+
+    if (player.isUmbrellaOpen) {
+      // Add turbulence/wobble when gliding
+      const turbulence = Math.sin(state.tick * 0.1) * 0.05;
+      player.angle = targetAngle + turbulence;
+
+      // Extra turbulence if in gust
+      if (state.windGust.active) {
+        player.angle += (rng.next() - 0.5) * 0.2;
+      }
+    } else {
+      // Aerodynamic dive angle
+      player.angle = targetAngle;
+    }
+
+    // --- GAME WORLD UPDATE ---
+
+    // Simulate Falling (World moves up) - SCALED WITH DIFFICULTY
+    const distanceTraveled = player.vy * worldSpeedMultiplier;
+    state.distanceTraveled = distanceTraveled;
+    state.totalScroll += distanceTraveled * WORLD_SCROLL_FACTOR;
+
+    // Score increases faster at higher difficulties
+    state.score += Math.floor(distanceTraveled * scoreMultiplier);
+    state.depth = Math.floor(state.score / 10);
+
+    // --- CHALLENGE MODE: SCRIPTED EVENTS ---
+    if (level) {
+      this.fireLevelEvents(level.events, scale);
+      if (state.isOver) return state;
+
+      // Authored formations enter from below as the player reaches their depth
+      while (this.nextLevelWave < level.waves.length && state.depth >= level.waves[this.nextLevelWave].depth) {
+        this.spawnWave(level.waves[this.nextLevelWave++], scale);
+      }
+    }
+
+    // --- CHALLENGE MODE: OBJECTIVES TRACKING ---
+    if (state.levelProgress && level) {
+      const timeElapsed = state.tick / TICKS_PER_SECOND;
+      state.levelProgress.timeElapsed = timeElapsed;
+
+      if (isInWindZone) this.windTicks++;
+      this.umbrellaClosedTicks = player.isUmbrellaOpen ? 0 : this.umbrellaClosedTicks + 1;
+
+      for (const obj of state.levelProgress.objectives) {
+        // Progress objectives stay done once met, constraints are re-checked every tick
+        if (obj.completed && !isConstraintObjective(obj.type)) continue;
+
+        switch (obj.type) {
+          case 'SURVIVE_TIME':
+            obj.current = Math.floor(timeElapsed);
+            obj.completed = timeElapsed >= obj.target;
+            break;
+          case 'REACH_DEPTH':
+            obj.current = state.depth;
+            obj.completed = state.depth >= obj.target;
+            break;
+          case 'COLLECT_COINS':
+            // Incremented when a coin is collected
+            break;
+          case 'NO_DAMAGE':
+            // Met while intact - set back to 0 when the player takes damage
+            obj.completed = obj.current === 1;
+            break;
+          case 'AVOID_OBSTACLES':
+            // Incremented when obstacles go off screen
+            break;
+          case 'COLLECT_POWERUP':
+          case 'RIDE_GUSTS':
+            // Incremented when a matching power-up is collected / a gust ends
+            break;
+          case 'WIND_TIME':
+            obj.current = Math.floor(this.windTicks / TICKS_PER_SECOND);
+            obj.completed = obj.current >= obj.target;
+            break;
+          case 'UMBRELLA_CLOSED':
+            obj.current = Math.floor(this.umbrellaClosedTicks / TICKS_PER_SECOND);
+            obj.completed = obj.current >= obj.target;
+            break;
+          case 'TIME_LIMIT':
+            obj.current = Math.floor(timeElapsed);
+            obj.completed = timeElapsed <= obj.target;
+            break;
+          case 'NO_EDGES':
+            if (isTouchingEdge) obj.current = 0;
+            obj.completed = obj.current === 1;
+            break;
+        }
+      }
+
+      // Check if all objectives are completed
+      if (state.levelProgress.objectives.every(obj => obj.completed)) {
+        state.isOver = true;
+        state.events.push({ type: 'LEVEL_COMPLETE', levelId: level.id });
+        return state;
+      }
+
+      // Time limit ran out before every objective was met
+      const timeLimit = this.getTimeLimit(level);
+      if (timeLimit !== null && timeElapsed >= timeLimit) {
+        this.failLevel('TIME_EXPIRED', `⏰ Time's up! (${timeLimit}s limit)`);
+        return state;
+      }
+
+      // Not enough coins left to spawn before the time limit
+      if (timeLimit !== null) {
+        const remainingTicks = Math.round(timeLimit * TICKS_PER_SECOND) - state.tick;
+        const coinGoal = state.levelProgress.objectives.find(obj =>
+          obj.type === 'COLLECT_COINS' && !obj.completed && obj.target - obj.current > this.maxCoinsRemaining(remainingTicks)
+        );
+        if (coinGoal) {
+          this.failLevel('COINS_UNREACHABLE', `💰 Coin goal out of reach (${coinGoal.current}/${coinGoal.target} with ${Math.ceil(remainingTicks / TICKS_PER_SECOND)}s left)`);
+          return state;
+        }
+      }
+    }
+
+    // Spawn Obstacles (Dynamic Rate)
+    if (state.tick % obstacleSpawnRate === 0) {
+      this.spawnObstacle(difficulty, scale);
+    }
+
+    // Spawn Wind Zones (Storm Mode and windy levels)
+    if (spawns.windZoneDensity > 0 && state.tick % windZoneSpawnRate === 0 && state.score > 200) {
+      this.spawnWindZone(difficulty);
+    }
+
+    // Spawn Power-Ups (Less frequent than obstacles - every ~5 seconds by default)
+    if (state.tick % spawns.powerUpInterval === 0 && state.score > 100) {
+      this.spawnPowerUp();
+    }
+
+    // Spawn Coins (More frequent - every ~2 seconds by default)
+    if (state.tick % spawns.coinInterval === 0 && state.score > 50) {
+      this.spawnCoin();
+    }
+
+    // Update Active Power-Ups (Timers)
+    for (let i = state.activePowerUps.length - 1; i >= 0; i--) {
+      const powerUp = state.activePowerUps[i];
+      if (powerUp.timeLeft < 0) continue; // Lasts until used
+      powerUp.timeLeft--;
+
+      if (powerUp.timeLeft <= 0) {
+        state.activePowerUps.splice(i, 1);
+      } else if (POWER_UP_DEFINITIONS[powerUp.type].stacking === 'EXTEND') {
+        powerUp.stacks = getBankedStacks(powerUp, this.config.powerUpUpgrades);
+      }
+    }
+
+    const scroll = distanceTraveled * WORLD_SCROLL_FACTOR;
+
+    // Update Wind Zones (Movement) - Move at world speed
+    for (let i = state.windZones.length - 1; i >= 0; i--) {
+      const zone = state.windZones[i];
+
+      // Timed zones hold position until their time runs out
+      if (zone.pinnedTicks !== undefined && zone.pinnedTicks > 0) {
+        zone.pinnedTicks--;
+        continue;
+      }
+      zone.y -= scroll;
+
+      if (zone.y < -zone.height - 100) {
+        state.windZones.splice(i, 1);
+      }
+    }
+
+    // Player pickup box (obstacles test the stickman's body parts instead)
+    const playerHitbox = {
+      x: player.x - 10,
+      y: player.y - 40,
+      width: 20,
+      height: 80
+    };
+
+    // Lightning strikes
+    if (this.updateLightningStrikes(scale)) return state;
+
+    const playerShapes = getPlayerShapes(player).map(part => part.shape);
+    const nearMissProbe = playerShapes.map(shape => inflateShape(shape, NEAR_MISS_MARGIN * scale));
+    const obstacleSprites = theme ? theme.obstacleSprites : DEFAULT_OBSTACLE_SPRITES;
+
+    // Update Obstacles - Move at world speed (planes hold their height)
+    for (let i = state.obstacles.length - 1; i >= 0; i--) {
+      const obs = state.obstacles[i];
+      if (obs.behavior !== 'CROSS') obs.y -= scroll;
+
+      const outcome = this.updateObstacleBehavior(obs, scale);
+      if (outcome === 'REMOVE' || outcome === 'PASSED') {
+        state.obstacles.splice(i, 1);
+        if (outcome === 'PASSED') this.advanceObjective('AVOID_OBSTACLES');
+        continue;
+      }
+
+      // Birds turn at the screen edges (asteroids fly on through)
+      if (obs.type === 'BIRD' && !theme?.hazards.asteroids) {
+        if (obs.x <= 0 || obs.x + obs.width >= width) obs.speedX *= -1;
+      }
+
+      if (obs.y < -500) {
+        state.obstacles.splice(i, 1);
+
+        // Update AVOID_OBSTACLES objective if in Challenge Mode
+        this.advanceObjective('AVOID_OBSTACLES');
+        continue;
+      }
+
+      // Collision (none while blinking after a hit)
+      const obstacleShapes = getObstacleShapes(obs, obstacleSprites[obs.type]);
+      if (
+        health.invulnerableTicks === 0 &&
+        obstacleShapes.some(shape => playerShapes.some(part => shapesOverlap(part, shape)))
+      ) {
+        // Nothing stylish about getting hit
+        obs.nearMiss = 'DONE';
+        obs.thread = 'DONE';
+        const name = OBSTACLE_SPRITE_NAMES[obstacleSprites[obs.type]];
+        const result = this.hitPlayer(name, `Hit ${name}`, obs.x + obs.width / 2, obs.y + obs.height / 2, scale);
+        if (result === 'OVER') return state;
+        // A shield destroys what it blocked; after losing a heart the player blinks through it
+        if (result === 'BLOCKED') state.obstacles.splice(i, 1);
+        continue;
+      }
+
+      if (health.invulnerableTicks === 0) this.updateObstacleStyle(obs, obstacleShapes, nearMissProbe, scale);
+    }
+
+    // Style: combo drain, riding wind zone edges and long dives
+    const style = state.style;
+    decayCombo(style);
+    style.edgeTicks = isOnZoneEdge ? style.edgeTicks + 1 : 0;
+    if (style.edgeTicks > 0 && style.edgeTicks % WIND_EDGE_TICKS === 0) this.scoreStyle('WIND_EDGE');
+    if (!player.isUmbrellaOpen) {
+      style.diveTicks++;
+    } else {
+      if (style.diveTicks >= DIVE_MIN_TICKS) this.scoreStyle('DIVE', style.diveTicks / TICKS_PER_SECOND);
+      style.diveTicks = 0;
+    }
+
+    // Update Power-Ups
+    for (let i = state.powerUps.length - 1; i >= 0; i--) {
+      const powerUp = state.powerUps[i];
+      powerUp.y -= scroll;
+
+      if (powerUp.y < -100) {
+        state.powerUps.splice(i, 1);
+        continue;
+      }
+
+      if (
+        !powerUp.collected &&
+        playerHitbox.x < powerUp.x + powerUp.width &&
+        playerHitbox.x + playerHitbox.width > powerUp.x &&
+        playerHitbox.y < powerUp.y + powerUp.height &&
+        playerHitbox.height + playerHitbox.y > powerUp.y
+      ) {
+        // Collect power-up
+        powerUp.collected = true;
+
+        // Trigger dance animation!
+        player.isDancing = true;
+        player.danceTimer = 60; // 1 second dance
+
+        // Activate power-up (stacking and conflicts live in the registry)
+        collectPowerUp(state.activePowerUps, powerUp.type, this.config.powerUpUpgrades);
+
+        this.advanceObjective('COLLECT_POWERUP', powerUp.type);
+
+        state.events.push({
+          type: 'POWERUP_COLLECTED',
+          powerUpType: powerUp.type,
+          x: powerUp.x + powerUp.width / 2,
+          y: powerUp.y + powerUp.height / 2
+        });
+
+        state.powerUps.splice(i, 1);
+      }
+    }
+
+    // Coin hitbox is slightly more generous
+    const coinHitbox = {
+      x: player.x - 15,
+      y: player.y - 45,
+      width: 30,
+      height: 90
+    };
+
+    // Update Coins
+    const magnetRange = powerUps.coinMagnetRange * scale;
+    for (let i = state.coins.length - 1; i >= 0; i--) {
+      const coin = state.coins[i];
+      coin.y -= scroll;
+      coin.spin += 0.1; // Spinning animation
+
+      // Magnet: coins in range fly to the player
+      if (magnetRange > 0) {
+        const dx = player.x - (coin.x + coin.width / 2);
+        const dy = player.y - (coin.y + coin.height / 2);
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance < magnetRange && distance > 0) {
+          const pull = Math.min(MAGNET_PULL_SPEED * scale, distance);
+          coin.x += (dx / distance) * pull;
+          coin.y += (dy / distance) * pull;
+        }
+      }
+
+      if (coin.y < -100) {
+        state.coins.splice(i, 1);
+        continue;
+      }
+
+      if (
+        !coin.collected &&
+        coinHitbox.x < coin.x + coin.width &&
+        coinHitbox.x + coinHitbox.width > coin.x &&
+        coinHitbox.y < coin.y + coin.height &&
+        coinHitbox.height + coinHitbox.y > coin.y
+      ) {
+        // Collect coin
+        coin.collected = true;
+
+        // Update COLLECT_COINS objective if in Challenge Mode
+        this.advanceObjective('COLLECT_COINS');
+
+        state.events.push({ type: 'COIN_COLLECTED', value: powerUps.coinValue, x: coin.x + coin.width / 2, y: coin.y + coin.height / 2 });
+        state.coins.splice(i, 1);
+      }
+    }
+
+    // --- UPDATE ANIMATIONS ---
+
+    // Dance animation timer
+    if (player.danceTimer > 0) {
+      player.danceTimer--;
+      if (player.danceTimer === 0) {
+        player.isDancing = false;
+      }
+    }
+
+    // Hit invulnerability
+    if (health.invulnerableTicks > 0) health.invulnerableTicks--;
+
+    // Broken umbrella timer
+    if (player.brokenTimer > 0) {
+      player.brokenTimer--;
+      if (player.brokenTimer === 0) {
+        player.umbrellaIsBroken = false;
+      }
+    }
+
+    // Umbrella bounce animation
+    if (player.bounceTimer > 0) {
+      player.bounceTimer--;
+      // Elastic bounce back to 1.0
+      player.umbrellaBounce = 1.0 + (player.bounceTimer / 10) * 0.3;
+      if (player.bounceTimer === 0) {
+        player.umbrellaBounce = 1.0;
+      }
+    }
+
+    // Spinning animation
+    if (player.isSpinning) {
+      player.spinRotation += 0.2;
+      // Stop spinning when out of wind and slowed down
+      if (currentWindX === 0 && currentWindY === 0 && Math.abs(player.vx) < 2) {
+        player.isSpinning = false;
+        player.spinRotation = 0;
+      }
+    } else {
+      // Gradually reduce spin
+      player.spinRotation *= 0.9;
+      if (Math.abs(player.spinRotation) < 0.01) player.spinRotation = 0;
+    }
+
+    state.tick++;
+    return state;
+  }
+
+  // Fire every scripted level event the player has fallen past
+  private fireLevelEvents(events: LevelEvent[], scale: number) {
+    const state = this.state;
+
+    while (this.nextLevelEvent < events.length && state.depth >= events[this.nextLevelEvent].depth) {
+      const event = events[this.nextLevelEvent++];
+
+      switch (event.type) {
+        case 'MESSAGE':
+          state.events.push({ type: 'LEVEL_MESSAGE', text: event.text });
+          break;
+        case 'GUST':
+          this.gustCollided = false;
+          state.windGust = {
+            active: true,
+            vx: event.vx,
+            vy: event.vy,
+            timeLeft: event.duration * TICKS_PER_SECOND
+          };
+          break;
+        case 'LIGHTNING':
+          this.triggerLightning(scale);
+          break;
+        case 'SPAWNS':
+          this.spawns = { ...this.spawns, ...event.spawns };
+          break;
+      }
+    }
+  }
+
+  // End a challenge run without a crash
+  private failLevel(reason: LevelFailReason, cause: string) {
+    const state = this.state;
+    state.isOver = true;
+    if (state.levelProgress) state.levelProgress.failure = { reason, cause };
+    state.events.push({ type: 'LEVEL_FAILED', reason, cause });
+  }
+
+  // Something hit the player: a shield blocks it, in lives mode it costs a heart, otherwise the run ends.
+  // `source` names what hit them ("a bird"), `crashCause` is the game over text if it was fatal.
+  private hitPlayer(source: string, crashCause: string, sourceX: number, sourceY: number, scale: number): 'BLOCKED' | 'HURT' | 'OVER' {
+    const state = this.state;
+    const player = state.player;
+    const health = state.health;
+
+    if (state.windGust.active) this.gustCollided = true;
+    breakCombo(state.style);
+
+    // Shield: consumed, umbrella briefly broken
+    if (this.usePowerUp('blocksHit')) {
+      player.umbrellaIsBroken = true;
+      player.brokenTimer = 30; // ~0.5 seconds
+
+      state.events.push({ type: 'SHIELD_BLOCKED', x: sourceX, y: sourceY });
+
+      // A blocked hit is still a hit - it ends a no-damage challenge
+      return this.breakNoDamage(`💥 Shield hit by ${source} - no-damage run broken`) ? 'OVER' : 'BLOCKED';
+    }
+
+    // Lives mode: lose a heart, get knocked away from the source and blink for a moment
+    if (health.hp > 1) {
+      health.hp--;
+      health.invulnerableTicks = HIT_INVULNERABLE_TICKS;
+      health.knockbackVx = (player.x < sourceX ? -1 : 1) * HIT_KNOCKBACK_SPEED * scale;
+      player.vy = -HIT_KNOCKBACK_LIFT * scale;
+      player.umbrellaIsBroken = true;
+      player.brokenTimer = HIT_INVULNERABLE_TICKS;
+
+      state.events.push({ type: 'PLAYER_HIT', hp: health.hp, x: player.x, y: player.y });
+
+      return this.breakNoDamage(`💥 Hit by ${source} - no-damage run broken`) ? 'OVER' : 'HURT';
+    }
+
+    // No shield or hearts left - game over
+    const noDamage = state.levelProgress?.objectives.find(obj => obj.type === 'NO_DAMAGE');
+    if (noDamage) {
+      noDamage.current = 0; // Failed
+      noDamage.completed = false;
+    }
+
+    health.hp = 0;
+    state.isOver = true;
+    state.events.push({ type: 'CRASHED', cause: crashCause, x: player.x, y: player.y });
+    return 'OVER';
+  }
+
+  // Near misses (grazing an obstacle and getting away clean) and threading past a building close to the wall
+  private updateObstacleStyle(obs: Obstacle, obstacleShapes: CollisionShape[], nearMissProbe: CollisionShape[], scale: number) {
+    const player = this.state.player;
+
+    if (obs.nearMiss !== 'DONE') {
+      const isGrazing = obstacleShapes.some(shape => nearMissProbe.some(part => shapesOverlap(part, shape)));
+      if (isGrazing) {
+        obs.nearMiss = 'GRAZING';
+      } else if (obs.nearMiss === 'GRAZING') {
+        obs.nearMiss = 'DONE';
+        this.scoreStyle('NEAR_MISS');
+      }
+    }
+
+    if (obs.type !== 'BUILDING' || obs.thread === 'DONE') return;
+    const isAlongside = player.y > obs.y && player.y < obs.y + obs.height;
+    const gap = player.x < obs.x ? obs.x - player.x : player.x - (obs.x + obs.width);
+    if (isAlongside) {
+      // The whole way down the wall, or it doesn't count
+      const isHugging = gap > 0 && gap < THREAD_CLEARANCE * scale;
+      if (obs.thread === undefined) obs.thread = isHugging ? 'INSIDE' : 'DONE';
+      else if (!isHugging) obs.thread = 'DONE';
+    } else if (obs.thread === 'INSIDE') {
+      obs.thread = 'DONE';
+      if (player.y >= obs.y + obs.height) this.scoreStyle('THREAD');
+    }
+  }
+
+  // Award a style trick and tell the renderer where to pop it up
+  private scoreStyle(trick: StyleTrick, units?: number) {
+    const state = this.state;
+    const points = awardStyle(state.style, trick, units);
+    state.events.push({ type: 'STYLE', trick, points, combo: state.style.combo, x: state.player.x, y: state.player.y - 90 });
+  }
+
+  // Lightning: a sky flash, or where it's a hazard a telegraphed strike down one column.
+  // Strikes aim for an open umbrella (a metal rod) more often than not.
+  private triggerLightning(scale: number) {
+    const state = this.state;
+    const isHazard = this.hasHazard('lightningStrikes') ||
+      this.config.gameMode === 'STORM' ||
+      state.difficulty > LIGHTNING_HAZARD_DIFFICULTY;
+
+    // One strike at a time, and only every other flash - the rest is sky flashes
+    const rng = this.rng;
+    if (!isHazard || state.lightningStrikes.some(strike => strike.phase !== 'AFTERGLOW') || !rng.chance(0.5)) {
+      state.events.push({ type: 'LIGHTNING', x: null });
+      return;
+    }
+
+    const player = state.player;
+    const aimChance = player.isUmbrellaOpen ? 0.6 : 0.15;
+    const x = rng.chance(aimChance) ? player.x : rng.next() * this.config.width;
+
+    state.lightningStrikes.push({
+      id: rng.id(),
+      x,
+      width: LIGHTNING_STRIKE_WIDTH * scale,
+      phase: 'WARNING',
+      ticksLeft: LIGHTNING_WARNING_TICKS
+    });
+  }
+
+  // Advance strike phases; the bolt hurts anyone in its column (returns true if that ended the run)
+  private updateLightningStrikes(scale: number): boolean {
+    const state = this.state;
+    const player = state.player;
+
+    for (let i = state.lightningStrikes.length - 1; i >= 0; i--) {
+      const strike = state.lightningStrikes[i];
+      strike.ticksLeft--;
+      if (strike.ticksLeft > 0) continue;
+
+      if (strike.phase === 'WARNING') {
+        strike.phase = 'STRIKE';
+        strike.ticksLeft = LIGHTNING_STRIKE_TICKS;
+        state.events.push({ type: 'LIGHTNING', x: strike.x });
+
+        const reach = strike.width / 2 + (player.isUmbrellaOpen ? LIGHTNING_ROD_REACH * scale : 0);
+        if (state.health.invulnerableTicks === 0 && Math.abs(player.x - strike.x) < reach) {
+          if (player.isUmbrellaOpen) {
+            // Through the rod - a real hit
+            if (this.hitPlayer('lightning', 'Struck by lightning', strike.x, player.y, scale) === 'OVER') return true;
+          } else {
+            // Closed umbrella: it takes the charge and stays broken for a while
+            player.umbrellaIsBroken = true;
+            player.brokenTimer = Math.max(player.brokenTimer, LIGHTNING_BROKEN_TICKS);
+          }
+        }
+      } else if (strike.phase === 'STRIKE') {
+        strike.phase = 'AFTERGLOW';
+        strike.ticksLeft = LIGHTNING_AFTERGLOW_TICKS;
+      } else {
+        state.lightningStrikes.splice(i, 1);
+      }
+    }
+    return false;
+  }
+
+  private hasHazard(hazard: keyof ThemeHazards): boolean {
+    const level = this.config.gameMode === 'CHALLENGE' ? this.config.level : null;
+    return !!level && THEME_DEFINITIONS[level.theme].hazards[hazard];
+  }
+
+  // Fail a no-damage challenge after a survived hit (false when the level has no such objective)
+  private breakNoDamage(cause: string): boolean {
+    const noDamage = this.state.levelProgress?.objectives.find(obj => obj.type === 'NO_DAMAGE');
+    if (!noDamage) return false;
+
+    noDamage.current = 0;
+    noDamage.completed = false;
+    this.failLevel('DAMAGE_TAKEN', cause);
+    return true;
+  }
+
+  // Seconds until the level is lost: the level duration or the tightest TIME_LIMIT objective (null = untimed)
+  private getTimeLimit(level: ChallengeLevel): number | null {
+    const limits = level.objectives.filter(obj => obj.type === 'TIME_LIMIT').map(obj => obj.target);
+    if (level.duration !== undefined) limits.push(level.duration);
+    return limits.length > 0 ? Math.min(...limits) : null;
+  }
+
+  // Upper bound on coins the player could still collect within `ticks`:
+  // the ones on screen, every interval spawn (at the fastest rate any pending event sets) and unspawned wave coins
+  private maxCoinsRemaining(ticks: number): number {
+    const level = this.config.level!;
+    const { tick, coins } = this.state;
+
+    let interval = this.spawns.coinInterval;
+    for (let i = this.nextLevelEvent; i < level.events.length; i++) {
+      const event = level.events[i];
+      if (event.type === 'SPAWNS' && event.spawns.coinInterval !== undefined) interval = Math.min(interval, event.spawns.coinInterval);
+    }
+
+    let waveCoins = 0;
+    for (let i = this.nextLevelWave; i < level.waves.length; i++) {
+      waveCoins += level.waves[i].coins.reduce((sum, line) => sum + line.count, 0);
+    }
+
+    const intervalCoins = Math.floor((tick + ticks) / interval) - Math.floor((tick - 1) / interval); // Includes this tick's spawn
+    return coins.length + intervalCoins + waveCoins;
+  }
+
+  private advanceObjective(type: 'COLLECT_COINS' | 'AVOID_OBSTACLES' | 'COLLECT_POWERUP' | 'RIDE_GUSTS', powerUpType?: PowerUp['type']) {
+    if (!this.state.levelProgress) return;
+
+    for (const obj of this.state.levelProgress.objectives) {
+      if (obj.type === type && !obj.completed && (type !== 'COLLECT_POWERUP' || obj.powerUpType === powerUpType)) {
+        obj.current += 1;
+        obj.completed = obj.current >= obj.target;
+      }
+    }
+  }
+
+  // Helper to spawn Wind Zones
+  private spawnWindZone(difficulty: number) {
+    const rng = this.rng;
+    const { width: canvasWidth, height: canvasHeight } = this.config;
+    const id = rng.id();
+    // Wind zones are large areas
+    const width = 200 + rng.next() * 300;
+    const height = 300 + rng.next() * 400;
+    const x = rng.next() * (canvasWidth - width);
+    const y = canvasHeight + 100;
+
+    // Determine type of wind
+    const typeRoll = rng.next();
+    let vx = 0, vy = 0;
+
+    // Scale wind force with difficulty - NERFED: 1.3x max instead of 2.5x
+    const forceMult = (1 + (difficulty * 0.3)) * this.spawns.windStrength;
+
+    // Tornado themes and Storm mode: shaped zones instead of plain pushes
+    if ((this.hasHazard('shapedWindZones') || this.config.gameMode === 'STORM') && typeRoll < 0.6) {
+      const shapeRoll = rng.next();
+      if (shapeRoll < 0.4) {
+        // Vortex - spins the player around its eye
+        const size = Math.min(width, height) + 100;
+        const spin = (rng.next() > 0.5 ? 1 : -1) * (2 + rng.next() * 2) * forceMult;
+        this.state.windZones.push({ id, kind: 'VORTEX', x: Math.min(x, canvasWidth - size), y, width: size, height: size, vx: spin, vy: 0.3 * forceMult });
+      } else if (shapeRoll < 0.7) {
+        // Column updraft - a strong lift down the middle that fades toward the sides
+        this.state.windZones.push({ id, kind: 'UPDRAFT', x, y, width, height, vx: 0, vy: -(0.8 + rng.next() * 0.6) * forceMult });
+      } else {
+        // Oscillating crosswind - swings left and right every few seconds
+        const period = Math.round((2 + rng.next() * 2) * TICKS_PER_SECOND);
+        const vx = (rng.next() > 0.5 ? 1 : -1) * (2 + rng.next() * 1.5) * forceMult;
+        this.state.windZones.push({ id, kind: 'OSCILLATING', x, y, width, height, vx, vy: 0, period });
+      }
+      return;
+    }
+
+    if (typeRoll < 0.4) {
+      // Horizontal Crosswind (Left or Right) - REDUCED base force
+      vx = (rng.next() > 0.5 ? 1 : -1) * (1.5 + rng.next() * 2) * forceMult;
+    } else if (typeRoll < 0.7) {
+      // Updraft (Slows fall / Lifts up) - Negative VY pushes player up
+      vy = - (0.3 + rng.next() * 0.5) * forceMult;
+    } else {
+      // Downdraft (Speeds fall) - Positive VY pushes player down
+      vy = (0.3 + rng.next() * 0.4) * forceMult;
+    }
+
+    this.state.windZones.push({ id, kind: 'CONSTANT', x, y, width, height, vx, vy });
+  }
+
+  // Helper to place an authored wave - positions are fractions of the world width, offsets scale with the screen
+  private spawnWave(wave: LevelWave, scale: number) {
+    const rng = this.rng;
+    const { width: canvasWidth, height: canvasHeight } = this.config;
+    const spawnY = canvasHeight + 100 * scale;
+
+    for (const item of wave.obstacles) {
+      const size = WAVE_OBSTACLE_SIZES[item.type];
+      const width = size.width * scale;
+      const height = size.height * scale;
+      const behavior = item.behavior ?? OBSTACLE_BEHAVIORS[item.type][0];
+      // Planes fly level with the player, dy offsets from the player's height
+      const y = behavior === 'CROSS'
+        ? this.state.player.y - height / 2 + (item.dy ?? 0) * scale
+        : spawnY + (item.dy ?? 0) * scale;
+      this.addObstacle(item.type, behavior, item.x * (canvasWidth - width), y, width, height, (item.speedX ?? 0) * scale, scale);
+    }
+
+    for (const item of wave.windZones) {
+      const width = item.width * canvasWidth;
+      const isTimed = item.duration !== undefined;
+      this.state.windZones.push({
+        id: rng.id(),
+        kind: item.kind ?? 'CONSTANT',
+        x: item.x * (canvasWidth - width),
+        y: isTimed ? 0 : spawnY + (item.dy ?? 0) * scale,
+        width,
+        height: isTimed ? canvasHeight : (item.height ?? 400) * scale,
+        vx: item.vx,
+        vy: item.vy,
+        period: item.kind === 'OSCILLATING' ? Math.round((item.period ?? 4) * TICKS_PER_SECOND) : undefined,
+        pinnedTicks: isTimed ? Math.round(item.duration! * TICKS_PER_SECOND) : undefined
+      });
+    }
+
+    for (const line of wave.coins) {
+      const spacing = (line.spacing ?? 60) * scale;
+      for (let i = 0; i < line.count; i++) {
+        const x = Math.min(Math.max(line.x + (line.dx ?? 0) * i, 0), 1);
+        this.state.coins.push({
+          id: rng.id(),
+          x: x * (canvasWidth - 30),
+          y: spawnY + (line.dy ?? 0) * scale + i * spacing,
+          width: 30,
+          height: 30,
+          collected: false,
+          spin: 0
+        });
+      }
+    }
+
+    for (const item of wave.powerUps) {
+      this.state.powerUps.push({
+        id: rng.id(),
+        x: item.x * (canvasWidth - 40),
+        y: spawnY + (item.dy ?? 0) * scale,
+        width: 40,
+        height: 40,
+        type: item.type,
+        collected: false
+      });
+    }
+  }
+
+  // Weighted obstacle pick from a single roll (buildings only appear past 500 score, planes past 1500 and one at a time)
+  private pickObstacleType(roll: number): Obstacle['type'] {
+    const weights = this.spawns.obstacleWeights;
+    const total = OBSTACLE_TYPES.reduce((sum, type) => sum + weights[type], 0);
+
+    let cumulative = 0;
+    for (const type of OBSTACLE_TYPES) {
+      cumulative += weights[type] / total;
+      if (roll < cumulative) {
+        if (type === 'BUILDING' && this.state.score <= 500) return 'CLOUD';
+        if (type === 'PLANE' && (this.state.score <= PLANE_MIN_SCORE || this.state.obstacles.some(obs => obs.type === 'PLANE'))) return 'CLOUD';
+        return type;
+      }
+    }
+    return 'CLOUD';
+  }
+
+  // Helper to spawn obstacles - SCALED TO SCREEN SIZE
+  private spawnObstacle(difficulty: number, scale: number) {
+    const rng = this.rng;
+    const { width: canvasWidth, height: canvasHeight } = this.config;
+    const type = this.pickObstacleType(rng.next());
+    // Base sizes at reference resolution (1920x1080), then scale to actual screen
+    let width = 350 * scale;
+    let height = 200 * scale;
+    let y = canvasHeight + 100 * scale;
+    let x = rng.next() * (canvasWidth - width);
+    let speedX = 0;
+    let behavior: ObstacleBehavior = 'DRIFT';
+
+    // Difficulty increases speed and likelihood of harder obstacles
+    const speedMult = 1 + difficulty;
+
+    // Behaviours only fit the real thing (a balloon drawn as tornado debris just drifts)
+    const level = this.config.gameMode === 'CHALLENGE' ? this.config.level : null;
+    const sprites = level ? THEME_DEFINITIONS[level.theme].obstacleSprites : DEFAULT_OBSTACLE_SPRITES;
+    const isNativeSprite = sprites[type] === type;
+
+    if (type === 'BIRD') {
+      width = 120 * scale;
+      height = 70 * scale;
+      speedX = (rng.next() - 0.5) * 4 * speedMult * scale; // Speed also scales
+      // Asteroids cross the screen faster than birds fly
+      if (this.hasHazard('asteroids')) speedX *= 2;
+      if (isNativeSprite) {
+        const roll = rng.next();
+        behavior = roll < 0.2 + difficulty * 0.3 ? 'SWOOP' : roll < 0.7 ? 'SINE' : 'DRIFT';
+      }
+    } else if (type === 'BALLOON') {
+      width = 100 * scale;
+      height = 150 * scale;
+      speedX = 0;
+      if (isNativeSprite && rng.chance(0.6)) behavior = 'RISE';
+    } else if (type === 'BUILDING') {
+      width = (300 + rng.next() * 200) * scale;
+      height = 700 * scale;
+      x = rng.next() > 0.5 ? 0 : canvasWidth - width; // Snap to sides
+      y = canvasHeight + height;
+      if (rng.chance(0.7)) behavior = 'LEDGES';
+    } else if (type === 'PLANE') {
+      width = 260 * scale;
+      height = 80 * scale;
+      speedX = (rng.next() > 0.5 ? 1 : -1) * PLANE_SPEED * (1 + difficulty * 0.5) * scale;
+      behavior = 'CROSS';
+      // Somewhere around the player's height
+      const lane = this.state.player.y + (rng.next() - 0.5) * 300 * scale - height / 2;
+      y = Math.min(Math.max(lane, 50 * scale), canvasHeight - height - 50 * scale);
+    }
+
+    this.addObstacle(type, behavior, x, y, width, height, speedX, scale);
+  }
+
+  // Set up an obstacle's behaviour state and add it to the world
+  private addObstacle(type: Obstacle['type'], behavior: ObstacleBehavior, x: number, y: number, width: number, height: number, speedX: number, scale: number) {
+    const rng = this.rng;
+    const canvasWidth = this.config.width;
+    const obs: Obstacle = { id: rng.id(), x, y, width, height, type, behavior, speedX, speedY: 0, timer: 0 };
+
+    if (behavior === 'SINE') {
+      obs.timer = Math.floor(rng.next() * 100); // Random flap phase
+    } else if (behavior === 'RISE') {
+      obs.speedY = -BALLOON_RISE_SPEED * (0.6 + rng.next() * 0.8) * scale;
+      obs.timer = BALLOON_POP_TICKS + Math.floor(rng.next() * 60);
+    } else if (behavior === 'LEDGES') {
+      // Ledges stick out of the side facing the open sky
+      const facesRight = x + width / 2 < canvasWidth / 2;
+      obs.ledges = [];
+      for (let ly = 120 * scale; ly < height - 60 * scale; ly += LEDGE_SPACING * scale) {
+        if (!rng.chance(0.6)) continue;
+        obs.ledges.push({ x: facesRight ? width : -LEDGE_WIDTH * scale, y: ly, width: LEDGE_WIDTH * scale, height: LEDGE_HEIGHT * scale });
+      }
+    } else if (behavior === 'CROSS') {
+      // Waits off screen behind its edge warning
+      if (speedX === 0) speedX = PLANE_SPEED * scale;
+      obs.speedX = speedX;
+      obs.x = speedX > 0 ? -width : canvasWidth;
+      obs.timer = PLANE_WARNING_TICKS;
+    }
+
+    this.state.obstacles.push(obs);
+  }
+
+  // Per-behaviour movement on top of the world scroll
+  private updateObstacleBehavior(obs: Obstacle, scale: number): 'KEEP' | 'REMOVE' | 'PASSED' {
+    const state = this.state;
+    const player = state.player;
+
+    switch (obs.behavior) {
+      case 'SINE':
+        obs.timer++;
+        obs.speedY = Math.cos(obs.timer * BIRD_SINE_RATE) * BIRD_SINE_SPEED * scale;
+        break;
+      case 'SWOOP': {
+        // Lock on once, then keep diving the same way
+        const below = obs.y - player.y;
+        if (obs.timer === 0 && below > 0 && below < BIRD_SWOOP_RANGE * scale) {
+          obs.timer = 1;
+          obs.speedX = Math.sign(player.x - (obs.x + obs.width / 2)) * BIRD_SWOOP_SPEED * scale;
+          obs.speedY = -2 * scale;
+        }
+        break;
+      }
+      case 'RISE':
+        // Only counts down while visible, so the pop is seen - at the latest as it passes the player
+        if (obs.y < this.config.height && (--obs.timer <= 0 || obs.y + obs.height < player.y)) {
+          this.popBalloon(obs, scale);
+          return 'REMOVE';
+        }
+        break;
+      case 'SCRAP':
+        if (--obs.timer <= 0) return 'REMOVE';
+        break;
+      case 'CROSS':
+        if (obs.timer > 0) {
+          obs.timer--;
+          return 'KEEP';
+        }
+        if (obs.speedX > 0 ? obs.x > this.config.width : obs.x + obs.width < 0) return 'PASSED';
+        break;
+    }
+
+    obs.x += obs.speedX;
+    obs.y += obs.speedY;
+    return 'KEEP';
+  }
+
+  // A risen balloon bursts into scraps flying outward
+  private popBalloon(obs: Obstacle, scale: number) {
+    const cx = obs.x + obs.width / 2;
+    const cy = obs.y + obs.height * 0.35;
+    const size = SCRAP_SIZE * scale;
+    for (let k = 0; k < SCRAP_COUNT; k++) {
+      const angle = (k / SCRAP_COUNT) * Math.PI * 2 + this.rng.next();
+      this.state.obstacles.push({
+        id: this.rng.id(),
+        x: cx - size / 2,
+        y: cy - size / 2,
+        width: size,
+        height: size,
+        type: obs.type,
+        behavior: 'SCRAP',
+        speedX: Math.cos(angle) * SCRAP_SPEED * scale,
+        speedY: Math.sin(angle) * SCRAP_SPEED * scale,
+        timer: SCRAP_TICKS
+      });
+    }
+    this.state.events.push({ type: 'BALLOON_POPPED', x: cx, y: cy });
+  }
+
+  // Weighted power-up pick from a single roll
+  private pickPowerUpType(roll: number): PowerUp['type'] {
+    const upgrades = this.config.powerUpUpgrades;
+    const total = POWER_UP_TYPES.reduce((sum, type) => sum + getPowerUpSpawnWeight(type, upgrades), 0);
+
+    let cumulative = 0;
+    for (const type of POWER_UP_TYPES) {
+      cumulative += getPowerUpSpawnWeight(type, upgrades) / total;
+      if (roll < cumulative) return type;
+    }
+    return POWER_UP_TYPES[POWER_UP_TYPES.length - 1];
+  }
+
+  // Use up one stack of the first active power-up with a one-shot effect (false when none is active)
+  private usePowerUp(effect: 'blocksHit' | 'dashSpeed'): boolean {
+    const index = this.state.activePowerUps.findIndex(p => !!POWER_UP_DEFINITIONS[p.type].modifiers[effect]);
+    if (index === -1) return false;
+    const powerUp = this.state.activePowerUps[index];
+    powerUp.stacks--;
+    if (powerUp.stacks <= 0) this.state.activePowerUps.splice(index, 1);
+    return true;
+  }
+
+  // Helper to spawn power-ups
+  private spawnPowerUp() {
+    const rng = this.rng;
+    const type = this.pickPowerUpType(rng.next());
+
+    const width = 40;
+    const height = 40;
+    const x = rng.next() * (this.config.width - width);
+    const y = this.config.height + 100;
+
+    this.state.powerUps.push({
+      id: rng.id(),
+      x,
+      y,
+      width,
+      height,
+      type,
+      collected: false
+    });
+  }
+
+  // Helper to spawn coins
+  private spawnCoin() {
+    const rng = this.rng;
+    const width = 30;
+    const height = 30;
+    const x = rng.next() * (this.config.width - width);
+    const y = this.config.height + 100;
+
+    this.state.coins.push({
+      id: rng.id(),
+      x,
+      y,
+      width,
+      height,
+      collected: false,
+      spin: 0
+    });
+  }
+}
@@ -0,0 +1,153 @@
+import { KeyBindings, InputAction, SimulationInput } from '../types';
+import { PLAYER_MARGIN } from './glideSimulation';
+
+/**
+ * Input Controller
+ * Merges pointer, keyboard and gamepad into the per-tick SimulationInput.
+ * Pointer sets targetX directly; keyboard and gamepad steer it with a velocity.
+ */
+
+const STORAGE_KEY = 'keyBindings';
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  LEFT: ['ArrowLeft', 'KeyA'],
+  RIGHT: ['ArrowRight', 'KeyD'],
+  UMBRELLA: ['Space', ''],
+  DASH: ['ShiftLeft', 'ShiftRight']
+};
+
+export const INPUT_ACTION_LABELS: Record<InputAction, string> = {
+  LEFT: '⬅️ Steer Left',
+  RIGHT: '➡️ Steer Right',
+  UMBRELLA: '☂️ Umbrella',
+  DASH: '💨 Dash'
+};
+
+// Steering speed as a fraction of world width per tick (~0.7 screen widths per second)
+const STEER_SPEED = 0.012;
+
+// Gamepad tuning (standard mapping)
+const STICK_DEADZONE = 0.2;
+const TRIGGER_THRESHOLD = 0.3;
+const LEFT_TRIGGER = 6;
+const RIGHT_TRIGGER = 7;
+const DASH_BUTTON = 0; // A / Cross
+
+export interface RawInputState {
+  pointerDown: boolean;
+  keysDown: Set<string>;
+  dashHeld: boolean; // Dash fires once per press
+}
+
+/**
+ * Whether any key bound to the action is held
+ */
+export const isActionDown = (bindings: KeyBindings, action: InputAction, keysDown: Set<string>): boolean => {
+  return bindings[action].some(code => code !== '' && keysDown.has(code));
+};
+
+/**
+ * Whether the key is bound to any action
+ */
+export const isBoundKey = (bindings: KeyBindings, code: string): boolean => {
+  return code !== '' && Object.values(bindings).some(codes => codes.includes(code));
+};
+
+/**
+ * Read the first connected gamepad (analog stick X + either trigger + dash button)
+ */
+export const readGamepad = (): { steer: number; umbrella: boolean; dash: boolean } | null => {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+
+  const pad = Array.from(navigator.getGamepads()).find(p => p && p.connected);
+  if (!pad) return null;
+
+  const stickX = pad.axes[0] || 0;
+  const trigger = Math.max(pad.buttons[LEFT_TRIGGER]?.value || 0, pad.buttons[RIGHT_TRIGGER]?.value || 0);
+
+  return {
+    steer: Math.abs(stickX) > STICK_DEADZONE ? stickX : 0,
+    umbrella: trigger > TRIGGER_THRESHOLD,
+    dash: !!pad.buttons[DASH_BUTTON]?.pressed
+  };
+};
+
+/**
+ * Update the simulation input from all sources for one tick
+ */
+export const applyInputSources = (
+  input: SimulationInput,
+  raw: RawInputState,
+  bindings: KeyBindings,
+  worldWidth: number
+): void => {
+  let steer = (isActionDown(bindings, 'RIGHT', raw.keysDown) ? 1 : 0) - (isActionDown(bindings, 'LEFT', raw.keysDown) ? 1 : 0);
+  let umbrella = raw.pointerDown || isActionDown(bindings, 'UMBRELLA', raw.keysDown);
+  let dash = isActionDown(bindings, 'DASH', raw.keysDown);
+
+  const pad = readGamepad();
+  if (pad) {
+    if (Math.abs(pad.steer) > Math.abs(steer)) steer = pad.steer;
+    umbrella = umbrella || pad.umbrella;
+    dash = dash || pad.dash;
+  }
+
+  if (steer !== 0) {
+    const targetX = input.targetX + steer * STEER_SPEED * worldWidth;
+    input.targetX = Math.min(Math.max(targetX, PLAYER_MARGIN), worldWidth - PLAYER_MARGIN);
+  }
+  input.isUmbrellaOpen = umbrella;
+  input.dash = dash && !raw.dashHeld;
+  raw.dashHeld = dash;
+};
+
+/**
+ * Human-readable key name for the settings panel
+ */
+export const formatKeyCode = (code: string): string => {
+  if (!code) return '—';
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+
+  switch (code) {
+    case 'ArrowLeft': return '←';
+    case 'ArrowRight': return '→';
+    case 'ArrowUp': return '↑';
+    case 'ArrowDown': return '↓';
+    case 'Space': return 'Space';
+    case 'ShiftLeft': return 'L-Shift';
+    case 'ShiftRight': return 'R-Shift';
+    default: return code;
+  }
+};
+
+/**
+ * Load saved key bindings - actions with a missing or malformed entry keep their defaults
+ */
+export const loadKeyBindings = (): KeyBindings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const data = stored ? JSON.parse(stored) : null;
+    const bindings: KeyBindings = { ...DEFAULT_KEY_BINDINGS };
+    if (!data || typeof data !== 'object') return bindings;
+
+    for (const action of Object.keys(DEFAULT_KEY_BINDINGS) as InputAction[]) {
+      const codes = data[action];
+      const isValid = Array.isArray(codes) &&
+        codes.length === DEFAULT_KEY_BINDINGS[action].length &&
+        codes.every(code => typeof code === 'string');
+      if (isValid) bindings[action] = codes;
+    }
+    return bindings;
+  } catch (error) {
+    console.error('Error loading key bindings:', error);
+    return DEFAULT_KEY_BINDINGS;
+  }
+};
+
+/**
+ * Persist key bindings
+ */
+export const saveKeyBindings = (bindings: KeyBindings): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+};
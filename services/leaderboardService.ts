@@ -1,6 +1,7 @@
 import { db } from '../firebaseConfig';
 import { collection, query, orderBy, limit, getDocs, addDoc, updateDoc, doc, where, serverTimestamp } from 'firebase/firestore';
-import { LeaderboardEntry } from '../types';
+import { LeaderboardEntry, Replay } from '../types';
+import { exportReplay } from './replayService';
 
 const COLLECTION_NAME = 'leaderboard';
 
@@ -11,8 +12,10 @@ export const getLeaderboard = async (): Promise<LeaderboardEntry[]> => {
   }
 
   try {
+    // Only re-simulated runs are listed (needs the composite index in firestore.indexes.json)
     const q = query(
       collection(db, COLLECTION_NAME),
+      where('verification', '==', 'VERIFIED'),
       orderBy('score', 'desc'),
       limit(10)
     );
@@ -31,10 +34,20 @@ export const getLeaderboard = async (): Promise<LeaderboardEntry[]> => {
   }
 };
 
-export const submitScore = async (name: string, score: number, userId?: string): Promise<{ success: boolean; error?: string }> => {
+// Scores are stored as PENDING until verifyScores.ts re-simulates the replay
+export const submitScore = async (name: string, score: number, replay: Replay | null, userId?: string): Promise<{ success: boolean; error?: string }> => {
   if (!db) {
     return { success: false, error: "Database connection not established. Check configuration." };
   }
+  if (!replay || replay.finalDepth !== score) {
+    return { success: false, error: "No replay recorded for this score." };
+  }
+
+  const verificationFields = {
+    seed: replay.config.seed,
+    replay: exportReplay(replay),
+    verification: 'PENDING'
+  };
 
   try {
     // If userId is provided, check for existing entry
@@ -56,7 +69,8 @@ export const submitScore = async (name: string, score: number, userId?: string):
           await updateDoc(doc(db, COLLECTION_NAME, existingDoc.id), {
             name: name.slice(0, 15), // Update name in case they changed it
             score: score,
-            date: serverTimestamp()
+            date: serverTimestamp(),
+            ...verificationFields
           });
           return { success: true };
         } else {
@@ -70,7 +84,8 @@ export const submitScore = async (name: string, score: number, userId?: string):
       userId: userId || null,
       name: name.slice(0, 15), // Limit name length
       score: score,
-      date: serverTimestamp()
+      date: serverTimestamp(),
+      ...verificationFields
     });
     return { success: true };
   } catch (error: any) {
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ChallengObjective } from '../types';
+import { CHALLENGE_LEVELS } from './challengeLevels';
+import { createBlankLevel, createObjective, parseLevel, serializeLevel } from './levelLoader';
+
+const parseWithObjectives = (objectives: ChallengObjective[]) => parseLevel(serializeLevel({ ...createBlankLevel(), objectives }));
+
+describe('parseLevel', () => {
+  it('round-trips the built-in levels', () => {
+    CHALLENGE_LEVELS.forEach(level => {
+      expect(parseLevel(serializeLevel(level))).toMatchObject({ success: true, errors: [] });
+    });
+  });
+
+  it('rejects a level whose only objectives are constraints', () => {
+    const result = parseWithObjectives([
+      createObjective('NO_DAMAGE', 'Take no damage', 1),
+      createObjective('NO_EDGES', 'Never touch the edges', 1),
+      createObjective('TIME_LIMIT', 'Finish within 60 seconds', 60)
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(['objectives need at least one goal besides NO_DAMAGE/NO_EDGES/TIME_LIMIT']);
+  });
+
+  it('accepts constraints alongside a goal', () => {
+    const result = parseWithObjectives([
+      createObjective('NO_DAMAGE', 'Take no damage', 1),
+      createObjective('REACH_DEPTH', 'Reach 500m', 500)
+    ]);
+
+    expect(result.success).toBe(true);
+  });
+});
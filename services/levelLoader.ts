@@ -0,0 +1,423 @@
+import { ChallengeLevel, ChallengObjective, LevelEvent, LevelSpawnTable, LevelTheme, LevelWave, Obstacle, ObstacleBehavior, PowerUp, WaveCoinLine, WaveObstacle, WavePowerUp, WaveWindZone, WindZoneKind } from '../types';
+import { THEME_DEFINITIONS } from './levelThemes';
+import { POWER_UP_TYPES } from './powerUps';
+
+/**
+ * Level Loader
+ * Validates challenge levels written in the JSON level format and turns them into ChallengeLevel objects.
+ *
+ * JSON shape (schemaVersion 1):
+ * {
+ *   "schemaVersion": 1,
+ *   "id": 1, "name": "...", "description": "...",
+ *   "theme": "GENTLE" | "NIGHT" | "THUNDER" | "TORNADO" | "SPACE",
+ *   "duration": 90,                     // optional time limit (seconds)
+ *   "parTime": 60,                      // optional, seconds for a second star (default: duration or 120)
+ *   "gravityScale": 1,                  // optional, default from the theme (SPACE 0.6, others 1)
+ *   "maxHp": 3,                         // optional hits the player can take (default: one-hit death)
+ *   "spawns": { ...LevelSpawnTable },   // optional fields fall back to DEFAULT_SPAWN_TABLE
+ *   "events": [{ "depth": 300, "type": "MESSAGE", "text": "..." }],
+ *   "waves": [{ "depth": 200, "obstacles": [{ "type": "BIRD", "x": 0.2, "behavior": "SINE" }], "coins": [{ "x": 0.5, "count": 5 }] }],
+ *   "objectives": [{ "type": "REACH_DEPTH", "description": "...", "target": 500 }]
+ * }
+ */
+
+export const LEVEL_SCHEMA_VERSION = 1;
+
+export const LEVEL_THEMES: LevelTheme[] = ['GENTLE', 'NIGHT', 'THUNDER', 'TORNADO', 'SPACE'];
+export const OBSTACLE_TYPES: Obstacle['type'][] = ['BIRD', 'BALLOON', 'BUILDING', 'CLOUD', 'PLANE'];
+// Behaviours a wave can give each obstacle type (the first is the default)
+export const OBSTACLE_BEHAVIORS: Record<Obstacle['type'], ObstacleBehavior[]> = {
+  BIRD: ['DRIFT', 'SINE', 'SWOOP'],
+  BALLOON: ['DRIFT', 'RISE'],
+  BUILDING: ['DRIFT', 'LEDGES'],
+  CLOUD: ['DRIFT'],
+  PLANE: ['CROSS']
+};
+export const WIND_ZONE_KINDS: WindZoneKind[] = ['CONSTANT', 'VORTEX', 'UPDRAFT', 'OSCILLATING'];
+export const OBJECTIVE_TYPES: ChallengObjective['type'][] = [
+  'SURVIVE_TIME', 'REACH_DEPTH', 'COLLECT_COINS', 'NO_DAMAGE', 'AVOID_OBSTACLES',
+  'COLLECT_POWERUP', 'WIND_TIME', 'UMBRELLA_CLOSED', 'TIME_LIMIT', 'RIDE_GUSTS', 'NO_EDGES'
+];
+
+// Objectives that start out met and can only be lost
+export const isConstraintObjective = (type: ChallengObjective['type']): boolean =>
+  type === 'NO_DAMAGE' || type === 'NO_EDGES' || type === 'TIME_LIMIT';
+const EVENT_TYPES: LevelEvent['type'][] = ['MESSAGE', 'GUST', 'LIGHTNING', 'SPAWNS'];
+
+// ENDLESS spawning, also the fallback for anything a level leaves out
+export const DEFAULT_SPAWN_TABLE: LevelSpawnTable = {
+  obstacleInterval: 80,
+  obstacleWeights: { BIRD: 0.4, BALLOON: 0.2, BUILDING: 0.2, CLOUD: 0.2, PLANE: 0.05 },
+  windZoneDensity: 0,
+  windStrength: 1,
+  powerUpInterval: 300,
+  coinInterval: 120
+};
+
+// STORM mode: ENDLESS plus a steady stream of wind zones
+export const STORM_SPAWN_TABLE: LevelSpawnTable = {
+  ...DEFAULT_SPAWN_TABLE,
+  windZoneDensity: 12
+};
+
+const isNumber = (value: any): value is number => typeof value === 'number' && isFinite(value);
+const isFraction = (value: any): value is number => isNumber(value) && value >= 0 && value <= 1;
+const isOptionalNumber = (value: any) => value === undefined || isNumber(value);
+
+type NumericSpawnField = Exclude<keyof LevelSpawnTable, 'obstacleWeights'>;
+
+// Fields a wave item keeps - anything else in the JSON is dropped
+const WAVE_OBSTACLE_FIELDS: (keyof WaveObstacle)[] = ['type', 'x', 'dy', 'speedX', 'behavior'];
+const WAVE_WIND_ZONE_FIELDS: (keyof WaveWindZone)[] = ['kind', 'x', 'width', 'vx', 'vy', 'height', 'dy', 'duration', 'period'];
+const WAVE_COIN_FIELDS: (keyof WaveCoinLine)[] = ['x', 'count', 'spacing', 'dx', 'dy'];
+const WAVE_POWER_UP_FIELDS: (keyof WavePowerUp)[] = ['type', 'x', 'dy'];
+
+/**
+ * Starting progress for an objective (NO_DAMAGE/NO_EDGES start "intact")
+ */
+export const createObjective = (
+  type: ChallengObjective['type'],
+  description: string,
+  target: number,
+  powerUpType?: PowerUp['type']
+): ChallengObjective => ({
+  type,
+  description,
+  target,
+  current: type === 'NO_DAMAGE' || type === 'NO_EDGES' ? 1 : 0,
+  completed: false,
+  ...(type === 'COLLECT_POWERUP' ? { powerUpType } : {})
+});
+
+// Validates a (partial) spawn table, reporting problems under `path`
+const validateSpawns = (data: any, path: string, errors: string[]): Partial<LevelSpawnTable> => {
+  if (data === undefined) return {};
+  if (!data || typeof data !== 'object') {
+    errors.push(`${path} must be an object`);
+    return {};
+  }
+
+  const spawns: Partial<LevelSpawnTable> = {};
+  const positiveFields: NumericSpawnField[] = ['obstacleInterval', 'powerUpInterval', 'coinInterval'];
+  for (const field of positiveFields) {
+    if (data[field] === undefined) continue;
+    if (!isNumber(data[field]) || data[field] < 20) {
+      errors.push(`${path}.${field} must be a number of ticks >= 20`);
+    } else {
+      spawns[field] = Math.floor(data[field]);
+    }
+  }
+
+  const nonNegativeFields: NumericSpawnField[] = ['windZoneDensity', 'windStrength'];
+  for (const field of nonNegativeFields) {
+    if (data[field] === undefined) continue;
+    if (!isNumber(data[field]) || data[field] < 0) {
+      errors.push(`${path}.${field} must be a number >= 0`);
+    } else {
+      spawns[field] = data[field];
+    }
+  }
+
+  if (data.obstacleWeights !== undefined) {
+    const weights = data.obstacleWeights;
+    if (!weights || typeof weights !== 'object') {
+      errors.push(`${path}.obstacleWeights must be an object`);
+    } else {
+      const unknown = Object.keys(weights).filter(key => !OBSTACLE_TYPES.includes(key as Obstacle['type']));
+      if (unknown.length > 0) errors.push(`${path}.obstacleWeights has unknown obstacle types: ${unknown.join(', ')}`);
+
+      const obstacleWeights = { BIRD: 0, BALLOON: 0, BUILDING: 0, CLOUD: 0, PLANE: 0 };
+      for (const type of OBSTACLE_TYPES) {
+        if (weights[type] === undefined) continue;
+        if (!isNumber(weights[type]) || weights[type] < 0) {
+          errors.push(`${path}.obstacleWeights.${type} must be a number >= 0`);
+        } else {
+          obstacleWeights[type] = weights[type];
+        }
+      }
+      if (OBSTACLE_TYPES.every(type => obstacleWeights[type] === 0)) {
+        errors.push(`${path}.obstacleWeights needs at least one weight above 0`);
+      }
+      spawns.obstacleWeights = obstacleWeights;
+    }
+  }
+
+  return spawns;
+};
+
+const validateEvent = (data: any, path: string, errors: string[]): LevelEvent | null => {
+  if (!data || typeof data !== 'object') {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  if (!isNumber(data.depth) || data.depth < 0) {
+    errors.push(`${path}.depth must be a number >= 0`);
+    return null;
+  }
+  if (!EVENT_TYPES.includes(data.type)) {
+    errors.push(`${path}.type must be one of ${EVENT_TYPES.join(', ')}`);
+    return null;
+  }
+
+  switch (data.type as LevelEvent['type']) {
+    case 'MESSAGE':
+      if (typeof data.text !== 'string' || data.text.length === 0) {
+        errors.push(`${path}.text must be a non-empty string`);
+        return null;
+      }
+      return { depth: data.depth, type: 'MESSAGE', text: data.text };
+    case 'GUST':
+      if (!isNumber(data.vx) || !isNumber(data.vy) || !isNumber(data.duration) || data.duration <= 0) {
+        errors.push(`${path} needs numeric vx, vy and a positive duration`);
+        return null;
+      }
+      return { depth: data.depth, type: 'GUST', vx: data.vx, vy: data.vy, duration: data.duration };
+    case 'LIGHTNING':
+      return { depth: data.depth, type: 'LIGHTNING' };
+    case 'SPAWNS':
+      return { depth: data.depth, type: 'SPAWNS', spawns: validateSpawns(data.spawns, `${path}.spawns`, errors) };
+  }
+};
+
+// Copies the fields that are set (checked items only)
+const pickFields = <T>(item: any, fields: (keyof T)[]): T => {
+  const picked: Partial<T> = {};
+  for (const field of fields) {
+    if (item[field] !== undefined) picked[field] = item[field];
+  }
+  return picked as T;
+};
+
+// Validates one list of wave items, keeping the listed fields of the items that pass `check`
+const validateWaveItems = <T>(data: any, path: string, errors: string[], fields: (keyof T)[], check: (item: any) => string | null): T[] => {
+  if (data === undefined) return [];
+  if (!Array.isArray(data)) {
+    errors.push(`${path} must be an array`);
+    return [];
+  }
+
+  const items: T[] = [];
+  data.forEach((item: any, index: number) => {
+    const problem = !item || typeof item !== 'object' ? 'must be an object' : check(item);
+    if (problem) errors.push(`${path}[${index}] ${problem}`);
+    else items.push(pickFields<T>(item, fields));
+  });
+  return items;
+};
+
+const validateWave = (data: any, path: string, errors: string[]): LevelWave | null => {
+  if (!data || typeof data !== 'object') {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  if (!isNumber(data.depth) || data.depth < 0) {
+    errors.push(`${path}.depth must be a number >= 0`);
+    return null;
+  }
+
+  return {
+    depth: data.depth,
+    obstacles: validateWaveItems(data.obstacles, `${path}.obstacles`, errors, WAVE_OBSTACLE_FIELDS, item => {
+      if (!OBSTACLE_TYPES.includes(item.type)) return `type must be one of ${OBSTACLE_TYPES.join(', ')}`;
+      if (!isFraction(item.x)) return 'x must be between 0 and 1';
+      if (!isOptionalNumber(item.dy) || !isOptionalNumber(item.speedX)) return 'dy and speedX must be numbers';
+      if (item.behavior !== undefined && !OBSTACLE_BEHAVIORS[item.type as Obstacle['type']].includes(item.behavior)) {
+        return `behavior for ${item.type} must be one of ${OBSTACLE_BEHAVIORS[item.type as Obstacle['type']].join(', ')}`;
+      }
+      return null;
+    }),
+    windZones: validateWaveItems(data.windZones, `${path}.windZones`, errors, WAVE_WIND_ZONE_FIELDS, item => {
+      if (item.kind !== undefined && !WIND_ZONE_KINDS.includes(item.kind)) return `kind must be one of ${WIND_ZONE_KINDS.join(', ')}`;
+      if (!isFraction(item.x) || !isFraction(item.width) || item.width === 0) return 'x and width must be between 0 and 1';
+      if (!isNumber(item.vx) || !isNumber(item.vy)) return 'vx and vy must be numbers';
+      if (item.height !== undefined && (!isNumber(item.height) || item.height <= 0)) return 'height must be a number > 0';
+      if (item.duration !== undefined && (!isNumber(item.duration) || item.duration <= 0)) return 'duration must be a number of seconds > 0';
+      if (item.period !== undefined && (!isNumber(item.period) || item.period <= 0)) return 'period must be a number of seconds > 0';
+      if (!isOptionalNumber(item.dy)) return 'dy must be a number';
+      return null;
+    }),
+    coins: validateWaveItems(data.coins, `${path}.coins`, errors, WAVE_COIN_FIELDS, item => {
+      if (!isFraction(item.x)) return 'x must be between 0 and 1';
+      if (!isNumber(item.count) || !Number.isInteger(item.count) || item.count < 1 || item.count > 50) return 'count must be an integer from 1 to 50';
+      if (!isOptionalNumber(item.spacing) || !isOptionalNumber(item.dx) || !isOptionalNumber(item.dy)) return 'spacing, dx and dy must be numbers';
+      return null;
+    }),
+    powerUps: validateWaveItems(data.powerUps, `${path}.powerUps`, errors, WAVE_POWER_UP_FIELDS, item => {
+      if (!POWER_UP_TYPES.includes(item.type)) return `type must be one of ${POWER_UP_TYPES.join(', ')}`;
+      if (!isFraction(item.x)) return 'x must be between 0 and 1';
+      if (!isOptionalNumber(item.dy)) return 'dy must be a number';
+      return null;
+    })
+  };
+};
+
+const validateObjective = (data: any, path: string, errors: string[]): ChallengObjective | null => {
+  if (!data || typeof data !== 'object') {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  if (!OBJECTIVE_TYPES.includes(data.type)) {
+    errors.push(`${path}.type must be one of ${OBJECTIVE_TYPES.join(', ')}`);
+    return null;
+  }
+  if (typeof data.description !== 'string' || data.description.length === 0) {
+    errors.push(`${path}.description must be a non-empty string`);
+    return null;
+  }
+  if (!isNumber(data.target) || data.target <= 0) {
+    errors.push(`${path}.target must be a number > 0`);
+    return null;
+  }
+  if (data.type === 'COLLECT_POWERUP' && !POWER_UP_TYPES.includes(data.powerUpType)) {
+    errors.push(`${path}.powerUpType must be one of ${POWER_UP_TYPES.join(', ')}`);
+    return null;
+  }
+  return createObjective(data.type, data.description, data.target, data.powerUpType);
+};
+
+/**
+ * Validate level data (parsed JSON) and fill in defaults
+ */
+export const validateLevel = (data: any): { success: boolean; level?: ChallengeLevel; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object') {
+    return { success: false, errors: ['Level must be a JSON object'] };
+  }
+  if (data.schemaVersion !== LEVEL_SCHEMA_VERSION) {
+    errors.push(`schemaVersion must be ${LEVEL_SCHEMA_VERSION}`);
+  }
+  if (!isNumber(data.id) || !Number.isInteger(data.id) || data.id < 1) {
+    errors.push('id must be a positive integer');
+  }
+  if (typeof data.name !== 'string' || data.name.length === 0) {
+    errors.push('name must be a non-empty string');
+  }
+  if (typeof data.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  if (!LEVEL_THEMES.includes(data.theme)) {
+    errors.push(`theme must be one of ${LEVEL_THEMES.join(', ')}`);
+  }
+  if (data.duration !== undefined && (!isNumber(data.duration) || data.duration <= 0)) {
+    errors.push('duration must be a number of seconds > 0');
+  }
+  if (data.parTime !== undefined && (!isNumber(data.parTime) || data.parTime <= 0)) {
+    errors.push('parTime must be a number of seconds > 0');
+  }
+  if (data.gravityScale !== undefined && (!isNumber(data.gravityScale) || data.gravityScale <= 0 || data.gravityScale > 3)) {
+    errors.push('gravityScale must be a number between 0 and 3');
+  }
+  if (data.maxHp !== undefined && (!Number.isInteger(data.maxHp) || data.maxHp < 1 || data.maxHp > 5)) {
+    errors.push('maxHp must be a whole number between 1 and 5');
+  }
+
+  const spawns = validateSpawns(data.spawns, 'spawns', errors);
+
+  const events: LevelEvent[] = [];
+  if (data.events !== undefined && !Array.isArray(data.events)) {
+    errors.push('events must be an array');
+  } else {
+    (data.events || []).forEach((event: any, index: number) => {
+      const valid = validateEvent(event, `events[${index}]`, errors);
+      if (valid) events.push(valid);
+    });
+  }
+
+  const waves: LevelWave[] = [];
+  if (data.waves !== undefined && !Array.isArray(data.waves)) {
+    errors.push('waves must be an array');
+  } else {
+    (data.waves || []).forEach((wave: any, index: number) => {
+      const valid = validateWave(wave, `waves[${index}]`, errors);
+      if (valid) waves.push(valid);
+    });
+  }
+
+  const objectives: ChallengObjective[] = [];
+  if (!Array.isArray(data.objectives) || data.objectives.length === 0) {
+    errors.push('objectives must be a non-empty array');
+  } else {
+    data.objectives.forEach((objective: any, index: number) => {
+      const valid = validateObjective(objective, `objectives[${index}]`, errors);
+      if (valid) objectives.push(valid);
+    });
+    // Constraints are met from the first tick, so on their own the level would be won straight away
+    if (objectives.length > 0 && objectives.every(obj => isConstraintObjective(obj.type))) {
+      errors.push('objectives need at least one goal besides NO_DAMAGE/NO_EDGES/TIME_LIMIT');
+    }
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  return {
+    success: true,
+    errors: [],
+    level: {
+      id: data.id,
+      name: data.name,
+      description: data.description,
+      theme: data.theme,
+      duration: data.duration,
+      parTime: data.parTime ?? data.duration ?? 120,
+      gravityScale: data.gravityScale ?? THEME_DEFINITIONS[data.theme as LevelTheme].gravityScale,
+      maxHp: data.maxHp,
+      spawns: { ...DEFAULT_SPAWN_TABLE, ...spawns },
+      // Sorted so the simulation can fire them with a single cursor
+      events: events.sort((a, b) => a.depth - b.depth),
+      waves: waves.sort((a, b) => a.depth - b.depth),
+      objectives
+    }
+  };
+};
+
+/**
+ * Parse and validate a level JSON string
+ */
+export const parseLevel = (json: string): { success: boolean; level?: ChallengeLevel; errors: string[] } => {
+  try {
+    return validateLevel(JSON.parse(json));
+  } catch (error) {
+    return { success: false, errors: ['File is not valid JSON'] };
+  }
+};
+
+/**
+ * Serialize a level back to the JSON level format (progress fields are dropped)
+ */
+export const serializeLevel = (level: ChallengeLevel): string => {
+  return JSON.stringify({
+    schemaVersion: LEVEL_SCHEMA_VERSION,
+    id: level.id,
+    name: level.name,
+    description: level.description,
+    theme: level.theme,
+    duration: level.duration,
+    parTime: level.parTime,
+    gravityScale: level.gravityScale,
+    maxHp: level.maxHp,
+    spawns: level.spawns,
+    events: level.events,
+    waves: level.waves,
+    objectives: level.objectives.map(obj => ({ type: obj.type, description: obj.description, target: obj.target, powerUpType: obj.powerUpType }))
+  }, null, 2);
+};
+
+/**
+ * Starting point for a new level in the editor
+ */
+export const createBlankLevel = (): ChallengeLevel => ({
+  id: 100,
+  name: 'My Level',
+  description: 'A custom level',
+  theme: 'GENTLE',
+  parTime: 120,
+  gravityScale: 1,
+  spawns: { ...DEFAULT_SPAWN_TABLE },
+  events: [],
+  waves: [],
+  objectives: [createObjective('REACH_DEPTH', 'Reach 500m depth', 500)]
+});
@@ -0,0 +1,90 @@
+import { LevelTheme, Obstacle } from '../types';
+
+/**
+ * Level Themes
+ * Everything a challenge theme changes: the renderer reads the sky, background and obstacle sprites,
+ * the simulation reads gravity and hazards.
+ */
+
+// How an obstacle is drawn (its hitbox comes from its behaviour)
+export type ObstacleSprite = Obstacle['type'] | 'ASTEROID' | 'STORM_CLOUD' | 'DEBRIS';
+
+export interface ThemeHazards {
+  asteroids: boolean; // Birds become asteroids: faster drift, straight through the screen edges
+  shapedWindZones: boolean; // Random wind zones are often vortexes, falloff updrafts or oscillating zones
+  lightningStrikes: boolean; // Lightning hits a column of the screen and damages the player there
+}
+
+export interface ThemeDefinition {
+  sky: [string, string]; // Gradient top, bottom
+  starfield: boolean; // Background layer is stars instead of clouds
+  rain: number; // Rain drops spawned per frame (0 = dry)
+  obstacleSprites: Record<Obstacle['type'], ObstacleSprite>;
+  gravityScale: number; // Default for levels that don't set their own
+  hazards: ThemeHazards;
+}
+
+export const DEFAULT_OBSTACLE_SPRITES: Record<Obstacle['type'], ObstacleSprite> = {
+  BIRD: 'BIRD',
+  CLOUD: 'CLOUD',
+  BUILDING: 'BUILDING',
+  BALLOON: 'BALLOON',
+  PLANE: 'PLANE'
+};
+
+const NO_HAZARDS: ThemeHazards = { asteroids: false, shapedWindZones: false, lightningStrikes: false };
+
+export const THEME_DEFINITIONS: Record<LevelTheme, ThemeDefinition> = {
+  GENTLE: {
+    sky: ['#7dd3fc', '#e0f2fe'], // Soft morning blue
+    starfield: false,
+    rain: 0,
+    obstacleSprites: DEFAULT_OBSTACLE_SPRITES,
+    gravityScale: 1,
+    hazards: NO_HAZARDS
+  },
+  NIGHT: {
+    sky: ['#020617', '#1e3a8a'], // Midnight blue
+    starfield: true,
+    rain: 0,
+    obstacleSprites: DEFAULT_OBSTACLE_SPRITES,
+    gravityScale: 1,
+    hazards: NO_HAZARDS
+  },
+  THUNDER: {
+    sky: ['#334155', '#64748b'], // Slate storm clouds
+    starfield: false,
+    rain: 8,
+    obstacleSprites: { ...DEFAULT_OBSTACLE_SPRITES, CLOUD: 'STORM_CLOUD' },
+    gravityScale: 1,
+    hazards: { ...NO_HAZARDS, lightningStrikes: true }
+  },
+  TORNADO: {
+    sky: ['#3f6212', '#a8a29e'], // Sickly green-grey
+    starfield: false,
+    rain: 8,
+    obstacleSprites: { ...DEFAULT_OBSTACLE_SPRITES, CLOUD: 'STORM_CLOUD', BALLOON: 'DEBRIS' },
+    gravityScale: 1,
+    hazards: { ...NO_HAZARDS, shapedWindZones: true }
+  },
+  SPACE: {
+    sky: ['#000000', '#1e1b4b'], // Black to deep violet
+    starfield: true,
+    rain: 0,
+    obstacleSprites: { ...DEFAULT_OBSTACLE_SPRITES, BIRD: 'ASTEROID', CLOUD: 'ASTEROID' },
+    gravityScale: 0.6,
+    hazards: { ...NO_HAZARDS, asteroids: true }
+  }
+};
+
+// For game over causes ("Hit an asteroid")
+export const OBSTACLE_SPRITE_NAMES: Record<ObstacleSprite, string> = {
+  BIRD: 'a bird',
+  CLOUD: 'a cloud',
+  BUILDING: 'a building',
+  BALLOON: 'a balloon',
+  PLANE: 'a plane',
+  ASTEROID: 'an asteroid',
+  STORM_CLOUD: 'a storm cloud',
+  DEBRIS: 'flying debris'
+};
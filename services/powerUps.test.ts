@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { ActivePowerUp, PowerUp, PowerUpUpgrades } from '../types';
+import { collectPowerUp, getBankedStacks, getPowerUpDuration, getPowerUpModifiers, POWER_UP_DEFINITIONS, PowerUpDefinitions, PowerUpStacking } from './powerUps';
+import { GlideSimulation } from './glideSimulation';
+import { createConfig, createWall } from './testFixtures';
+
+const collect = (
+  type: PowerUp['type'],
+  times: number,
+  upgrades: PowerUpUpgrades = {},
+  active: ActivePowerUp[] = [],
+  definitions: PowerUpDefinitions = POWER_UP_DEFINITIONS
+) => {
+  for (let i = 0; i < times; i++) collectPowerUp(active, type, upgrades, definitions);
+  return active;
+};
+
+// A copy of the rules with one power-up switched to another stacking rule
+const withStacking = (type: PowerUp['type'], stacking: PowerUpStacking): PowerUpDefinitions => ({
+  ...POWER_UP_DEFINITIONS,
+  [type]: { ...POWER_UP_DEFINITIONS[type], stacking }
+});
+
+describe('collectPowerUp', () => {
+  it('restarts the timer of a REFRESH power-up without stacking it', () => {
+    const active = collect('MAGNET', 1);
+    active[0].timeLeft = 10;
+
+    collect('MAGNET', 1, {}, active);
+
+    expect(active).toEqual([{ type: 'MAGNET', timeLeft: 480, duration: 480, stacks: 1 }]);
+  });
+
+  it('banks EXTEND durations up to duration * maxStacks and counts them for the HUD', () => {
+    const { duration, maxStacks } = POWER_UP_DEFINITIONS.DOUBLE_COINS;
+    const active = collect('DOUBLE_COINS', 2);
+    expect(active[0]).toMatchObject({ timeLeft: duration * 2, stacks: 2 });
+
+    collect('DOUBLE_COINS', 5, {}, active);
+    expect(active[0].timeLeft).toBe(duration * maxStacks);
+    expect(getBankedStacks(active[0], {})).toBe(maxStacks);
+
+    active[0].timeLeft = duration + 1;
+    expect(getBankedStacks(active[0], {})).toBe(2);
+    active[0].timeLeft = 1;
+    expect(getBankedStacks(active[0], {})).toBe(1);
+  });
+
+  it('banks upgraded durations', () => {
+    const upgrades: PowerUpUpgrades = { DOUBLE_COINS: 2 };
+    const duration = getPowerUpDuration('DOUBLE_COINS', upgrades);
+    const active = collect('DOUBLE_COINS', 2, upgrades);
+
+    expect(duration).toBe(600 + 2 * 120);
+    expect(active[0].timeLeft).toBe(duration * 2);
+    expect(getBankedStacks(active[0], upgrades)).toBe(2);
+  });
+
+  it('caps INTENSITY stacks at maxStacks and restarts the timer', () => {
+    const active = collect('SUPER_GLIDE', 1);
+    active[0].timeLeft = 10;
+    collect('SUPER_GLIDE', 4, {}, active);
+
+    expect(active[0]).toMatchObject({ stacks: POWER_UP_DEFINITIONS.SUPER_GLIDE.maxStacks, timeLeft: 300 });
+    expect(collect('SHIELD', 5)[0].stacks).toBe(POWER_UP_DEFINITIONS.SHIELD.maxStacks);
+  });
+
+  it('ends the conflicting power-up: Wind Breaker and Super Glide replace each other', () => {
+    const active = collect('MAGNET', 1, {}, collect('WIND_BREAKER', 1));
+    collect('SUPER_GLIDE', 1, {}, active);
+    expect(active.map(p => p.type)).toEqual(['MAGNET', 'SUPER_GLIDE']);
+
+    collect('WIND_BREAKER', 1, {}, active);
+    expect(active.map(p => p.type)).toEqual(['MAGNET', 'WIND_BREAKER']);
+  });
+
+  it('keeps an until-used DASH at duration -1 when stacking by INTENSITY', () => {
+    const active = collect('DASH', 5);
+    expect(active).toEqual([{ type: 'DASH', timeLeft: -1, duration: -1, stacks: POWER_UP_DEFINITIONS.DASH.maxStacks }]);
+    expect(getBankedStacks(active[0], {})).toBe(1);
+  });
+
+  it('leaves an until-used DASH alone under EXTEND - there is no time to bank', () => {
+    const active = collect('DASH', 3, {}, [], withStacking('DASH', 'EXTEND'));
+    expect(active).toEqual([{ type: 'DASH', timeLeft: -1, duration: -1, stacks: 1 }]);
+  });
+});
+
+describe('getPowerUpModifiers', () => {
+  it('applies INTENSITY scaling effects once per stack, including upgrades', () => {
+    const base = POWER_UP_DEFINITIONS.SUPER_GLIDE.modifiers.lift!;
+    const step = POWER_UP_DEFINITIONS.SUPER_GLIDE.upgrade.modifiers!.lift!;
+
+    expect(getPowerUpModifiers(collect('SUPER_GLIDE', 1), {}).lift).toBeCloseTo(base);
+    expect(getPowerUpModifiers(collect('SUPER_GLIDE', 2), {}).lift).toBeCloseTo(base * 2);
+    expect(getPowerUpModifiers(collect('SUPER_GLIDE', 2), { SUPER_GLIDE: 3 }).lift).toBeCloseTo((base + step * 3) * 2);
+  });
+
+  it('multiplies coinValue per stack only for INTENSITY power-ups', () => {
+    expect(getPowerUpModifiers(collect('DOUBLE_COINS', 3), {}).coinValue).toBe(2); // EXTEND banks time, not value
+
+    const definitions = withStacking('DOUBLE_COINS', 'INTENSITY');
+    expect(getPowerUpModifiers(collect('DOUBLE_COINS', 2, {}, [], definitions), {}, definitions).coinValue).toBe(4);
+  });
+
+  it('combines different power-ups', () => {
+    const mods = getPowerUpModifiers([...collect('SLOW_MOTION', 1), ...collect('MAGNET', 1), ...collect('DOUBLE_COINS', 1)], { MAGNET: 1 });
+
+    expect(mods).toMatchObject({ worldSpeed: 0.5, coinMagnetRange: 350, coinValue: 2, lift: 0, blocksHit: false });
+  });
+});
+
+describe('shield charges', () => {
+  it('blocks one hit per stack before the run can end', () => {
+    const sim = new GlideSimulation(createConfig({ seed: 1 }));
+    const state = sim.getState();
+    collect('SHIELD', 2, {}, state.activePowerUps);
+
+    const hitOnce = () => {
+      const { player } = state;
+      state.obstacles = [createWall(player.x, player.y)];
+      return sim.step({ isUmbrellaOpen: false, targetX: player.x });
+    };
+
+    expect(hitOnce().events).toContainEqual(expect.objectContaining({ type: 'SHIELD_BLOCKED' }));
+    expect(state.activePowerUps[0].stacks).toBe(1);
+
+    expect(hitOnce().events).toContainEqual(expect.objectContaining({ type: 'SHIELD_BLOCKED' }));
+    expect(state.activePowerUps).toEqual([]);
+
+    expect(hitOnce().isOver).toBe(true);
+  });
+});
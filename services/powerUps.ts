@@ -0,0 +1,297 @@
+import { ActivePowerUp, PowerUp, PowerUpUpgrades } from '../types';
+
+/**
+ * Power-Up Registry
+ * Everything a power-up type declares: how long it lasts, how often it spawns, what it does to the
+ * simulation, how the HUD shows it, and what each shop upgrade level adds.
+ * The simulation only reads the combined modifiers.
+ */
+
+const STORAGE_KEY = 'powerUpUpgrades';
+
+export const MAX_UPGRADE_LEVEL = 5;
+
+export interface PowerUpModifiers {
+  worldSpeed: number; // Multiplier on world scroll
+  windImmune: boolean; // Wind zones and gusts don't push the player
+  lift: number; // Upward force per tick, also lifts the rise speed cap
+  blocksHit: boolean; // Used up to block one hit
+  coinMagnetRange: number; // Coins within this distance fly to the player (reference px, 0 = off)
+  coinValue: number; // Multiplier on what each coin pays
+  dashSpeed: number; // Sideways burst when the dash input fires (reference px per tick, 0 = no dash); used up
+}
+
+type ScalingModifier = 'lift' | 'coinMagnetRange' | 'dashSpeed';
+
+// What one shop upgrade level adds on top of the base values
+export interface PowerUpUpgrade {
+  label: string; // Shop description
+  duration?: number; // Ticks
+  spawnWeight?: number;
+  modifiers?: Partial<Pick<PowerUpModifiers, ScalingModifier>>;
+}
+
+// What picking up a power-up that is already active does
+export type PowerUpStacking =
+  | 'REFRESH' // Timer restarts
+  | 'EXTEND' // Another full duration is banked
+  | 'INTENSITY'; // Effect applies once more per stack (one-shot effects get another charge), timer restarts
+
+export interface PowerUpDefinition {
+  name: string; // Objectives, editor and HUD label
+  icon: string;
+  color: string;
+  duration: number; // Ticks (-1 = until used)
+  spawnWeight: number; // Relative chance for random spawns
+  modifiers: Partial<PowerUpModifiers>;
+  upgrade: PowerUpUpgrade;
+  stacking: PowerUpStacking;
+  maxStacks: number;
+  conflicts?: PowerUp['type'][]; // Active power-ups this one ends when collected
+}
+
+// Rule set the helpers below look power-ups up in (the game always uses POWER_UP_DEFINITIONS)
+export type PowerUpDefinitions = Record<PowerUp['type'], PowerUpDefinition>;
+
+export const NO_MODIFIERS: PowerUpModifiers = {
+  worldSpeed: 1,
+  windImmune: false,
+  lift: 0,
+  blocksHit: false,
+  coinMagnetRange: 0,
+  coinValue: 1,
+  dashSpeed: 0
+};
+
+export const POWER_UP_DEFINITIONS: PowerUpDefinitions = {
+  SLOW_MOTION: {
+    name: 'Slow-Mo',
+    icon: '⏱️',
+    color: '#60a5fa', // Blue
+    duration: 180, // 3 seconds
+    spawnWeight: 1,
+    modifiers: { worldSpeed: 0.5 },
+    upgrade: { label: 'Spawns more often', spawnWeight: 0.3 },
+    stacking: 'REFRESH',
+    maxStacks: 1
+  },
+  SHIELD: {
+    name: 'Shield',
+    icon: '🛡️',
+    color: '#fbbf24', // Gold
+    duration: 1200, // 20 seconds
+    spawnWeight: 1,
+    modifiers: { blocksHit: true },
+    upgrade: { label: '+5s duration', duration: 300 },
+    stacking: 'INTENSITY', // Blocks one hit per stack
+    maxStacks: 3
+  },
+  WIND_BREAKER: {
+    name: 'Wind Breaker',
+    icon: '🌪️',
+    color: '#34d399', // Green
+    duration: 300,
+    spawnWeight: 1,
+    modifiers: { windImmune: true },
+    upgrade: { label: '+1s duration', duration: 60 },
+    stacking: 'EXTEND',
+    maxStacks: 3,
+    conflicts: ['SUPER_GLIDE'] // Both take over how the air carries the player - the newest wins
+  },
+  SUPER_GLIDE: {
+    name: 'Super Glide',
+    icon: '⬆️',
+    color: '#f87171', // Red
+    duration: 300,
+    spawnWeight: 1,
+    modifiers: { lift: 0.4 },
+    upgrade: { label: 'Stronger lift', modifiers: { lift: 0.06 } },
+    stacking: 'INTENSITY',
+    maxStacks: 2,
+    conflicts: ['WIND_BREAKER']
+  },
+  MAGNET: {
+    name: 'Magnet',
+    icon: '🧲',
+    color: '#f43f5e', // Rose
+    duration: 480, // 8 seconds
+    spawnWeight: 0.8,
+    modifiers: { coinMagnetRange: 300 },
+    upgrade: { label: 'Wider pull', modifiers: { coinMagnetRange: 50 } },
+    stacking: 'REFRESH',
+    maxStacks: 1
+  },
+  DOUBLE_COINS: {
+    name: 'Double Coins',
+    icon: '💰',
+    color: '#eab308', // Deep gold
+    duration: 600, // 10 seconds
+    spawnWeight: 0.6,
+    modifiers: { coinValue: 2 },
+    upgrade: { label: '+2s duration', duration: 120 },
+    stacking: 'EXTEND',
+    maxStacks: 3
+  },
+  DASH: {
+    name: 'Dash',
+    icon: '💨',
+    color: '#a78bfa', // Violet
+    duration: -1,
+    spawnWeight: 0.8,
+    modifiers: { dashSpeed: 24 },
+    upgrade: { label: 'Longer burst', modifiers: { dashSpeed: 3 } },
+    stacking: 'INTENSITY', // One dash per stack
+    maxStacks: 3
+  }
+};
+
+export const POWER_UP_TYPES = Object.keys(POWER_UP_DEFINITIONS) as PowerUp['type'][];
+
+/**
+ * Shop level of a power-up, clamped to the valid range
+ */
+export const getUpgradeLevel = (upgrades: PowerUpUpgrades, type: PowerUp['type']): number => {
+  const level = upgrades[type] ?? 0;
+  return Number.isInteger(level) ? Math.min(Math.max(level, 0), MAX_UPGRADE_LEVEL) : 0;
+};
+
+/**
+ * Coins needed to buy the next level (null when maxed)
+ */
+export const getUpgradeCost = (level: number): number | null => {
+  return level >= MAX_UPGRADE_LEVEL ? null : 100 * (level + 1);
+};
+
+/**
+ * Ticks a collected power-up lasts at its upgrade level (-1 = until used)
+ */
+export const getPowerUpDuration = (
+  type: PowerUp['type'],
+  upgrades: PowerUpUpgrades,
+  definitions: PowerUpDefinitions = POWER_UP_DEFINITIONS
+): number => {
+  const definition = definitions[type];
+  if (definition.duration < 0) return definition.duration;
+  return definition.duration + (definition.upgrade.duration ?? 0) * getUpgradeLevel(upgrades, type);
+};
+
+/**
+ * Random spawn weight at the upgrade level
+ */
+export const getPowerUpSpawnWeight = (type: PowerUp['type'], upgrades: PowerUpUpgrades): number => {
+  const definition = POWER_UP_DEFINITIONS[type];
+  return definition.spawnWeight + (definition.upgrade.spawnWeight ?? 0) * getUpgradeLevel(upgrades, type);
+};
+
+const getUpgradedModifiers = (type: PowerUp['type'], upgrades: PowerUpUpgrades, definitions: PowerUpDefinitions): Partial<PowerUpModifiers> => {
+  const definition = definitions[type];
+  const level = getUpgradeLevel(upgrades, type);
+  const mods = { ...definition.modifiers };
+  for (const [key, step] of Object.entries(definition.upgrade.modifiers ?? {}) as [ScalingModifier, number][]) {
+    mods[key] = (mods[key] ?? 0) + step * level;
+  }
+  return mods;
+};
+
+/**
+ * Combined effect of everything active (speeds multiply, ranges take the largest, flags add up).
+ * Intensity stacks apply a power-up's scaling effects once per stack.
+ */
+export const getPowerUpModifiers = (
+  active: ActivePowerUp[],
+  upgrades: PowerUpUpgrades,
+  definitions: PowerUpDefinitions = POWER_UP_DEFINITIONS
+): PowerUpModifiers => {
+  const combined = { ...NO_MODIFIERS };
+  for (const powerUp of active) {
+    const mods = getUpgradedModifiers(powerUp.type, upgrades, definitions);
+    const intensity = definitions[powerUp.type].stacking === 'INTENSITY' ? powerUp.stacks : 1;
+    if (mods.worldSpeed !== undefined) combined.worldSpeed *= mods.worldSpeed ** intensity;
+    if (mods.windImmune) combined.windImmune = true;
+    if (mods.lift !== undefined) combined.lift += mods.lift * intensity;
+    if (mods.blocksHit) combined.blocksHit = true;
+    if (mods.coinMagnetRange !== undefined) combined.coinMagnetRange = Math.max(combined.coinMagnetRange, mods.coinMagnetRange);
+    if (mods.coinValue !== undefined) combined.coinValue *= mods.coinValue ** intensity;
+    if (mods.dashSpeed !== undefined) combined.dashSpeed = Math.max(combined.dashSpeed, mods.dashSpeed);
+  }
+  return combined;
+};
+
+/**
+ * Add a collected power-up to the active list: stacks onto an active one of the same type,
+ * otherwise ends any it conflicts with and starts fresh
+ */
+export const collectPowerUp = (
+  active: ActivePowerUp[],
+  type: PowerUp['type'],
+  upgrades: PowerUpUpgrades,
+  definitions: PowerUpDefinitions = POWER_UP_DEFINITIONS
+): void => {
+  const definition = definitions[type];
+  const duration = getPowerUpDuration(type, upgrades, definitions);
+
+  const existing = active.find(p => p.type === type);
+  if (existing) {
+    switch (definition.stacking) {
+      case 'REFRESH':
+        existing.timeLeft = duration;
+        existing.duration = duration;
+        break;
+      case 'EXTEND':
+        if (duration < 0) break;
+        existing.timeLeft = Math.min(existing.timeLeft + duration, duration * definition.maxStacks);
+        existing.duration = Math.max(existing.duration, existing.timeLeft);
+        existing.stacks = getBankedStacks(existing, upgrades, definitions);
+        break;
+      case 'INTENSITY':
+        existing.stacks = Math.min(existing.stacks + 1, definition.maxStacks);
+        existing.timeLeft = duration;
+        existing.duration = duration;
+        break;
+    }
+    return;
+  }
+
+  for (let i = active.length - 1; i >= 0; i--) {
+    if (definition.conflicts?.includes(active[i].type)) active.splice(i, 1);
+  }
+  active.push({ type, timeLeft: duration, duration, stacks: 1 });
+};
+
+/**
+ * Durations still banked on an extending power-up (its HUD stack count)
+ */
+export const getBankedStacks = (
+  powerUp: ActivePowerUp,
+  upgrades: PowerUpUpgrades,
+  definitions: PowerUpDefinitions = POWER_UP_DEFINITIONS
+): number => {
+  const duration = getPowerUpDuration(powerUp.type, upgrades, definitions);
+  return duration > 0 ? Math.max(1, Math.ceil(powerUp.timeLeft / duration)) : 1;
+};
+
+/**
+ * Load saved upgrade levels (none when nothing is stored or the data is unreadable)
+ */
+export const loadPowerUpUpgrades = (): PowerUpUpgrades => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const data = stored ? JSON.parse(stored) : {};
+    const upgrades: PowerUpUpgrades = {};
+    for (const type of POWER_UP_TYPES) {
+      const level = getUpgradeLevel(data, type);
+      if (level > 0) upgrades[type] = level;
+    }
+    return upgrades;
+  } catch (error) {
+    console.error('Error loading power-up upgrades:', error);
+    return {};
+  }
+};
+
+/**
+ * Persist upgrade levels
+ */
+export const savePowerUpUpgrades = (upgrades: PowerUpUpgrades): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(upgrades));
+};
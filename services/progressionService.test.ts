@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { ChallengObjective, LevelProgress } from '../types';
+import { createBlankLevel, createObjective } from './levelLoader';
+import { recordLevelRun } from './progressionService';
+
+const level = {
+  ...createBlankLevel(),
+  objectives: [
+    createObjective('REACH_DEPTH', 'Reach 500m', 500),
+    createObjective('COLLECT_COINS', 'Collect 10 coins', 10),
+    createObjective('NO_DAMAGE', 'Take no damage', 1)
+  ]
+};
+
+// The level's objectives as a run left them: `met` lists the ones completed
+const createRun = (met: ChallengObjective['type'][], timeElapsed = 60): LevelProgress => ({
+  objectives: level.objectives.map(obj => ({ ...obj, completed: met.includes(obj.type) })),
+  timeElapsed
+});
+
+describe('recordLevelRun', () => {
+  it('records every objective of a cleared run', () => {
+    const result = recordLevelRun({}, level, createRun(['REACH_DEPTH', 'COLLECT_COINS', 'NO_DAMAGE']));
+
+    expect(result.cleared).toBe(true);
+    expect(result.progress[level.id]).toMatchObject({ cleared: true, bestTime: 60, completedObjectives: [0, 1, 2] });
+  });
+
+  it('keeps goals met by a failed run but not constraints it had not lost yet', () => {
+    const result = recordLevelRun({}, level, createRun(['COLLECT_COINS', 'NO_DAMAGE'], 5));
+
+    expect(result).toMatchObject({ cleared: false, stars: 0, newBestTime: false });
+    expect(result.progress[level.id]).toEqual({ cleared: false, stars: 0, bestTime: null, completedObjectives: [1] });
+  });
+
+  it('credits nothing for a run abandoned on the first tick', () => {
+    const result = recordLevelRun({}, level, createRun(['NO_DAMAGE'], 0));
+
+    expect(result.progress[level.id].completedObjectives).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { ChallengeLevel, LevelProgress, LevelRecord } from '../types';
+import { CHALLENGE_LEVELS } from './challengeLevels';
+import { isConstraintObjective } from './levelLoader';
+
+/**
+ * Challenge Progression
+ * Remembers cleared levels, star ratings, best times and objectives met, and decides which levels are unlocked.
+ */
+
+const STORAGE_KEY = 'challengeProgress';
+
+export type ChallengeProgress = Record<number, LevelRecord>;
+
+/**
+ * Load saved progression (empty when nothing is stored or the data is unreadable)
+ */
+export const loadChallengeProgress = (): ChallengeProgress => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error loading challenge progress:', error);
+    return {};
+  }
+};
+
+/**
+ * Persist progression
+ */
+export const saveChallengeProgress = (progress: ChallengeProgress): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+};
+
+/**
+ * Star rating for a run: 1 for clearing, 2 within par time, 3 within 80% of par.
+ * Levels that make you survive a set time can't be finished faster than that, so it caps the 3-star time.
+ */
+export const calculateStars = (level: ChallengeLevel, cleared: boolean, timeElapsed: number): number => {
+  if (!cleared) return 0;
+
+  const minimumTime = Math.max(0, ...level.objectives.filter(obj => obj.type === 'SURVIVE_TIME').map(obj => obj.target));
+  const goldTime = Math.max(level.parTime * 0.8, minimumTime);
+
+  if (timeElapsed <= goldTime) return 3;
+  if (timeElapsed <= level.parTime) return 2;
+  return 1;
+};
+
+/**
+ * Merge a finished run into the saved progression
+ */
+export const recordLevelRun = (
+  progress: ChallengeProgress,
+  level: ChallengeLevel,
+  run: LevelProgress
+): { progress: ChallengeProgress; stars: number; cleared: boolean; newBestTime: boolean } => {
+  const previous: LevelRecord = progress[level.id] || { cleared: false, stars: 0, bestTime: null, completedObjectives: [] };
+  const cleared = run.objectives.every(obj => obj.completed);
+  const stars = calculateStars(level, cleared, run.timeElapsed);
+  const newBestTime = cleared && (previous.bestTime === null || run.timeElapsed < previous.bestTime);
+
+  // Constraints start out met, so they only count from a run that cleared the level
+  const completedObjectives = new Set(previous.completedObjectives);
+  run.objectives.forEach((obj, index) => {
+    if (obj.completed && (cleared || !isConstraintObjective(obj.type))) completedObjectives.add(index);
+  });
+
+  const record: LevelRecord = {
+    cleared: previous.cleared || cleared,
+    stars: Math.max(previous.stars, stars),
+    bestTime: newBestTime ? run.timeElapsed : previous.bestTime,
+    completedObjectives: Array.from(completedObjectives).sort((a, b) => a - b)
+  };
+
+  return { progress: { ...progress, [level.id]: record }, stars, cleared, newBestTime };
+};
+
+/**
+ * The first level is always open; every other level needs the one before it cleared
+ */
+export const isLevelUnlocked = (progress: ChallengeProgress, levelId: number): boolean => {
+  const index = CHALLENGE_LEVELS.findIndex(level => level.id === levelId);
+  if (index <= 0) return true;
+  return !!progress[CHALLENGE_LEVELS[index - 1].id]?.cleared;
+};
+
+/**
+ * Format seconds as m:ss
+ */
+export const formatLevelTime = (seconds: number): string => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+};
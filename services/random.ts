@@ -0,0 +1,45 @@
+/**
+ * Seeded Random Number Generator
+ * Deterministic PRNG (mulberry32) so the same seed always produces the same run
+ */
+
+export interface SeededRandom {
+  seed: number;
+  next: () => number; // Float in [0, 1)
+  range: (min: number, max: number) => number;
+  chance: (probability: number) => boolean;
+  pick: <T>(items: T[]) => T;
+  id: () => string;
+}
+
+/**
+ * Create a generator from a 32-bit seed
+ */
+export const createSeededRandom = (seed: number): SeededRandom => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed: seed >>> 0,
+    next,
+    range: (min, max) => min + next() * (max - min),
+    chance: (probability) => next() < probability,
+    pick: (items) => items[Math.floor(next() * items.length)],
+    id: () => next().toString(36).substr(2, 9)
+  };
+};
+
+/**
+ * Generate a fresh random seed for a new run
+ */
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+};
+
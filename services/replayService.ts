@@ -0,0 +1,294 @@
+import { DifficultyMode, GameMode, PowerUp, PowerUpUpgrades, Replay, ReplayInputFrame, SimulationConfig, SimulationInput, WorldState } from '../types';
+import { GlideSimulation, TICKS_PER_SECOND, getMaxHp } from './glideSimulation';
+import { LEVEL_SCHEMA_VERSION, serializeLevel, validateLevel } from './levelLoader';
+import { getLevelById } from './challengeLevels';
+import { getUpgradeLevel, POWER_UP_TYPES } from './powerUps';
+
+/**
+ * Replay Service
+ * Records the seed + per-tick input stream of a run so GlideSimulation can recreate it exactly.
+ * Only input changes are stored, which keeps a multi-minute run down to a few KB of JSON.
+ */
+
+// Bump when the format or the simulation rules change in a way that breaks old replays
+export const REPLAY_VERSION = 13;
+
+// targetX is stored with 0.1px precision
+const TARGET_X_PRECISION = 10;
+
+// Limits for verification - anything beyond these is not a real browser run
+const MAX_VERIFY_TICKS = TICKS_PER_SECOND * 60 * 30; // 30 minutes
+const MAX_WORLD_SIZE = 8000; // px
+
+/**
+ * Round input to what a replay can store, so live runs and playback feed identical values
+ */
+export const quantizeInput = (input: SimulationInput): SimulationInput => ({
+  isUmbrellaOpen: input.isUmbrellaOpen,
+  targetX: Math.round(input.targetX * TARGET_X_PRECISION) / TARGET_X_PRECISION,
+  dash: !!input.dash
+});
+
+export interface ReplayRecorder {
+  record: (tick: number, input: SimulationInput) => void;
+  revive: (tick: number) => void; // The run was continued after crashing on this tick
+  finish: (tickCount: number, finalDepth: number) => Replay; // Can be called again if the run is continued
+}
+
+/**
+ * Start recording a run
+ */
+export const createReplayRecorder = (config: SimulationConfig): ReplayRecorder => {
+  const inputs: ReplayInputFrame[] = [];
+  let last: SimulationInput | null = null;
+  let revivedAt: number | undefined;
+  const { allowContinue: _allowContinue, ...recordedConfig } = config; // Playback decides that from revivedAt
+
+  return {
+    record: (tick, input) => {
+      const frame: ReplayInputFrame = { t: tick };
+      if (!last || last.isUmbrellaOpen !== input.isUmbrellaOpen) frame.u = input.isUmbrellaOpen ? 1 : 0;
+      if (!last || last.targetX !== input.targetX) frame.x = input.targetX;
+      if (input.dash) frame.d = 1; // One-tick press, not a held state
+
+      if (frame.u !== undefined || frame.x !== undefined || frame.d !== undefined) inputs.push(frame);
+      last = { ...input };
+    },
+    revive: (tick) => {
+      revivedAt = tick;
+    },
+    finish: (tickCount, finalDepth) => ({
+      version: REPLAY_VERSION,
+      config: recordedConfig,
+      inputs: inputs.slice(),
+      tickCount,
+      ...(revivedAt !== undefined ? { revivedAt } : {}),
+      finalDepth,
+      recordedAt: new Date().toISOString()
+    })
+  };
+};
+
+export interface ReplayPlayer {
+  inputAt: (tick: number) => SimulationInput; // Ticks must be requested in ascending order
+}
+
+/**
+ * Play back a recorded input stream
+ */
+export const createReplayPlayer = (replay: Replay): ReplayPlayer => {
+  const current: SimulationInput = { isUmbrellaOpen: false, targetX: replay.config.width / 2, dash: false };
+  let cursor = 0;
+
+  return {
+    inputAt: (tick) => {
+      current.dash = false;
+      while (cursor < replay.inputs.length && replay.inputs[cursor].t <= tick) {
+        const frame = replay.inputs[cursor];
+        if (frame.u !== undefined) current.isUmbrellaOpen = frame.u === 1;
+        if (frame.x !== undefined) current.targetX = frame.x;
+        if (frame.d === 1 && frame.t === tick) current.dash = true;
+        cursor++;
+      }
+      return { ...current };
+    }
+  };
+};
+
+/**
+ * Simulation to play a replay back on (only one that was continued keeps the snapshots a revive needs)
+ */
+export const createReplaySimulation = (replay: Replay): GlideSimulation =>
+  new GlideSimulation({ ...replay.config, allowContinue: replay.revivedAt !== undefined });
+
+/**
+ * Continue a replayed run past the crash it was revived from (false when it really ended there)
+ */
+export const applyRecordedRevive = (sim: GlideSimulation, replay: Replay): boolean => {
+  const world = sim.getState();
+  return world.isOver && world.tick === replay.revivedAt && sim.revive();
+};
+
+/**
+ * Re-run a replay headlessly and return the final world state
+ */
+export const simulateReplay = (replay: Replay): WorldState => {
+  const sim = createReplaySimulation(replay);
+  const player = createReplayPlayer(replay);
+
+  let world = sim.getState();
+  while ((!world.isOver || applyRecordedRevive(sim, replay)) && world.tick <= replay.tickCount) {
+    world = sim.step(player.inputAt(world.tick));
+  }
+  return world;
+};
+
+/**
+ * Check that a replay really produces the claimed depth
+ */
+export const verifyReplay = (replay: Replay, claimedDepth: number): { valid: boolean; depth: number; reason?: string } => {
+  if (replay.tickCount <= 0 || replay.tickCount > MAX_VERIFY_TICKS) {
+    return { valid: false, depth: 0, reason: `Run length of ${replay.tickCount} ticks is out of range.` };
+  }
+  if (replay.config.width > MAX_WORLD_SIZE || replay.config.height > MAX_WORLD_SIZE) {
+    return { valid: false, depth: 0, reason: `World size ${replay.config.width}x${replay.config.height} is out of range.` };
+  }
+
+  // Replays carry their level data - only the built-in levels count
+  const level = replay.config.level;
+  if (level) {
+    const builtIn = getLevelById(level.id);
+    if (!builtIn || serializeLevel(builtIn) !== serializeLevel(level)) {
+      return { valid: false, depth: 0, reason: `Level ${level.id} does not match the built-in level.` };
+    }
+  }
+
+  // Lives mode is a practice aid - only the rules a level sets count
+  const expectedHp = getMaxHp(replay.config.gameMode, level, false);
+  if (replay.config.maxHp !== expectedHp) {
+    return { valid: false, depth: 0, reason: `Run used ${replay.config.maxHp} HP (expected ${expectedHp}).` };
+  }
+
+  const world = simulateReplay(replay);
+
+  if (!world.isOver || world.tick !== replay.tickCount) {
+    return { valid: false, depth: world.depth, reason: `Run did not end at tick ${replay.tickCount}.` };
+  }
+  if (world.depth !== claimedDepth) {
+    return { valid: false, depth: world.depth, reason: `Re-simulated depth ${world.depth}m does not match claimed ${claimedDepth}m.` };
+  }
+  return { valid: true, depth: world.depth };
+};
+
+/**
+ * Serialize a replay for download/sharing
+ */
+export const exportReplay = (replay: Replay): string => {
+  return JSON.stringify(replay);
+};
+
+/**
+ * Parse and validate a replay file
+ */
+export const importReplay = (json: string): { success: boolean; replay?: Replay; error?: string } => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return { success: false, error: "File is not valid JSON." };
+  }
+
+  if (!data || typeof data !== 'object') {
+    return { success: false, error: "File is not a replay." };
+  }
+  if (data.version !== REPLAY_VERSION) {
+    return { success: false, error: `Unsupported replay version ${data.version} (expected ${REPLAY_VERSION}).` };
+  }
+
+  const config = data.config;
+  const isValidConfig = config &&
+    typeof config.seed === 'number' &&
+    typeof config.width === 'number' && config.width > 0 &&
+    typeof config.height === 'number' && config.height > 0 &&
+    ['EASY', 'MEDIUM', 'HARD'].includes(config.difficultyMode) &&
+    ['ENDLESS', 'STORM', 'CHALLENGE'].includes(config.gameMode) &&
+    (config.level === null || typeof config.level === 'object') &&
+    Number.isInteger(config.maxHp) && config.maxHp >= 1 &&
+    config.powerUpUpgrades && typeof config.powerUpUpgrades === 'object' &&
+    Object.entries(config.powerUpUpgrades).every(([type, level]) =>
+      (POWER_UP_TYPES as string[]).includes(type) && getUpgradeLevel(config.powerUpUpgrades, type as PowerUp['type']) === level);
+  if (!isValidConfig) {
+    return { success: false, error: "Replay has an invalid game config." };
+  }
+
+  const levelResult = config.level === null
+    ? null
+    : validateLevel({ schemaVersion: LEVEL_SCHEMA_VERSION, ...config.level });
+  if (levelResult && !levelResult.success) {
+    return { success: false, error: `Replay has an invalid level: ${levelResult.errors[0]}` };
+  }
+
+  const isValidInputs = Array.isArray(data.inputs) && data.inputs.every((frame: any) =>
+    frame && typeof frame.t === 'number' &&
+    (frame.u === undefined || frame.u === 0 || frame.u === 1) &&
+    (frame.x === undefined || typeof frame.x === 'number') &&
+    (frame.d === undefined || frame.d === 1)
+  );
+  if (!isValidInputs) {
+    return { success: false, error: "Replay has an invalid input stream." };
+  }
+
+  if (typeof data.tickCount !== 'number' || typeof data.finalDepth !== 'number') {
+    return { success: false, error: "Replay is missing its result." };
+  }
+  if (data.revivedAt !== undefined && !(Number.isInteger(data.revivedAt) && data.revivedAt >= 0 && data.revivedAt < data.tickCount)) {
+    return { success: false, error: "Replay has an invalid continue." };
+  }
+
+  return {
+    success: true,
+    replay: {
+      version: data.version,
+      config: {
+        seed: config.seed,
+        width: config.width,
+        height: config.height,
+        difficultyMode: config.difficultyMode,
+        gameMode: config.gameMode,
+        level: levelResult ? levelResult.level! : null,
+        maxHp: config.maxHp,
+        powerUpUpgrades: config.powerUpUpgrades
+      },
+      inputs: data.inputs,
+      tickCount: data.tickCount,
+      ...(data.revivedAt !== undefined ? { revivedAt: data.revivedAt } : {}),
+      finalDepth: data.finalDepth,
+      recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : ''
+    }
+  };
+};
+
+// --- Ghosts ---
+
+const GHOST_STORAGE_PREFIX = 'stickman_glide_ghost:';
+
+/**
+ * Storage key of the ghost raced in a mode / level / difficulty (levelId null outside Challenge Mode).
+ * Hearts and shop upgrades are part of it too - a run with more of either isn't a fair race.
+ */
+export const getGhostKey = (
+  gameMode: GameMode,
+  levelId: number | null,
+  difficultyMode: DifficultyMode,
+  maxHp: number,
+  powerUpUpgrades: PowerUpUpgrades
+): string => {
+  const upgrades = POWER_UP_TYPES.map(type => getUpgradeLevel(powerUpUpgrades, type)).join('.');
+  return `${gameMode}:${levelId ?? '-'}:${difficultyMode}:${maxHp}hp:${upgrades}`;
+};
+
+const getReplayGhostKey = (replay: Replay): string => {
+  const { gameMode, level, difficultyMode, maxHp, powerUpUpgrades } = replay.config;
+  return getGhostKey(gameMode, level ? level.id : null, difficultyMode, maxHp, powerUpUpgrades);
+};
+
+/**
+ * Best stored run for a ghost key (null when there is none or it was recorded somewhere else)
+ */
+export const loadGhostReplay = (key: string): Replay | null => {
+  const stored = localStorage.getItem(GHOST_STORAGE_PREFIX + key);
+  if (!stored) return null;
+  const result = importReplay(stored);
+  return result.success && result.replay && getReplayGhostKey(result.replay) === key ? result.replay : null;
+};
+
+/**
+ * Keep a run as the ghost of its mode / level / difficulty / loadout if it went deeper than the stored one
+ */
+export const saveGhostReplay = (replay: Replay): boolean => {
+  const key = getReplayGhostKey(replay);
+  const current = loadGhostReplay(key);
+  if (current && current.finalDepth >= replay.finalDepth) return false;
+  localStorage.setItem(GHOST_STORAGE_PREFIX + key, exportReplay(replay));
+  return true;
+};
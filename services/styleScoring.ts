@@ -0,0 +1,65 @@
+import { StyleState, StyleTrick } from '../types';
+
+/**
+ * Style Scoring
+ * Tricks earn style points on top of depth: near misses, riding the edge of a wind zone,
+ * threading past a building close to the wall and long closed-umbrella dives.
+ * Each trick raises a combo multiplier that drains away once the player stops showing off.
+ */
+
+export const STYLE_TRICKS: Record<StyleTrick, { label: string; points: number }> = {
+  NEAR_MISS: { label: 'Near Miss', points: 50 },
+  WIND_EDGE: { label: 'Edge Rider', points: 30 }, // Per WIND_EDGE_TICKS on the edge
+  THREAD: { label: 'Threaded', points: 100 },
+  DIVE: { label: 'Dive', points: 40 } // Per second of the dive
+};
+
+// Detection (reference px / ticks)
+export const NEAR_MISS_MARGIN = 35; // Grazing distance around the stickman's body parts
+export const WIND_EDGE_MARGIN = 40; // Band inside a zone's border
+export const WIND_EDGE_TICKS = 60;
+export const THREAD_CLEARANCE = 160; // Widest gap to a building's wall that still counts as threading
+export const DIVE_MIN_TICKS = 90;
+
+// Combo
+const COMBO_STEP = 0.5;
+const COMBO_MAX = 5;
+const COMBO_HOLD_TICKS = 180; // Full multiplier kept this long after a trick
+const COMBO_DECAY_TICKS = 30; // Then it drops a step this often
+
+export const createStyleState = (): StyleState => ({
+  points: 0,
+  combo: 1,
+  comboTimer: 0,
+  edgeTicks: 0,
+  diveTicks: 0
+});
+
+/**
+ * Score a trick at the current multiplier and raise the combo (units scale tricks paid by length)
+ */
+export const awardStyle = (style: StyleState, trick: StyleTrick, units: number = 1): number => {
+  const points = Math.round(STYLE_TRICKS[trick].points * units * style.combo);
+  style.points += points;
+  style.combo = Math.min(style.combo + COMBO_STEP, COMBO_MAX);
+  style.comboTimer = COMBO_HOLD_TICKS;
+  return points;
+};
+
+/**
+ * Drain the combo by one tick
+ */
+export const decayCombo = (style: StyleState): void => {
+  if (style.combo <= 1) return;
+  if (--style.comboTimer > 0) return;
+  style.combo = Math.max(1, style.combo - COMBO_STEP);
+  style.comboTimer = COMBO_DECAY_TICKS;
+};
+
+/**
+ * Lose the combo (taking a hit)
+ */
+export const breakCombo = (style: StyleState): void => {
+  style.combo = 1;
+  style.comboTimer = 0;
+};
@@ -0,0 +1,37 @@
+import { Obstacle, SimulationConfig } from '../types';
+
+/**
+ * Test Fixtures
+ * Worlds and obstacles shared by the simulation tests.
+ */
+
+/**
+ * A one-hit Endless run at the reference resolution
+ */
+export const createConfig = (overrides: Partial<SimulationConfig> = {}): SimulationConfig => ({
+  seed: 1234,
+  width: 1920,
+  height: 1080,
+  difficultyMode: 'MEDIUM',
+  gameMode: 'ENDLESS',
+  level: null,
+  maxHp: 1,
+  powerUpUpgrades: {},
+  ...overrides
+});
+
+/**
+ * A still building centred on (x, y), big enough that a player there is hit on the next tick
+ */
+export const createWall = (x: number, y: number): Obstacle => ({
+  id: 'wall',
+  x: x - 100,
+  y: y - 100,
+  width: 200,
+  height: 200,
+  type: 'BUILDING',
+  behavior: 'DRIFT',
+  speedX: 0,
+  speedY: 0,
+  timer: 0
+});
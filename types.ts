@@ -9,14 +9,37 @@ export interface Point {
   y: number;
 }
 
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// How an obstacle moves (each behaviour also has its own hitbox shape)
+export type ObstacleBehavior =
+  | 'DRIFT' // Scrolls with the world at a constant speedX
+  | 'SINE' // Birds flapping up and down along their path
+  | 'SWOOP' // Birds that dive at the player once close
+  | 'RISE' // Balloons climbing until they pop
+  | 'SCRAP' // Balloon scraps flung out by a pop, gone after `timer` ticks
+  | 'LEDGES' // Buildings with window ledges sticking out
+  | 'CROSS'; // Planes flying level across the screen after an edge warning
+
 export interface Obstacle {
   id: string;
   x: number;
   y: number;
   width: number;
   height: number;
-  type: 'BIRD' | 'CLOUD' | 'BUILDING' | 'BALLOON';
+  type: 'BIRD' | 'CLOUD' | 'BUILDING' | 'BALLOON' | 'PLANE';
+  behavior: ObstacleBehavior;
   speedX: number;
+  speedY: number; // On top of the world scroll (negative = up)
+  timer: number; // Behaviour clock in ticks: sine phase, swoop started, pop/scrap countdown, plane warning
+  ledges?: Rect[]; // LEDGES only, offsets from the obstacle's top-left
+  nearMiss?: 'GRAZING' | 'DONE'; // Style: inside the near-miss margin / already scored or hit
+  thread?: 'INSIDE' | 'DONE'; // Style (buildings): hugging the wall on the open side / already scored or hit
 }
 
 export interface Particle {
@@ -42,14 +65,23 @@ export interface BackgroundElement {
   driftX: number;
 }
 
+// CONSTANT: vx/vy push the same way over the whole rectangle.
+// VORTEX: a circle inscribed in the rectangle - vx is the tangential force at the rim (+ = clockwise), vy pulls toward the centre.
+// UPDRAFT: vx/vy at full strength on the centre line, fading to nothing at the left and right edges.
+// OSCILLATING: vx/vy scaled by a cosine over `period` ticks, so the push flips direction and back.
+export type WindZoneKind = 'CONSTANT' | 'VORTEX' | 'UPDRAFT' | 'OSCILLATING';
+
 export interface WindZone {
   id: string;
+  kind: WindZoneKind;
   x: number;
   y: number;
   width: number;
   height: number;
   vx: number; // Horizontal force
   vy: number; // Vertical force
+  period?: number; // OSCILLATING only: ticks per full cycle
+  pinnedTicks?: number; // Authored timed zones hold still on screen for this many ticks
 }
 
 export interface PowerUp {
@@ -58,14 +90,18 @@ export interface PowerUp {
   y: number;
   width: number;
   height: number;
-  type: 'SLOW_MOTION' | 'SHIELD' | 'WIND_BREAKER' | 'SUPER_GLIDE';
+  type: 'SLOW_MOTION' | 'SHIELD' | 'WIND_BREAKER' | 'SUPER_GLIDE' | 'MAGNET' | 'DOUBLE_COINS' | 'DASH'; // Effects live in services/powerUps.ts
   collected: boolean;
 }
 
+// Shop upgrade level per power-up (missing = 0)
+export type PowerUpUpgrades = Partial<Record<PowerUp['type'], number>>;
+
 export interface ActivePowerUp {
   type: PowerUp['type'];
-  timeLeft: number;
+  timeLeft: number; // Simulation ticks (-1 = until used), frozen while paused
   duration: number;
+  stacks: number; // Pickups held - effect intensity, charges or banked durations depending on the type's stacking
 }
 
 export interface Coin {
@@ -100,31 +136,277 @@ export interface LeaderboardEntry {
   name: string;
   score: number;
   date?: any;
+  seed?: number;
+  replay?: string; // Exported Replay JSON, re-simulated by verifyScores.ts
+  verification?: 'PENDING' | 'VERIFIED' | 'REJECTED';
+  rejectReason?: string;
 }
 
 export type GameMode = 'ENDLESS' | 'STORM' | 'CHALLENGE';
 
+export type LevelTheme = 'GENTLE' | 'NIGHT' | 'THUNDER' | 'TORNADO' | 'SPACE';
+
+// What spawns during a level (replaces the ENDLESS/STORM defaults)
+export interface LevelSpawnTable {
+  obstacleInterval: number; // Ticks between obstacles at zero difficulty (shrinks as difficulty rises)
+  obstacleWeights: Record<Obstacle['type'], number>; // Relative chance per obstacle type
+  windZoneDensity: number; // Wind zones per minute (0 = none)
+  windStrength: number; // Multiplier on wind zone force
+  powerUpInterval: number; // Ticks between power-ups
+  coinInterval: number; // Ticks between coins
+}
+
+// Scripted moments, fired once when the player reaches `depth` (meters)
+export type LevelEvent =
+  | { depth: number; type: 'MESSAGE'; text: string }
+  | { depth: number; type: 'GUST'; vx: number; vy: number; duration: number } // duration in seconds
+  | { depth: number; type: 'LIGHTNING' }
+  | { depth: number; type: 'SPAWNS'; spawns: Partial<LevelSpawnTable> }; // Override the spawn table from here on
+
+// Authored formations, placed when the player reaches `depth` (meters).
+// x/width are fractions of the world width (0-1); dy/height/spacing are pixels at 1920x1080,
+// measured downward from the spawn line just below the screen.
+export interface WaveObstacle {
+  type: Obstacle['type'];
+  x: number;
+  dy?: number; // Planes: offset from the player's height instead
+  speedX?: number; // Pixels per tick at 1920x1080 (default 0)
+  behavior?: ObstacleBehavior; // Default DRIFT (CROSS for planes)
+}
+
+export interface WaveWindZone {
+  kind?: WindZoneKind; // Default CONSTANT
+  x: number;
+  width: number;
+  vx: number;
+  vy: number;
+  height?: number; // Scrolling zones only (default 400)
+  dy?: number;
+  duration?: number; // Seconds - the zone covers the full screen height in place, then scrolls away
+  period?: number; // OSCILLATING only: seconds per full cycle (default 4)
+}
+
+export interface WaveCoinLine {
+  x: number;
+  count: number;
+  spacing?: number; // Vertical gap between coins (default 60)
+  dx?: number; // Horizontal step per coin, for diagonal lines
+  dy?: number;
+}
+
+export interface WavePowerUp {
+  type: PowerUp['type'];
+  x: number;
+  dy?: number;
+}
+
+export interface LevelWave {
+  depth: number;
+  obstacles: WaveObstacle[];
+  windZones: WaveWindZone[];
+  coins: WaveCoinLine[];
+  powerUps: WavePowerUp[];
+}
+
 export interface ChallengeLevel {
   id: number;
   name: string;
   description: string;
   objectives: ChallengObjective[];
-  theme: 'GENTLE' | 'NIGHT' | 'THUNDER' | 'TORNADO' | 'SPACE';
+  theme: LevelTheme;
   duration?: number; // Time limit in seconds (optional)
-  targetDepth?: number; // Target depth to reach
-  coinGoal?: number; // Number of coins to collect
+  parTime: number; // Seconds - clearing within this earns a second star
+  gravityScale: number; // 1 = normal
+  maxHp?: number; // Hits the player can take (omitted = one-hit death)
+  spawns: LevelSpawnTable;
+  events: LevelEvent[];
+  waves: LevelWave[];
 }
 
 export interface ChallengObjective {
-  type: 'SURVIVE_TIME' | 'REACH_DEPTH' | 'COLLECT_COINS' | 'NO_DAMAGE' | 'AVOID_OBSTACLES';
+  type:
+    | 'SURVIVE_TIME'
+    | 'REACH_DEPTH'
+    | 'COLLECT_COINS'
+    | 'NO_DAMAGE'
+    | 'AVOID_OBSTACLES'
+    | 'COLLECT_POWERUP' // Collect `target` power-ups of `powerUpType`
+    | 'WIND_TIME' // Seconds spent inside wind zones (total)
+    | 'UMBRELLA_CLOSED' // Seconds in a row with the umbrella closed
+    | 'TIME_LIMIT' // Met while the run is within `target` seconds
+    | 'RIDE_GUSTS' // Gusts ridden out without a collision
+    | 'NO_EDGES'; // Met until the player touches a screen edge
   description: string;
   target: number;
   current: number;
   completed: boolean;
+  powerUpType?: PowerUp['type']; // COLLECT_POWERUP only
+}
+
+export type LevelFailReason = 'TIME_EXPIRED' | 'DAMAGE_TAKEN' | 'COINS_UNREACHABLE';
+
+// Why a challenge was lost without crashing
+export interface LevelFailure {
+  reason: LevelFailReason;
+  cause: string; // Game over text
 }
 
 export interface LevelProgress {
   objectives: ChallengObjective[];
-  startTime: number;
-  timeElapsed: number;
-}
\ No newline at end of file
+  timeElapsed: number; // Seconds of simulated (unpaused) play
+  failure?: LevelFailure;
+}
+
+// Saved challenge progression for one level
+export interface LevelRecord {
+  cleared: boolean;
+  stars: number; // Best rating, 0-3
+  bestTime: number | null; // Fastest clear in seconds
+  completedObjectives: number[]; // Indexes of objectives met in any run
+}
+
+export type DifficultyMode = 'EASY' | 'MEDIUM' | 'HARD';
+
+// --- Simulation (headless game core) ---
+
+export interface PlayerState {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  isUmbrellaOpen: boolean;
+  umbrellaAnim: number; // 0 = closed, 1 = open
+  angle: number;
+  targetX: number;
+  // Animation states
+  isDancing: boolean;
+  danceTimer: number;
+  isSpinning: boolean;
+  spinRotation: number;
+  umbrellaIsBroken: boolean;
+  brokenTimer: number;
+  // Umbrella bounce effect
+  umbrellaBounce: number;
+  bounceTimer: number;
+  dashVx: number; // Sideways burst from a Dash, decays each tick
+}
+
+export interface PlayerHealth {
+  hp: number;
+  maxHp: number; // 1 = one-hit death
+  invulnerableTicks: number; // Obstacles are ignored while > 0
+  knockbackVx: number; // Sideways push from the last hit, decays each tick
+}
+
+export type StyleTrick = 'NEAR_MISS' | 'WIND_EDGE' | 'THREAD' | 'DIVE';
+
+// Style points earned on top of depth, scaled by a combo multiplier that drains between tricks
+export interface StyleState {
+  points: number;
+  combo: number; // Multiplier for the next trick (1 = no combo)
+  comboTimer: number; // Ticks until the combo drops a step
+  edgeTicks: number; // Current streak riding a wind zone edge
+  diveTicks: number; // Current closed-umbrella streak
+}
+
+// A telegraphed lightning strike down one column of the screen
+export interface LightningStrike {
+  id: string;
+  x: number; // Column centre (world space)
+  width: number;
+  phase: 'WARNING' | 'STRIKE' | 'AFTERGLOW'; // Only STRIKE hurts
+  ticksLeft: number; // Until the next phase
+}
+
+export interface WindGust {
+  active: boolean;
+  vx: number;
+  vy: number;
+  timeLeft: number; // Ticks
+}
+
+export interface SimulationConfig {
+  seed: number;
+  width: number; // World size (canvas size when the run started)
+  height: number;
+  difficultyMode: DifficultyMode;
+  gameMode: GameMode;
+  level: ChallengeLevel | null; // Full level data, so replays of custom levels are self-contained
+  maxHp: number; // 1 = one-hit death, more = lives mode
+  powerUpUpgrades: PowerUpUpgrades; // Shop levels when the run started
+  allowContinue?: boolean; // Keep the pre-tick snapshot a continue needs (live runs and replays of continued ones - never recorded)
+}
+
+// Per-tick player input
+export interface SimulationInput {
+  isUmbrellaOpen: boolean;
+  targetX: number;
+  dash?: boolean; // Pressed on this tick (one-shot)
+}
+
+// Things that happened during a tick (for sounds, particles and callbacks)
+export type SimulationEvent =
+  | { type: 'UMBRELLA_OPENED'; x: number; y: number }
+  | { type: 'UMBRELLA_CLOSED'; x: number; y: number }
+  | { type: 'LIGHTNING'; x: number | null } // Strike column in world space (null = sky flash only)
+  | { type: 'SHIELD_BLOCKED'; x: number; y: number }
+  | { type: 'POWERUP_COLLECTED'; powerUpType: PowerUp['type']; x: number; y: number }
+  | { type: 'COIN_COLLECTED'; value: number; x: number; y: number }
+  | { type: 'DASHED'; direction: number; x: number; y: number }
+  | { type: 'BALLOON_POPPED'; x: number; y: number }
+  | { type: 'STYLE'; trick: StyleTrick; points: number; combo: number; x: number; y: number }
+  | { type: 'PLAYER_HIT'; hp: number; x: number; y: number }
+  | { type: 'CRASHED'; cause: string; x: number; y: number }
+  | { type: 'LEVEL_COMPLETE'; levelId: number }
+  | { type: 'LEVEL_FAILED'; reason: LevelFailReason; cause: string }
+  | { type: 'LEVEL_MESSAGE'; text: string };
+
+export interface WorldState {
+  tick: number;
+  score: number; // Raw score units (depth * 10)
+  depth: number; // Meters
+  difficulty: number; // 0-1
+  distanceTraveled: number; // World scroll during the latest tick
+  totalScroll: number; // World scroll over the whole run (px, includes WORLD_SCROLL_FACTOR)
+  isOver: boolean;
+  player: PlayerState;
+  health: PlayerHealth;
+  style: StyleState;
+  windGust: WindGust;
+  activeWind: Point; // Net wind force on the player (for UI)
+  obstacles: Obstacle[];
+  windZones: WindZone[];
+  powerUps: PowerUp[];
+  activePowerUps: ActivePowerUp[];
+  coins: Coin[];
+  lightningStrikes: LightningStrike[];
+  levelProgress: LevelProgress | null;
+  events: SimulationEvent[]; // Events from the latest tick only
+}
+
+// --- Replays ---
+
+// Input at a tick where something changed (unchanged fields are omitted)
+export interface ReplayInputFrame {
+  t: number; // Tick
+  u?: 0 | 1; // Umbrella open
+  x?: number; // targetX (world space)
+  d?: 1; // Dash pressed
+}
+
+export interface Replay {
+  version: number;
+  config: SimulationConfig;
+  inputs: ReplayInputFrame[];
+  tickCount: number; // Tick on which the run ended
+  revivedAt?: number; // Tick of the crash the run was continued from
+  finalDepth: number;
+  recordedAt: string; // ISO date
+}
+
+// --- Controls ---
+
+export type InputAction = 'LEFT' | 'RIGHT' | 'UMBRELLA' | 'DASH';
+
+// KeyboardEvent.code values per action (primary, secondary)
+export type KeyBindings = Record<InputAction, string[]>;
@@ -0,0 +1,128 @@
+import { spawnSync } from 'child_process';
+import { app, db } from './firebaseConfig';
+import { collection, connectFirestoreEmulator, getDocs, query, where } from 'firebase/firestore';
+import { connectAuthEmulator, createUserWithEmailAndPassword, getAuth } from 'firebase/auth';
+import { Replay } from './types';
+import { GlideSimulation } from './services/glideSimulation';
+import { createReplayRecorder, quantizeInput } from './services/replayService';
+import { submitScore } from './services/leaderboardService';
+
+/**
+ * Score Verifier Emulator Check
+ * Submits one honest and one tampered replay through the game client, runs verifyScores.ts
+ * and checks that they end up VERIFIED and REJECTED.
+ *
+ * Usage (needs the Firebase CLI and Java for the emulators):
+ *   npm run verify-scores:emulator
+ * which runs:
+ *   firebase emulators:exec --only firestore,auth --project stickman-umbrella-glide "tsx verifyScores.emulator.ts"
+ */
+
+const COLLECTION_NAME = 'leaderboard';
+const VERIFIER_EMAIL = 'verifier@example.com';
+const VERIFIER_PASSWORD = 'emulator-only';
+const MAX_RUN_TICKS = 60 * 60 * 5; // 5 minutes
+
+const parseHost = (host: string): [string, number] => {
+  const [hostname, port] = host.split(':');
+  return [hostname, parseInt(port, 10)];
+};
+
+// A short headless ENDLESS run with a fixed input script, recorded like a live one
+const recordRun = (): Replay => {
+  const sim = new GlideSimulation({
+    seed: 1234,
+    width: 1920,
+    height: 1080,
+    difficultyMode: 'MEDIUM',
+    gameMode: 'ENDLESS',
+    level: null,
+    maxHp: 1,
+    powerUpUpgrades: {}
+  });
+  const recorder = createReplayRecorder(sim.config);
+
+  while (!sim.getState().isOver && sim.getState().tick < MAX_RUN_TICKS) {
+    const tick = sim.getState().tick;
+    const input = quantizeInput({ isUmbrellaOpen: tick % 90 < 60, targetX: 960 + Math.sin(tick / 50) * 400 });
+    recorder.record(tick, input);
+    sim.step(input);
+  }
+
+  const world = sim.getState();
+  if (!world.isOver) throw new Error(`Scripted run did not end within ${MAX_RUN_TICKS} ticks`);
+  return recorder.finish(world.tick, world.depth);
+};
+
+// Rules only let the console create verifiers/{uid} - the emulator's owner token stands in for it
+const addVerifier = async (firestoreHost: string, uid: string) => {
+  const projectId = app!.options.projectId;
+  const url = `http://${firestoreHost}/v1/projects/${projectId}/databases/(default)/documents/verifiers/${uid}`;
+  const response = await fetch(url, {
+    method: 'PATCH',
+    headers: { Authorization: 'Bearer owner', 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fields: {} })
+  });
+  if (!response.ok) throw new Error(`Could not create verifiers/${uid}: ${response.status} ${await response.text()}`);
+};
+
+const getVerification = async (userId: string): Promise<string | undefined> => {
+  const snapshot = await getDocs(query(collection(db, COLLECTION_NAME), where('userId', '==', userId)));
+  return snapshot.empty ? undefined : snapshot.docs[0].data().verification;
+};
+
+async function checkScoreVerification() {
+  console.log('🧪 Checking score verification against the emulators...\n');
+
+  const firestoreHost = process.env.FIRESTORE_EMULATOR_HOST;
+  const authHost = process.env.FIREBASE_AUTH_EMULATOR_HOST;
+  if (!firestoreHost || !authHost) {
+    console.error('❌ FIRESTORE_EMULATOR_HOST and FIREBASE_AUTH_EMULATOR_HOST must be set - run through `firebase emulators:exec`');
+    process.exit(1);
+  }
+  if (!db || !app) {
+    console.error('❌ Firebase database is not initialized!');
+    process.exit(1);
+  }
+
+  try {
+    const [host, port] = parseHost(firestoreHost);
+    connectFirestoreEmulator(db, host, port);
+    const auth = getAuth(app);
+    connectAuthEmulator(auth, `http://${authHost}`, { disableWarnings: true });
+
+    const { user } = await createUserWithEmailAndPassword(auth, VERIFIER_EMAIL, VERIFIER_PASSWORD);
+    await addVerifier(firestoreHost, user.uid);
+    console.log(`✅ Verifier ${VERIFIER_EMAIL} ready`);
+
+    // Honest run, and the same inputs claiming 50m more
+    const replay = recordRun();
+    const tampered: Replay = { ...replay, finalDepth: replay.finalDepth + 50 };
+
+    for (const [userId, run] of [['emulator-valid', replay], ['emulator-tampered', tampered]] as const) {
+      const result = await submitScore(userId.toUpperCase().slice(0, 15), run.finalDepth, run, userId);
+      if (!result.success) throw new Error(`Submitting ${userId} failed: ${result.error}`);
+    }
+    console.log(`✅ Submitted ${replay.finalDepth}m (valid) and ${tampered.finalDepth}m (tampered)\n`);
+
+    const verifier = spawnSync('npx', ['tsx', 'verifyScores.ts'], {
+      stdio: 'inherit',
+      env: { ...process.env, VERIFIER_EMAIL, VERIFIER_PASSWORD }
+    });
+    if (verifier.status !== 0) throw new Error(`verifyScores.ts exited with ${verifier.status}`);
+
+    const valid = await getVerification('emulator-valid');
+    const rejected = await getVerification('emulator-tampered');
+    if (valid !== 'VERIFIED') throw new Error(`Valid run is ${valid}, expected VERIFIED`);
+    if (rejected !== 'REJECTED') throw new Error(`Tampered run is ${rejected}, expected REJECTED`);
+
+    console.log('\n🎉 Valid run VERIFIED, tampered run REJECTED');
+    process.exit(0);
+  } catch (error: any) {
+    console.error('\n❌ Score verification check failed!');
+    console.error('Error:', error.message);
+    process.exit(1);
+  }
+}
+
+checkScoreVerification();
@@ -0,0 +1,119 @@
+import { app, db } from './firebaseConfig';
+import { collection, query, where, getDocs, updateDoc, doc, serverTimestamp, connectFirestoreEmulator } from 'firebase/firestore';
+import { getAuth, signInWithEmailAndPassword, connectAuthEmulator } from 'firebase/auth';
+import { importReplay, verifyReplay } from './services/replayService';
+
+/**
+ * Score Verifier
+ * Re-simulates every PENDING leaderboard entry from its seed + input replay and marks it VERIFIED or REJECTED.
+ *
+ * Usage:
+ *   VERIFIER_EMAIL=... VERIFIER_PASSWORD=... npm run verify-scores
+ *
+ * Against the emulator (`firebase emulators:start --only firestore,auth`):
+ *   FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 FIREBASE_AUTH_EMULATOR_HOST=127.0.0.1:9099 \
+ *   VERIFIER_EMAIL=... VERIFIER_PASSWORD=... npm run verify-scores
+ *
+ * The verifier account needs a document at verifiers/{uid} (see firestore.rules).
+ * In the emulator, create the user and that document from the Emulator UI.
+ * `npm run verify-scores:emulator` does all of that and checks a valid and a tampered run end-to-end.
+ */
+
+const COLLECTION_NAME = 'leaderboard';
+
+const parseHost = (host: string): [string, number] => {
+  const [hostname, port] = host.split(':');
+  return [hostname, parseInt(port, 10)];
+};
+
+async function verifyPendingScores() {
+  console.log('🔍 Starting score verification...\n');
+
+  if (!db || !app) {
+    console.error('❌ Firebase database is not initialized!');
+    console.error('   Please check your firebaseConfig.ts');
+    process.exit(1);
+  }
+
+  const email = process.env.VERIFIER_EMAIL;
+  const password = process.env.VERIFIER_PASSWORD;
+  if (!email || !password) {
+    console.error('❌ VERIFIER_EMAIL and VERIFIER_PASSWORD must be set');
+    process.exit(1);
+  }
+
+  // Emulator support
+  const auth = getAuth(app);
+  if (process.env.FIRESTORE_EMULATOR_HOST) {
+    const [host, port] = parseHost(process.env.FIRESTORE_EMULATOR_HOST);
+    connectFirestoreEmulator(db, host, port);
+    console.log(`🧪 Using Firestore emulator at ${host}:${port}`);
+  }
+  if (process.env.FIREBASE_AUTH_EMULATOR_HOST) {
+    connectAuthEmulator(auth, `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST}`, { disableWarnings: true });
+    console.log(`🧪 Using Auth emulator at ${process.env.FIREBASE_AUTH_EMULATOR_HOST}`);
+  }
+
+  try {
+    await signInWithEmailAndPassword(auth, email, password);
+    console.log(`✅ Signed in as ${email}`);
+
+    const q = query(collection(db, COLLECTION_NAME), where('verification', '==', 'PENDING'));
+    const snapshot = await getDocs(q);
+    console.log(`\n📖 Found ${snapshot.size} pending score(s)\n`);
+
+    let verified = 0;
+    let rejected = 0;
+
+    for (const entryDoc of snapshot.docs) {
+      const data = entryDoc.data();
+      const label = `${data.name} (${data.score}m)`;
+
+      let reason: string | undefined;
+      const imported = typeof data.replay === 'string'
+        ? importReplay(data.replay)
+        : { success: false, error: 'Missing replay.' };
+
+      if (!imported.success || !imported.replay) {
+        reason = imported.error;
+      } else if (imported.replay.config.seed !== data.seed) {
+        reason = `Seed ${data.seed} does not match the replay seed ${imported.replay.config.seed}.`;
+      } else {
+        reason = verifyReplay(imported.replay, data.score).reason;
+      }
+
+      if (reason) {
+        await updateDoc(doc(db, COLLECTION_NAME, entryDoc.id), {
+          verification: 'REJECTED',
+          rejectReason: reason,
+          verifiedAt: serverTimestamp()
+        });
+        console.log(`❌ ${label} rejected: ${reason}`);
+        rejected++;
+      } else {
+        await updateDoc(doc(db, COLLECTION_NAME, entryDoc.id), {
+          verification: 'VERIFIED',
+          verifiedAt: serverTimestamp()
+        });
+        console.log(`✅ ${label} verified`);
+        verified++;
+      }
+    }
+
+    console.log(`\n🎉 Done - ${verified} verified, ${rejected} rejected`);
+    process.exit(0);
+  } catch (error: any) {
+    console.error('\n❌ Score verification failed!');
+    console.error('Error:', error.message);
+
+    if (error.code === 'permission-denied') {
+      console.error('\n💡 Tip: Make sure verifiers/{uid} exists for the verifier account');
+    } else if (error.code === 'auth/invalid-credential') {
+      console.error('\n💡 Tip: Check VERIFIER_EMAIL and VERIFIER_PASSWORD');
+    }
+
+    process.exit(1);
+  }
+}
+
+verifyPendingScores();